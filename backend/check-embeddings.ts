@@ -8,6 +8,7 @@ async function checkEmbeddings() {
        id,
        content,
        embedding IS NULL as no_embedding,
+       embedding_model,
        pg_column_size(embedding) as embedding_size
      FROM memories
      ORDER BY created_at DESC`,
@@ -17,7 +18,7 @@ async function checkEmbeddings() {
   console.log(`Total memories: ${result.rows.length}\n`);
 
   result.rows.forEach((m, i) => {
-    console.log(`[${i + 1}] ${m.no_embedding ? '❌ NO EMBEDDING' : '✅ HAS EMBEDDING'} (${m.embedding_size || 0} bytes)`);
+    console.log(`[${i + 1}] ${m.no_embedding ? '❌ NO EMBEDDING' : '✅ HAS EMBEDDING'} (${m.embedding_size || 0} bytes, model: ${m.embedding_model || 'unknown'})`);
     console.log(`    Content: ${m.content.substring(0, 80)}${m.content.length > 80 ? '...' : ''}`);
     console.log(`    ID: ${m.id}\n`);
   });
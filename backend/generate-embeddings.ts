@@ -1,52 +1,83 @@
-import { EmbeddingService } from './src/services/EmbeddingService';
-import { query } from './src/config/database';
+import { EmbeddingMigrationService } from './src/services/EmbeddingMigrationService';
+import { closePool } from './src/config/database';
 
-async function generateMissingEmbeddings() {
-  console.log('🔍 Checking for memories without embeddings...\n');
+/**
+ * Fill missing embeddings and re-embed memories produced by another model.
+ *
+ * Usage: npx ts-node generate-embeddings.ts [--dry-run] [--batch-size=100] [--restart]
+ *
+ *   --dry-run        Show what would be re-embedded, change nothing
+ *   --batch-size=N   Memories per provider call (default 100, max 500)
+ *   --restart        Ignore the saved cursor of an interrupted run
+ *
+ * Interrupted runs resume from their last completed batch. Search only
+ * compares memories embedded by the active model, so memories not yet
+ * migrated are temporarily invisible to similarity search.
+ */
+function parseArgs(argv: string[]): { dryRun: boolean; batchSize: number; restart: boolean } {
+  const batchArg = argv.find(a => a.startsWith('--batch-size='));
+  const batchSize = batchArg ? parseInt(batchArg.split('=')[1]) : 100;
 
-  // Find memories without embeddings
-  const result = await query(
-    `SELECT id, content FROM memories WHERE embedding IS NULL`,
-    []
-  );
+  return {
+    dryRun: argv.includes('--dry-run'),
+    batchSize: isNaN(batchSize) ? 100 : batchSize,
+    restart: argv.includes('--restart'),
+  };
+}
 
-  const memoriesWithoutEmbeddings = result.rows;
+async function generateEmbeddings() {
+  const { dryRun, batchSize, restart } = parseArgs(process.argv.slice(2));
 
-  if (memoriesWithoutEmbeddings.length === 0) {
-    console.log('✅ All memories already have embeddings!');
-    process.exit(0);
-  }
+  const plan = await EmbeddingMigrationService.plan(batchSize);
+  console.log(`🔍 Target embedding model: ${plan.targetModel}\n`);
 
-  console.log(`Found ${memoriesWithoutEmbeddings.length} memories without embeddings.\n`);
+  if (plan.pending === 0) {
+    console.log('✅ All memories already have embeddings from this model!');
+    return;
+  }
 
-  // Generate embeddings for each memory
-  for (let i = 0; i < memoriesWithoutEmbeddings.length; i++) {
-    const memory = memoriesWithoutEmbeddings[i];
-    console.log(`[${i + 1}/${memoriesWithoutEmbeddings.length}] Generating embedding for memory ${memory.id}...`);
-    console.log(`   Content: ${memory.content.substring(0, 60)}${memory.content.length > 60 ? '...' : ''}`);
+  console.log(`Found ${plan.pending} memories to embed (${plan.batches} batches of ${batchSize}):`);
+  for (const group of plan.byModel) {
+    console.log(`   ${group.model || '(no embedding)'}: ${group.count}`);
+  }
+  console.log('');
 
-    try {
-      // Generate embedding
-      const embedding = await EmbeddingService.generateEmbedding(memory.content);
+  if (dryRun) {
+    console.log('Dry run - no changes made.');
+    return;
+  }
 
-      // Update memory with embedding
-      await query(
-        `UPDATE memories SET embedding = $1::vector WHERE id = $2`,
-        [JSON.stringify(embedding), memory.id]
-      );
+  const startTime = Date.now();
+  const result = await EmbeddingMigrationService.run({
+    batchSize,
+    restart,
+    onProgress: (progress) => {
+      const done = progress.processed + progress.failed;
+      const percent = progress.total > 0 ? Math.min(100, (done / progress.total) * 100) : 100;
+      const elapsed = (Date.now() - startTime) / 1000;
+      console.log(`   [${done}/${progress.total}] ${percent.toFixed(1)}% - ${progress.failed} failed - ${elapsed.toFixed(0)}s elapsed`);
+    },
+  });
 
-      console.log(`   ✅ Embedding generated successfully!\n`);
-    } catch (error) {
-      console.error(`   ❌ Error generating embedding:`, error);
-    }
+  if (result.resumedFrom) {
+    console.log(`\n(resumed after memory ${result.resumedFrom})`);
   }
 
-  console.log('\n🎉 All done! Embeddings have been generated for all memories.');
-  process.exit(0);
+  console.log(`\n🎉 Done: ${result.processed} embedded, ${result.failed} failed.`);
+  if (result.failed > 0) {
+    console.log('Failed memories keep their previous embedding; run again to retry them.');
+  }
 }
 
 // Run the script
-generateMissingEmbeddings().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+generateEmbeddings()
+  .then(async () => {
+    await closePool();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error('Fatal error:', error);
+    console.error('Progress was saved; run the command again to resume.');
+    await closePool();
+    process.exit(1);
+  });
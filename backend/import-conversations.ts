@@ -0,0 +1,86 @@
+import fs from 'fs';
+import { parseExport, IMPORT_FORMATS, ImportFormat } from './src/importers';
+import { ConversationImportService } from './src/services/ConversationImportService';
+import { query, closePool } from './src/config/database';
+
+/**
+ * Import a chat export into the conversation tables.
+ *
+ * Usage: npx ts-node import-conversations.ts --user=<email|id> --file=<path> [--format=chatgpt] [--extract-insights]
+ *
+ *   --user=X             Owner of the imported conversations (email or user id)
+ *   --file=PATH          Export file, e.g. conversations.json from a ChatGPT export
+ *   --format=F           chatgpt (default), claude or jsonl
+ *   --extract-insights   Also create memories from each conversation (one LLM call per conversation)
+ *
+ * Re-importing a newer export is safe: known conversations (same session
+ * id) only get the turns that were not imported yet.
+ */
+function parseArgs(argv: string[]): { user?: string; file?: string; format: string; extractInsights: boolean } {
+  const value = (name: string) => argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+  return {
+    user: value('user'),
+    file: value('file'),
+    format: value('format') || 'chatgpt',
+    extractInsights: argv.includes('--extract-insights'),
+  };
+}
+
+async function resolveUserId(user: string): Promise<string> {
+  const result = await query(
+    `SELECT id FROM users WHERE email = $1 OR id::text = $1`,
+    [user]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error(`No user found for "${user}"`);
+  }
+  return result.rows[0].id;
+}
+
+async function importConversations() {
+  const { user, file, format, extractInsights } = parseArgs(process.argv.slice(2));
+
+  if (!user || !file) {
+    throw new Error('Usage: import-conversations.ts --user=<email|id> --file=<path> [--format=chatgpt|claude|jsonl] [--extract-insights]');
+  }
+  if (!(IMPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`--format must be one of: ${IMPORT_FORMATS.join(', ')}`);
+  }
+
+  const userId = await resolveUserId(user);
+  const raw = fs.readFileSync(file, 'utf8');
+  const data = format === 'jsonl' ? raw : JSON.parse(raw);
+  const conversations = parseExport(format as ImportFormat, data);
+
+  const turnCount = conversations.reduce((sum, c) => sum + c.turns.length, 0);
+  console.log(`📥 Importing ${conversations.length} ${format} conversations (${turnCount} turns)...\n`);
+
+  const startTime = Date.now();
+  const result = await ConversationImportService.importConversations(userId, conversations, { extractInsights });
+  const elapsed = (Date.now() - startTime) / 1000;
+
+  console.log(`🎉 Imported ${result.conversations} new conversations, ${result.turns} turns in ${elapsed.toFixed(0)}s`);
+  if (result.updated + result.unchanged > 0) {
+    console.log(`   ${result.updated} already imported conversations got new turns, ${result.unchanged} were up to date`);
+  }
+  if (extractInsights) {
+    console.log(`   ${result.insights} memories created from insights`);
+  }
+  for (const failure of result.failed) {
+    console.log(`   ✗ ${failure.title || failure.sessionId || '(untitled)'}: ${failure.error}`);
+  }
+}
+
+// Run the script
+importConversations()
+  .then(async () => {
+    await closePool();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error('Fatal error:', error instanceof Error ? error.message : error);
+    await closePool();
+    process.exit(1);
+  });
@@ -0,0 +1,16 @@
+-- Migration: Server-side chat sessions for /api/chat
+-- Date: 2026-10-19
+-- Requires schema-conversations.sql
+
+-- Chat sessions are conversations with llm_platform = 'dory'. Once a
+-- session outgrows the history token budget its older turns are folded
+-- into conversation_summary; this records how far the summary reaches.
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS summarized_through_turn INT NOT NULL DEFAULT 0;
+
+-- Session list: a user's sessions, most recently active first
+CREATE INDEX IF NOT EXISTS idx_conversations_user_platform_last_message
+    ON conversations(user_id, llm_platform, last_message_at DESC);
+
+COMMENT ON COLUMN conversations.llm_platform IS 'chatgpt, claude, gemini, other, or dory for chat sessions held by /api/chat';
+COMMENT ON COLUMN conversations.summarized_through_turn IS 'Last turn folded into conversation_summary (0 = none); later turns are sent verbatim';
@@ -0,0 +1,17 @@
+-- Migration: Support importing chat exports into the conversation tables
+-- Date: 2026-10-19
+-- Requires schema-conversations.sql
+
+-- Same rule as memories: only compare vectors produced by the same model
+ALTER TABLE conversation_turns
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+
+-- Re-imports look conversations up by their platform id
+CREATE INDEX IF NOT EXISTS idx_conversations_user_platform_session
+    ON conversations(user_id, llm_platform, session_id);
+
+COMMENT ON COLUMN conversation_turns.embedding_model IS 'Embedding model that produced the turn message embeddings';
+COMMENT ON COLUMN conversations.embedding_model IS 'Embedding model that produced summary_embedding and topic_embedding';
@@ -0,0 +1,11 @@
+-- Migration: Unique turn numbers for conversations appended through the API
+-- Date: 2026-10-19
+-- Requires schema-conversations.sql
+
+-- Turns are numbered after the last stored one; two concurrent appends to
+-- the same conversation must fail instead of producing duplicate numbers
+DROP INDEX IF EXISTS idx_conversation_turns_turn_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_turns_turn_number
+    ON conversation_turns(conversation_id, turn_number);
+
+COMMENT ON INDEX idx_conversation_turns_turn_number IS 'One turn per position in a conversation';
@@ -0,0 +1,20 @@
+-- Migration: Add persistent embedding cache
+-- Date: 2026-10-19
+
+-- Embeddings keyed by model and sha256 of the normalized input text,
+-- so repeated searches and re-imported notes skip the provider call
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    model VARCHAR(100) NOT NULL,
+    content_hash CHAR(64) NOT NULL, -- sha256 hex of normalized text
+    embedding vector(1536) NOT NULL,
+    hit_count INT DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_used_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (model, content_hash)
+);
+
+-- Supports pruning entries that have not been used for a while
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used_at);
+
+COMMENT ON TABLE embedding_cache IS 'Cached embeddings keyed by (model, sha256(normalized text))';
+COMMENT ON COLUMN embedding_cache.hit_count IS 'Number of times this entry saved a provider call';
@@ -0,0 +1,31 @@
+-- Migration: Track which model produced each memory embedding
+-- Date: 2026-10-19
+
+ALTER TABLE memories
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+
+-- Every embedding so far came from the original default model
+UPDATE memories
+SET embedding_model = 'text-embedding-3-small'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Similarity search filters on the model so vector spaces never mix
+CREATE INDEX IF NOT EXISTS idx_memories_user_embedding_model ON memories(user_id, embedding_model);
+
+-- Progress of re-embedding runs (one row per target model), used to resume
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    target_model VARCHAR(100) UNIQUE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running', -- running, completed, failed
+    last_memory_id UUID, -- keyset cursor: memories are processed in id order
+    total INT DEFAULT 0,
+    processed INT DEFAULT 0,
+    failed INT DEFAULT 0,
+    last_error TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+COMMENT ON COLUMN memories.embedding_model IS 'Embedding model that produced memories.embedding';
+COMMENT ON TABLE embedding_migrations IS 'Resumable progress for re-embedding memories with a new model';
@@ -0,0 +1,30 @@
+-- Migration: Resolve entity variants to one canonical entity
+-- Date: 2026-10-19
+
+-- Each entity is embedded from its name and the context it was first seen
+-- in; a new name close enough to an existing entity becomes its alias
+ALTER TABLE entities
+ADD COLUMN IF NOT EXISTS name_embedding vector(1536),
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+
+-- Names that resolve to a canonical entity: variants matched on save,
+-- and the names of entities merged into it
+CREATE TABLE IF NOT EXISTS entity_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    entity_type VARCHAR(50) NOT NULL,
+    alias_value TEXT NOT NULL,
+    normalized_alias TEXT NOT NULL,
+    similarity FLOAT, -- NULL when merged by hand
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(user_id, entity_type, normalized_alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity ON entity_aliases(entity_id);
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_normalized ON entity_aliases(normalized_alias);
+
+COMMENT ON COLUMN entities.name_embedding IS 'Embedding of the entity name with the context it was first seen in';
+COMMENT ON COLUMN entities.embedding_model IS 'Embedding model that produced name_embedding';
+COMMENT ON TABLE entity_aliases IS 'Other names (per type) of a canonical entity; mentions under them are stored on the entity';
+COMMENT ON COLUMN entity_aliases.similarity IS 'Name embedding similarity when resolved automatically; NULL for manual merges';
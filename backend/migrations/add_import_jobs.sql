@@ -0,0 +1,31 @@
+-- Migration: Background queue for conversation imports
+-- Date: 2026-10-19
+
+-- An upload is parsed in the request and imported by the ingestion worker,
+-- one conversation per step; processed is how many are done, so a worker
+-- that dies mid-import resumes after them
+CREATE TABLE IF NOT EXISTS import_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    format VARCHAR(20) NOT NULL, -- chatgpt, claude, jsonl
+    conversations JSONB NOT NULL, -- parsed export; emptied once imported
+    extract_insights BOOLEAN NOT NULL DEFAULT FALSE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed
+    total INT NOT NULL,
+    processed INT NOT NULL DEFAULT 0,
+    result JSONB NOT NULL DEFAULT '{}', -- counts and per-conversation failures so far
+    attempts INT NOT NULL DEFAULT 0, -- tries of the current conversation
+    max_attempts INT NOT NULL DEFAULT 5,
+    run_after TIMESTAMP NOT NULL DEFAULT NOW(), -- retry backoff
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_runnable ON import_jobs(run_after)
+    WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_import_jobs_user ON import_jobs(user_id, created_at DESC);
+
+COMMENT ON TABLE import_jobs IS 'Queued conversation imports and their progress';
@@ -0,0 +1,48 @@
+-- Migration: Durable job queue for asynchronous memory ingestion
+-- Date: 2026-10-19
+
+-- processing: enrichment still queued or running
+-- ready:      all stages completed
+-- failed:     a stage exhausted its retries
+ALTER TABLE memories
+ADD COLUMN IF NOT EXISTS processing_status VARCHAR(20) DEFAULT 'ready';
+
+UPDATE memories SET processing_status = 'ready' WHERE processing_status IS NULL;
+
+-- One job per memory; workers claim jobs with FOR UPDATE SKIP LOCKED
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    memory_id UUID UNIQUE NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed
+    attempts INT NOT NULL DEFAULT 0,
+    max_attempts INT NOT NULL DEFAULT 5,
+    run_after TIMESTAMP NOT NULL DEFAULT NOW(), -- retry backoff
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+-- Per-stage progress, so a retry resumes after the last completed stage
+CREATE TABLE IF NOT EXISTS ingestion_job_stages (
+    job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    stage VARCHAR(50) NOT NULL, -- embedding, categorization, entities, contradictions, relationships
+    position INT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed
+    attempts INT NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    PRIMARY KEY (job_id, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_runnable ON ingestion_jobs(run_after)
+    WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_memories_processing ON memories(processing_status)
+    WHERE processing_status <> 'ready';
+
+COMMENT ON COLUMN memories.processing_status IS 'Ingestion state: processing, ready or failed';
+COMMENT ON TABLE ingestion_jobs IS 'Durable queue of memory enrichment jobs';
+COMMENT ON TABLE ingestion_job_stages IS 'Progress and errors of each enrichment stage';
@@ -0,0 +1,14 @@
+-- Migration: Store long content as a parent memory with chunk children
+-- Date: 2026-10-19
+
+-- Chunks are memories of their own (content + embedding) that point at the
+-- parent holding the full text; they go away with the parent
+ALTER TABLE memories
+ADD COLUMN IF NOT EXISTS parent_memory_id UUID REFERENCES memories(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS chunk_index INT;
+
+CREATE INDEX IF NOT EXISTS idx_memories_parent ON memories(parent_memory_id)
+    WHERE parent_memory_id IS NOT NULL;
+
+COMMENT ON COLUMN memories.parent_memory_id IS 'Set on chunk memories: the memory holding the full text';
+COMMENT ON COLUMN memories.chunk_index IS 'Position of a chunk within its parent (0-based)';
@@ -0,0 +1,17 @@
+-- Migration: Detect duplicate memories on creation
+-- Date: 2026-10-19
+
+-- sha256 of the whitespace-normalized content, same as EmbeddingService.hashText
+ALTER TABLE memories
+ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+
+UPDATE memories
+SET content_hash = encode(sha256(convert_to(
+      btrim(regexp_replace(normalize(content, NFC), '\s+', ' ', 'g')), 'UTF8')), 'hex')
+WHERE content_hash IS NULL AND parent_memory_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_content_hash ON memories(user_id, content_hash)
+    WHERE parent_memory_id IS NULL;
+
+COMMENT ON COLUMN memories.content_hash IS 'sha256 of normalized content, used for exact-duplicate detection';
+COMMENT ON COLUMN memories.processing_status IS 'Ingestion state: processing, ready, failed or duplicate (merged into superseded_by)';
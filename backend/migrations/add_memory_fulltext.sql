@@ -0,0 +1,12 @@
+-- Migration: Full-text index on memory content for keyword and hybrid search
+-- Date: 2026-10-19
+
+-- Kept in step with content by Postgres; chunks are indexed like any other
+-- memory and collapse into their parent at query time
+ALTER TABLE memories
+ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memories_content_tsv ON memories USING GIN(content_tsv);
+
+COMMENT ON COLUMN memories.content_tsv IS 'English full-text vector of content, for keyword search';
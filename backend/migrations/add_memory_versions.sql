@@ -0,0 +1,26 @@
+-- Migration: Editable memories with version history
+-- Date: 2026-10-19
+
+-- Current revision number; every edit or revert increments it
+ALTER TABLE memories
+ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 1;
+
+-- Snapshot of each revision as it was before being replaced
+CREATE TABLE IF NOT EXISTS memory_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    version INT NOT NULL,
+    content TEXT NOT NULL,
+    content_type VARCHAR(50),
+    metadata JSONB DEFAULT '{}',
+    importance_score FLOAT,
+    valid_from TIMESTAMP NOT NULL, -- when this revision became current
+    replaced_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(memory_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_versions_memory ON memory_versions(memory_id, version DESC);
+
+COMMENT ON COLUMN memories.version IS 'Current revision number (1 = as created)';
+COMMENT ON TABLE memory_versions IS 'Prior revisions of edited memories, for history and revert';
@@ -0,0 +1,21 @@
+-- Migration: User-managed relationship edges
+-- Date: 2026-10-19
+
+-- Edges the user created or edited carry metadata.source = 'user'; the
+-- automatic rebuilds leave them alone. An edge the user deleted (or
+-- relabelled away from) leaves a tombstone so rebuilds never recreate it.
+CREATE TABLE IF NOT EXISTS memory_relationship_tombstones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    source_memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    target_memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    relationship_type VARCHAR(50) NOT NULL,
+    deleted_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(source_memory_id, target_memory_id, relationship_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_tombstones_user ON memory_relationship_tombstones(user_id);
+
+COMMENT ON TABLE memory_relationship_tombstones IS 'Edges the user removed; automatic relationship building skips them';
+COMMENT ON COLUMN memory_relationships.relationship_type IS 'Type: extends, contradicts, related_to, inferred, temporal (source before target), causal (source led to target), supersedes, part_of';
+COMMENT ON COLUMN memory_relationships.metadata IS 'source = user for edges created or edited by the user (kept by rebuilds), note; explanation for classified temporal/causal edges';
@@ -0,0 +1,21 @@
+-- Migration: Record which memories informed each answer
+-- Date: 2026-10-19
+-- Requires schema-conversations.sql
+
+-- Every /api/chat and /api/chat/ask answer is stored as a conversation turn
+-- and each memory retrieved for it gets a link to that turn. A memory is
+-- retrieved for many answers of the same conversation, so links are unique
+-- per turn rather than per conversation.
+ALTER TABLE memory_conversation_links
+DROP CONSTRAINT IF EXISTS memory_conversation_links_memory_id_conversation_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memory_conversation_links_memory_turn
+    ON memory_conversation_links(memory_id, turn_id);
+
+CREATE INDEX IF NOT EXISTS idx_memory_conversation_links_turn
+    ON memory_conversation_links(turn_id);
+
+COMMENT ON COLUMN conversations.llm_platform IS 'chatgpt, claude, gemini, other, dory for chat sessions held by /api/chat, or dory-log for answers given outside a session';
+COMMENT ON COLUMN memory_conversation_links.relevance_score IS 'Similarity of the memory to the message when it was retrieved';
+COMMENT ON COLUMN memory_conversation_links.was_retrieved IS 'Returned by retrieval for the answer in turn_id';
+COMMENT ON COLUMN memory_conversation_links.was_mentioned IS 'Included in the prompt the answer was generated from';
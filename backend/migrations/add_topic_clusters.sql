@@ -0,0 +1,47 @@
+-- Migration: Populate topic clusters for conversations and memories
+-- Date: 2026-10-19
+-- Requires schema-conversations.sql
+
+-- topic_embedding is the centroid of the topic phrases of the cluster's
+-- members (topic_phrases); member_count is how many went into it
+ALTER TABLE topic_clusters
+ADD COLUMN IF NOT EXISTS member_count INT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS memory_count INT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+
+-- Memberships of memories, alongside conversation_topics
+CREATE TABLE IF NOT EXISTS memory_topics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topic_clusters(id) ON DELETE CASCADE,
+    relevance_score FLOAT DEFAULT 0.5,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(memory_id, topic_id)
+);
+
+-- The phrase embeddings behind each centroid, per member, so a centroid
+-- can be recomputed when a member is re-clustered or clusters merge
+CREATE TABLE IF NOT EXISTS topic_phrases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    topic_id UUID NOT NULL REFERENCES topic_clusters(id) ON DELETE CASCADE,
+    memory_id UUID REFERENCES memories(id) ON DELETE CASCADE,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+    phrase VARCHAR(255) NOT NULL,
+    embedding vector NOT NULL,
+    embedding_model VARCHAR(100) NOT NULL,
+    CHECK ((memory_id IS NULL) <> (conversation_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_topics_topic ON memory_topics(topic_id);
+CREATE INDEX IF NOT EXISTS idx_topic_phrases_topic ON topic_phrases(topic_id);
+CREATE INDEX IF NOT EXISTS idx_topic_phrases_memory ON topic_phrases(memory_id);
+CREATE INDEX IF NOT EXISTS idx_topic_phrases_conversation ON topic_phrases(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_topics_topic ON conversation_topics(topic_id);
+
+COMMENT ON COLUMN topic_clusters.topic_embedding IS 'Centroid of the embeddings of the topic phrases of the cluster''s members';
+COMMENT ON COLUMN topic_clusters.member_count IS 'Number of topic phrases averaged into topic_embedding';
+COMMENT ON COLUMN topic_clusters.aliases IS 'Names of topics merged into this one; they resolve to it directly';
+COMMENT ON COLUMN topic_clusters.embedding_model IS 'Embedding model that produced topic_embedding';
+COMMENT ON TABLE memory_topics IS 'Topic cluster memberships of memories';
+COMMENT ON TABLE topic_phrases IS 'Topic phrase embeddings of each cluster member, averaged into the centroid';
@@ -0,0 +1,34 @@
+-- Migration: Store memory content raw instead of HTML-encoded
+-- Date: 2026-10-19
+-- Afterwards run `npm run embeddings:migrate` to re-embed the decoded memories
+
+-- The create route used to encode < > " ' / as entities (& was left alone).
+-- Decode exactly those five; none decodes into another entity, so the order
+-- of the replacements does not matter.
+CREATE OR REPLACE FUNCTION pg_temp.decode_stored_html(text) RETURNS text AS $$
+    SELECT replace(replace(replace(replace(replace($1,
+        '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#x27;', ''''), '&#x2F;', '/')
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Clearing embedding_model queues the row for re-embedding; until then it is
+-- left out of similarity search rather than compared on the encoded text.
+-- The dedupe hash is recomputed from the decoded text of these rows only.
+UPDATE memories
+SET content = pg_temp.decode_stored_html(content),
+    metadata = CASE WHEN metadata ? 'summary'
+                    THEN jsonb_set(metadata, '{summary}', to_jsonb(pg_temp.decode_stored_html(metadata->>'summary')))
+                    ELSE metadata END,
+    content_hash = CASE WHEN content_hash IS NOT NULL
+                        THEN encode(sha256(convert_to(btrim(regexp_replace(
+                               normalize(pg_temp.decode_stored_html(content), NFC), '\s+', ' ', 'g')), 'UTF8')), 'hex')
+                        END,
+    embedding_model = NULL
+WHERE content ~ '&(lt|gt|quot|#x27|#x2F);';
+
+UPDATE memory_versions
+SET content = pg_temp.decode_stored_html(content)
+WHERE content ~ '&(lt|gt|quot|#x27|#x2F);';
+
+UPDATE entity_mentions
+SET context = pg_temp.decode_stored_html(context)
+WHERE context ~ '&(lt|gt|quot|#x27|#x2F);';
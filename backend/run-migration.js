@@ -3,6 +3,9 @@ const fs = require('fs');
 const path = require('path');
 require('dotenv').config();
 
+// Usage: node run-migration.js [migration-file.sql]
+const migrationFile = process.argv[2] || 'add_memory_lifecycle.sql';
+
 async function runMigration() {
   const client = new Client({
     host: process.env.DB_HOST || 'localhost',
@@ -17,7 +20,7 @@ async function runMigration() {
     await client.connect();
     console.log('✓ Connected!');
 
-    const migrationPath = path.join(__dirname, 'migrations', 'add_memory_lifecycle.sql');
+    const migrationPath = path.join(__dirname, 'migrations', migrationFile);
     console.log(`Reading migration from: ${migrationPath}`);
 
     const sql = fs.readFileSync(migrationPath, 'utf8');
@@ -26,6 +29,11 @@ async function runMigration() {
     await client.query(sql);
 
     console.log('✓ Migration completed successfully!');
+
+    if (migrationFile !== 'add_memory_lifecycle.sql') {
+      return;
+    }
+
     console.log('\nChanges applied:');
     console.log('- Added memory_retention_days to users table');
     console.log('- Added expires_at, is_archived, superseded_by, archived_at to memories table');
@@ -49,6 +49,25 @@ export const query = async (text: string, params?: any[]): Promise<QueryResult>
   }
 };
 
+export type QueryRunner = (text: string, params?: any[]) => Promise<QueryResult>;
+
+// Run statements on one connection in a transaction; rolled back if any fails
+export const transaction = async <T>(work: (run: QueryRunner) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await work((text, params) => client.query(text, params));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 // Test database connection
 export const testConnection = async (): Promise<boolean> => {
   try {
@@ -17,6 +17,15 @@ export const config = {
     apiKey: process.env.OPENAI_API_KEY || '',
   },
 
+  // LLM/embedding provider (openai | openai-compatible | local)
+  // Outside production, a missing OpenAI key falls back to the offline local provider
+  provider: {
+    name: process.env.LLM_PROVIDER
+      || (process.env.OPENAI_API_KEY || process.env.NODE_ENV === 'production' ? 'openai' : 'local'),
+    baseUrl: process.env.LLM_BASE_URL || '',       // e.g. http://localhost:11434/v1 for Ollama
+    apiKey: process.env.LLM_API_KEY || '',         // most local servers ignore this
+  },
+
   // Server
   server: {
     port: parseInt(process.env.PORT || '3000'),
@@ -26,25 +35,82 @@ export const config = {
 
   // Embeddings
   embeddings: {
-    model: 'text-embedding-3-small',  // Using newer embedding model
-    dimensions: 1536,
+    model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',  // Using newer embedding model
+    dimensions: 1536,  // Must match the vector(1536) columns in schema.sql
+    cache: process.env.EMBEDDING_CACHE !== 'false',  // Persistent cache in embedding_cache
+  },
+
+  // Duplicate detection on memory creation
+  dedupe: {
+    enabled: process.env.DEDUPE_ENABLED !== 'false',
+    threshold: parseFloat(process.env.DEDUPE_THRESHOLD || '0.97'),  // Cosine similarity for near-duplicates
+    importanceBoost: 0.05,  // Added to the existing memory's importance per duplicate
+  },
+
+  // Topic clusters for conversations and memories (cosine similarity of topic embeddings)
+  topics: {
+    assignThreshold: parseFloat(process.env.TOPIC_ASSIGN_THRESHOLD || '0.8'),  // Join an existing topic at or above this
+    mergeThreshold: parseFloat(process.env.TOPIC_MERGE_THRESHOLD || '0.9'),    // Merge two topics whose centroids are this close
+  },
+
+  // Entity resolution (cosine similarity of name + context embeddings, see EntityService)
+  entities: {
+    aliasThreshold: parseFloat(process.env.ENTITY_ALIAS_THRESHOLD || '0.75'),  // Variant of an entity whose name overlaps ("Bob" / "Bob Smith")
+    matchThreshold: parseFloat(process.env.ENTITY_MATCH_THRESHOLD || '0.92'),  // Same entity under an unrelated name
+  },
+
+  // Long content is stored as a parent memory plus overlapping chunk children
+  chunking: {
+    threshold: parseInt(process.env.CHUNK_THRESHOLD || '8000'),  // Longer content gets chunked (embedding input limit)
+    size: parseInt(process.env.CHUNK_SIZE || '2000'),             // Characters per chunk
+    overlap: parseInt(process.env.CHUNK_OVERLAP || '200'),        // Characters shared by neighbouring chunks
   },
 
   // LLM
   llm: {
-    model: 'gpt-4o-mini',
-    chatModel: 'gpt-4-turbo-preview',
+    model: process.env.LLM_MODEL || 'gpt-4o-mini',
+    chatModel: process.env.LLM_CHAT_MODEL || 'gpt-4-turbo-preview',
     temperature: 0.7,
   },
+
+  // Server-side chat sessions (see ChatSessionService)
+  chat: {
+    historyTokenBudget: parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '4000'),  // Older turns are summarized beyond this
+    keepRecentTurns: parseInt(process.env.CHAT_KEEP_RECENT_TURNS || '4'),           // Always sent verbatim
+  },
+
+  // Background enrichment of new memories (see IngestionService)
+  ingestion: {
+    worker: process.env.INGESTION_WORKER !== 'false',  // Set to false on instances that should only accept requests
+    pollIntervalMs: parseInt(process.env.INGESTION_POLL_MS || '2000'),
+    maxAttempts: parseInt(process.env.INGESTION_MAX_ATTEMPTS || '5'),
+  },
+
+  // Conversation export imports (see src/importers)
+  import: {
+    maxUploadSize: process.env.IMPORT_MAX_UPLOAD_SIZE || '100mb',  // Use the CLI for larger exports
+  },
 };
 
 // Validate required environment variables
 export const validateEnv = (): void => {
-  const required = ['DB_PASSWORD', 'OPENAI_API_KEY'];
+  const required = ['DB_PASSWORD'];
+
+  // Only the hosted OpenAI provider needs an OpenAI key; compatible servers need a base URL
+  if (config.provider.name === 'openai') {
+    required.push('OPENAI_API_KEY');
+  } else if (config.provider.name === 'openai-compatible') {
+    required.push('LLM_BASE_URL');
+  }
+
   const missing = required.filter(key => !process.env[key]);
 
   if (missing.length > 0) {
     console.warn(`⚠️  Warning: Missing environment variables: ${missing.join(', ')}`);
     console.warn('Please check your .env file');
   }
+
+  if (config.provider.name === 'local') {
+    console.warn('⚠️  Using the offline local provider: rule-based answers and hashed embeddings, not for production');
+  }
 };
@@ -0,0 +1,138 @@
+import { ImportedConversation, ImportedTurn } from './types';
+
+interface ChatGPTMessage {
+  author?: { role?: string };
+  create_time?: number | null;
+  content?: { content_type?: string; parts?: unknown[] };
+  metadata?: { model_slug?: string };
+}
+
+interface ChatGPTNode {
+  id: string;
+  message?: ChatGPTMessage | null;
+  parent?: string | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping?: Record<string, ChatGPTNode>;
+}
+
+/**
+ * Parse the conversations.json file of a ChatGPT data export.
+ *
+ * Each conversation is a tree of message nodes (edits and regenerations
+ * branch off); the thread the user last saw is the path from current_node
+ * back to the root. Consecutive assistant messages are merged into one
+ * reply, and system/tool messages are dropped.
+ */
+export function parseChatGPTExport(data: unknown): ImportedConversation[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Expected the conversations.json array from a ChatGPT export');
+  }
+
+  return data
+    .filter((conversation): conversation is ChatGPTConversation =>
+      !!conversation && typeof conversation === 'object' && !!conversation.mapping)
+    .map(parseConversation)
+    .filter(conversation => conversation.turns.length > 0);
+}
+
+function parseConversation(conversation: ChatGPTConversation): ImportedConversation {
+  const messages = currentThread(conversation);
+  const sessionId = conversation.conversation_id || conversation.id;
+  const startedAt = toDate(conversation.create_time) || new Date();
+
+  const turns: ImportedTurn[] = [];
+  let model: string | undefined;
+
+  for (const message of messages) {
+    const role = message.author?.role;
+    const { text, hasImage } = messageText(message);
+
+    if (role === 'user') {
+      if (!text && !hasImage) continue;
+      turns.push({
+        userMessage: text,
+        assistantMessage: '',
+        timestamp: toDate(message.create_time) || turns[turns.length - 1]?.timestamp || startedAt,
+        containsImage: hasImage,
+      });
+    } else if (role === 'assistant' && turns.length > 0 && text) {
+      const turn = turns[turns.length - 1];
+      turn.assistantMessage = turn.assistantMessage ? `${turn.assistantMessage}\n\n${text}` : text;
+      model = message.metadata?.model_slug || model;
+    }
+  }
+
+  return {
+    platform: 'chatgpt',
+    sessionId,
+    title: conversation.title || undefined,
+    model,
+    url: sessionId ? `https://chatgpt.com/c/${sessionId}` : undefined,
+    startedAt,
+    turns,
+  };
+}
+
+/**
+ * Messages on the path from the root to current_node, oldest first
+ */
+function currentThread(conversation: ChatGPTConversation): ChatGPTMessage[] {
+  const mapping = conversation.mapping!;
+  const nodeId = conversation.current_node && mapping[conversation.current_node]
+    ? conversation.current_node
+    : latestLeaf(mapping);
+
+  const messages: ChatGPTMessage[] = [];
+  const seen = new Set<string>();
+  let node = nodeId ? mapping[nodeId] : undefined;
+
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    if (node.message) messages.push(node.message);
+    node = node.parent ? mapping[node.parent] : undefined;
+  }
+
+  return messages.reverse();
+}
+
+/**
+ * Fallback for exports without current_node: the most recent message
+ */
+function latestLeaf(mapping: Record<string, ChatGPTNode>): string | undefined {
+  let latest: ChatGPTNode | undefined;
+  for (const node of Object.values(mapping)) {
+    const time = node.message?.create_time || 0;
+    if (!latest || time >= (latest.message?.create_time || 0)) {
+      latest = node;
+    }
+  }
+  return latest?.id;
+}
+
+function messageText(message: ChatGPTMessage): { text: string; hasImage: boolean } {
+  const parts = message.content?.parts || [];
+  const texts: string[] = [];
+  let hasImage = false;
+
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      texts.push(part);
+    } else if (part && typeof part === 'object') {
+      const contentType = (part as { content_type?: string }).content_type || '';
+      if (contentType.startsWith('image')) hasImage = true;
+    }
+  }
+
+  return { text: texts.join('\n').trim(), hasImage };
+}
+
+function toDate(unixSeconds?: number | null): Date | undefined {
+  return typeof unixSeconds === 'number' ? new Date(unixSeconds * 1000) : undefined;
+}
@@ -0,0 +1,92 @@
+import { ImportedConversation, ImportedTurn } from './types';
+
+interface ClaudeContentBlock {
+  type?: string;
+  text?: string;
+}
+
+interface ClaudeMessage {
+  sender?: string; // human | assistant
+  text?: string;
+  content?: ClaudeContentBlock[];
+  created_at?: string;
+  files?: unknown[];
+}
+
+interface ClaudeConversation {
+  uuid?: string;
+  name?: string;
+  created_at?: string;
+  chat_messages?: ClaudeMessage[];
+}
+
+/**
+ * Parse the conversations.json file of a Claude.ai data export.
+ *
+ * Messages are already a flat, ordered list of human and assistant
+ * messages; consecutive assistant messages are merged into one reply.
+ */
+export function parseClaudeExport(data: unknown): ImportedConversation[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Expected the conversations.json array from a Claude export');
+  }
+
+  return data
+    .filter((conversation): conversation is ClaudeConversation =>
+      !!conversation && typeof conversation === 'object' && Array.isArray(conversation.chat_messages))
+    .map(parseConversation)
+    .filter(conversation => conversation.turns.length > 0);
+}
+
+function parseConversation(conversation: ClaudeConversation): ImportedConversation {
+  const startedAt = toDate(conversation.created_at) || new Date();
+  const turns: ImportedTurn[] = [];
+
+  for (const message of conversation.chat_messages!) {
+    const text = messageText(message);
+    const hasFiles = Array.isArray(message.files) && message.files.length > 0;
+
+    if (message.sender === 'human') {
+      if (!text && !hasFiles) continue;
+      turns.push({
+        userMessage: text,
+        assistantMessage: '',
+        timestamp: toDate(message.created_at) || turns[turns.length - 1]?.timestamp || startedAt,
+        containsImage: hasFiles,
+      });
+    } else if (message.sender === 'assistant' && turns.length > 0 && text) {
+      const turn = turns[turns.length - 1];
+      turn.assistantMessage = turn.assistantMessage ? `${turn.assistantMessage}\n\n${text}` : text;
+    }
+  }
+
+  return {
+    platform: 'claude',
+    sessionId: conversation.uuid,
+    title: conversation.name || undefined,
+    url: conversation.uuid ? `https://claude.ai/chat/${conversation.uuid}` : undefined,
+    startedAt,
+    turns,
+  };
+}
+
+/**
+ * Newer exports carry typed content blocks; older ones only `text`
+ */
+function messageText(message: ClaudeMessage): string {
+  if (Array.isArray(message.content) && message.content.length > 0) {
+    const text = message.content
+      .filter(block => block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('\n')
+      .trim();
+    if (text) return text;
+  }
+  return (message.text || '').trim();
+}
+
+function toDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,29 @@
+import { parseChatGPTExport } from './chatgpt';
+import { parseClaudeExport } from './claude';
+import { parseJsonlTurns } from './jsonl';
+import { ImportedConversation } from './types';
+
+export * from './types';
+export { parseChatGPTExport } from './chatgpt';
+export { parseClaudeExport } from './claude';
+export { parseJsonlTurns } from './jsonl';
+
+export const IMPORT_FORMATS = ['chatgpt', 'claude', 'jsonl'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/**
+ * Parse an export file in the given format. JSON formats take the parsed
+ * file; jsonl takes the raw text.
+ */
+export function parseExport(format: ImportFormat, data: unknown): ImportedConversation[] {
+  switch (format) {
+    case 'chatgpt':
+      return parseChatGPTExport(data);
+    case 'claude':
+      return parseClaudeExport(data);
+    case 'jsonl':
+      return parseJsonlTurns(data);
+    default:
+      throw new Error(`Unsupported import format: ${format}`);
+  }
+}
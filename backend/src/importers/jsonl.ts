@@ -0,0 +1,90 @@
+import { ImportedConversation } from './types';
+
+/**
+ * Generic JSONL turn format, one exchange per line:
+ *
+ *   {"session_id": "abc", "user": "question", "assistant": "answer", "timestamp": "2025-01-01T10:00:00Z"}
+ *
+ * Required: session_id, user. Optional: assistant, timestamp (ISO 8601 or
+ * unix seconds), title, platform (default "other"), model, url.
+ * Lines are grouped by session_id and ordered by timestamp (file order on
+ * ties); title, platform, model and url are taken from the first line of
+ * a session that sets them. Blank lines are ignored.
+ */
+interface JsonlTurn {
+  session_id: string;
+  user: string;
+  assistant?: string;
+  timestamp?: string | number;
+  title?: string;
+  platform?: string;
+  model?: string;
+  url?: string;
+}
+
+export function parseJsonlTurns(data: unknown): ImportedConversation[] {
+  if (typeof data !== 'string') {
+    throw new Error('Expected JSONL text with one turn per line');
+  }
+
+  const sessions = new Map<string, ImportedConversation>();
+  const lines = data.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let turn: JsonlTurn;
+    try {
+      turn = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: invalid JSON`);
+    }
+
+    if (!turn || typeof turn.session_id !== 'string' || !turn.session_id) {
+      throw new Error(`Line ${index + 1}: session_id is required`);
+    }
+    if (typeof turn.user !== 'string') {
+      throw new Error(`Line ${index + 1}: user must be a string`);
+    }
+
+    const timestamp = toDate(turn.timestamp);
+    if (turn.timestamp != null && !timestamp) {
+      throw new Error(`Line ${index + 1}: invalid timestamp`);
+    }
+
+    let session = sessions.get(turn.session_id);
+    if (!session) {
+      session = {
+        platform: turn.platform || 'other',
+        sessionId: turn.session_id,
+        startedAt: timestamp || new Date(),
+        turns: [],
+      };
+      sessions.set(turn.session_id, session);
+    }
+
+    session.title = session.title || turn.title;
+    session.model = session.model || turn.model;
+    session.url = session.url || turn.url;
+
+    session.turns.push({
+      userMessage: turn.user.trim(),
+      assistantMessage: typeof turn.assistant === 'string' ? turn.assistant.trim() : '',
+      timestamp: timestamp || session.turns[session.turns.length - 1]?.timestamp || session.startedAt,
+    });
+  });
+
+  for (const session of sessions.values()) {
+    // Array.prototype.sort is stable, so equal timestamps keep file order
+    session.turns.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    session.startedAt = session.turns[0].timestamp;
+  }
+
+  return [...sessions.values()];
+}
+
+function toDate(value?: string | number): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,20 @@
+/**
+ * Platform-neutral shape every export parser produces. The importer only
+ * ever sees these, so adding a platform means adding a parser.
+ */
+export interface ImportedTurn {
+  userMessage: string;
+  assistantMessage: string; // empty when the user message got no reply
+  timestamp: Date;
+  containsImage?: boolean;
+}
+
+export interface ImportedConversation {
+  platform: string; // conversations.llm_platform
+  sessionId?: string; // platform-specific conversation id
+  title?: string;
+  model?: string;
+  url?: string;
+  startedAt: Date;
+  turns: ImportedTurn[];
+}
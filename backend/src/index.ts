@@ -4,10 +4,18 @@ import dotenv from 'dotenv';
 import { config, validateEnv } from './config/env';
 import { testConnection, closePool } from './config/database';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { getProvider } from './providers';
+import { EmbeddingService } from './services/EmbeddingService';
+import { IngestionService } from './services/IngestionService';
 import authRouter from './routes/auth';
 import memoriesRouter from './routes/memories';
 import searchRouter from './routes/search';
 import chatRouter from './routes/chat';
+import importRouter from './routes/import';
+import conversationsRouter from './routes/conversations';
+import topicsRouter from './routes/topics';
+import entitiesRouter from './routes/entities';
+import relationshipsRouter from './routes/relationships';
 
 dotenv.config();
 
@@ -20,6 +28,13 @@ app.use(cors({
   credentials: true
 }));
 
+// Chat exports are much larger than regular requests; registered first so
+// the general 10mb parser below skips bodies it has already parsed
+app.use('/api/import', express.json({ limit: config.import.maxUploadSize }));
+app.use('/api/import', express.text({
+  type: ['text/plain', 'application/x-ndjson', 'application/jsonl'],
+  limit: config.import.maxUploadSize
+}));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
@@ -37,6 +52,11 @@ app.use('/api/auth', authRouter);
 app.use('/api/memories', memoriesRouter);
 app.use('/api/search', searchRouter);
 app.use('/api/chat', chatRouter);
+app.use('/api/import', importRouter);
+app.use('/api/conversations', conversationsRouter);
+app.use('/api/topics', topicsRouter);
+app.use('/api/entities', entitiesRouter);
+app.use('/api/relationships', relationshipsRouter);
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
@@ -44,7 +64,9 @@ app.get('/health', (_req, res) => {
     success: true,
     status: 'ok',
     timestamp: new Date().toISOString(),
-    service: 'dory-backend'
+    service: 'dory-backend',
+    provider: getProvider().describe(),
+    embeddingCache: EmbeddingService.getCacheStats()
   });
 });
 
@@ -58,7 +80,11 @@ app.get('/', (_req, res) => {
       health: '/health',
       memories: '/api/memories',
       search: '/api/search',
-      chat: '/api/chat'
+      chat: '/api/chat',
+      conversations: '/api/conversations',
+      topics: '/api/topics',
+      entities: '/api/entities',
+      relationships: '/api/relationships'
     }
   });
 });
@@ -73,6 +99,9 @@ async function startServer() {
     // Validate environment variables
     validateEnv();
 
+    // Fail fast on a misconfigured provider rather than on the first request
+    const provider = getProvider().describe();
+
     // Test database connection
     const dbConnected = await testConnection();
     if (!dbConnected) {
@@ -80,6 +109,11 @@ async function startServer() {
       process.exit(1);
     }
 
+    // Process queued memory enrichment in the background
+    if (config.ingestion.worker) {
+      IngestionService.startWorker();
+    }
+
     // Start listening
     app.listen(PORT, () => {
       console.log(`
@@ -90,8 +124,9 @@ async function startServer() {
 🚀 Server running on http://localhost:${PORT}
 📊 Environment: ${config.server.nodeEnv}
 🔌 Database: Connected
-🧠 LLM Model: ${config.llm.model}
-📝 Embedding Model: ${config.embeddings.model}
+🤖 Provider: ${provider.name}
+🧠 LLM Model: ${provider.model}
+📝 Embedding Model: ${provider.embeddingModel}
 
 Endpoints:
   GET  /health
@@ -102,16 +137,37 @@ Endpoints:
   POST /api/auth/verify
 
   POST   /api/memories
+  POST   /api/memories/batch
   GET    /api/memories
   GET    /api/memories/:id
+  GET    /api/memories/:id/status
   GET    /api/memories/graph/view
   DELETE /api/memories/:id
   GET    /api/memories/stats/overview
 
   POST /api/search
 
-  POST /api/chat
-  POST /api/chat/ask
+  POST   /api/chat
+  POST   /api/chat/ask
+  GET    /api/chat/sessions
+  POST   /api/chat/sessions
+  GET    /api/chat/sessions/:id
+  PATCH  /api/chat/sessions/:id
+  DELETE /api/chat/sessions/:id
+
+  POST /api/import/chatgpt
+  POST /api/import/claude
+  POST /api/import/jsonl
+  GET  /api/import/jobs/:id
+
+  POST /api/conversations
+  GET  /api/conversations
+  GET  /api/conversations/:id
+  POST /api/conversations/:id/turns
+  POST /api/conversations/:id/close
+
+  GET  /api/topics
+  GET  /api/topics/:id
       `);
     });
   } catch (error) {
@@ -123,12 +179,14 @@ Endpoints:
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  IngestionService.stopWorker();
   await closePool();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('\nSIGINT received. Shutting down gracefully...');
+  IngestionService.stopWorker();
   await closePool();
   process.exit(0);
 });
@@ -0,0 +1,68 @@
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What a completion is for. Prompt-driven providers ignore this; the local
+ * provider uses it (with `input`) to pick a rule-based stand-in.
+ */
+export type ProviderTask =
+  | 'extract_entities'
+  | 'detect_conflict'
+  | 'classify_relationship'
+  | 'contradiction_check'
+  | 'categorize'
+  | 'summarize'
+  | 'extract_topics'
+  | 'extract_insights'
+  | 'answer'
+  | 'chat';
+
+export interface ChatCompletionOptions {
+  messages: ProviderMessage[];
+  tier?: 'default' | 'chat'; // 'chat' uses the larger conversational model
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number; // milliseconds
+  task?: ProviderTask;
+  input?: Record<string, any>; // raw task inputs, without the prompt wrapping
+}
+
+export interface ProviderInfo {
+  name: string;
+  model: string;
+  chatModel: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  baseUrl?: string;
+}
+
+/**
+ * Common interface for every LLM/embedding backend.
+ * Services only talk to this, never to a vendor SDK directly.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Plain text completion. Returns the assistant message content ('' if none).
+   */
+  chatCompletion(options: ChatCompletionOptions): Promise<string>;
+
+  /**
+   * Completion that must return a JSON object. Returns null if the model
+   * produced nothing parseable.
+   */
+  jsonCompletion<T = any>(options: ChatCompletionOptions): Promise<T | null>;
+
+  /**
+   * Embed a batch of texts, preserving input order.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+
+  /**
+   * Non-secret description of the active configuration (used by /health)
+   */
+  describe(): ProviderInfo;
+}
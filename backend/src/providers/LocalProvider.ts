@@ -0,0 +1,89 @@
+import { config } from '../config/env';
+import { LLMProvider, ChatCompletionOptions, ProviderInfo } from './LLMProvider';
+import * as rules from './localRules';
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-ngram-v1';
+export const LOCAL_LLM_MODEL = 'local-rules-v1';
+
+/**
+ * Offline provider for development and tests. Embeddings are hashed n-gram
+ * vectors; completions are answered by the rule-based stand-ins in
+ * localRules, selected by the task each service attaches to its request.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name: string = 'local';
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<string> {
+    const input = options.input || {};
+
+    switch (options.task) {
+      case 'contradiction_check': {
+        const result = rules.detectConflict(input.existing || '', input.incoming || '');
+        return [
+          `CONTRADICTS: ${result.hasConflict ? 'YES' : 'NO'}`,
+          `CONFIDENCE: ${result.confidence}`,
+          `REASON: ${result.explanation}`,
+        ].join('\n');
+      }
+      case 'summarize':
+        return rules.summarize(input.text || '', input.maxLength || 200);
+      case 'answer':
+        return rules.answerFromMemories(input.question || '', [...(input.memories || []), ...(input.turns || [])]);
+      case 'chat': {
+        // Context arrives as "[Memory n, relevance: x%]\n<content>" blocks
+        const memories: rules.AnswerCandidate[] = (input.context || '')
+          .split('\n\n')
+          .map((block: string) => ({ content: block.replace(/^\[Memory[^\]]*\]\n/, '') }))
+          .filter((m: rules.AnswerCandidate) => m.content.trim().length > 0);
+        const answer = rules.answerFromMemories(input.message || '', memories);
+        return memories.length > 0 && !answer.startsWith("I don't")
+          ? `From your memories: ${answer}`
+          : "I'm running in local mode and can only answer from your stored memories. I couldn't find anything relevant.";
+      }
+      default:
+        return '';
+    }
+  }
+
+  async jsonCompletion<T = any>(options: ChatCompletionOptions): Promise<T | null> {
+    const input = options.input || {};
+    let result: any = null;
+
+    switch (options.task) {
+      case 'extract_entities':
+        result = { entities: rules.extractEntities(input.text || '') };
+        break;
+      case 'detect_conflict':
+        result = rules.detectConflict(input.existing || '', input.incoming || '');
+        break;
+      case 'classify_relationship':
+        result = rules.classifyRelationship(input.first || { content: '' }, input.second || { content: '' });
+        break;
+      case 'categorize':
+        result = rules.categorize(input.text || '');
+        break;
+      case 'extract_topics':
+        result = { topics: rules.extractTopics(input.text || '') };
+        break;
+      case 'extract_insights':
+        result = { insights: rules.extractInsights(input.messages || []) };
+        break;
+    }
+
+    return result as T | null;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => rules.hashEmbedding(text, config.embeddings.dimensions));
+  }
+
+  describe(): ProviderInfo {
+    return {
+      name: this.name,
+      model: LOCAL_LLM_MODEL,
+      chatModel: LOCAL_LLM_MODEL,
+      embeddingModel: LOCAL_EMBEDDING_MODEL,
+      embeddingDimensions: config.embeddings.dimensions,
+    };
+  }
+}
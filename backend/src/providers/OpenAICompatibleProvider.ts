@@ -0,0 +1,49 @@
+import { config } from '../config/env';
+import { OpenAIProvider } from './OpenAIProvider';
+
+/**
+ * Provider for any server exposing the OpenAI REST API under a custom base URL
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...). Used for on-prem deployments.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(baseUrl: string, apiKey?: string) {
+    if (!baseUrl) {
+      throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+    }
+
+    // Local servers usually ignore the key, but the SDK insists on one
+    super({ apiKey: apiKey || 'not-needed', baseUrl });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings = await super.embed(texts);
+
+    // Local embedding models vary in size; the vector columns do not
+    for (const embedding of embeddings) {
+      if (embedding.length !== config.embeddings.dimensions) {
+        throw new Error(
+          `Embedding model ${config.embeddings.model} returned ${embedding.length} dimensions, expected ${config.embeddings.dimensions}`
+        );
+      }
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Smaller local models often wrap JSON in prose or code fences even in
+   * JSON mode, so fall back to the outermost {...} block.
+   */
+  protected parseJson<T>(content: string): T | null {
+    const parsed = super.parseJson<T>(content);
+    if (parsed !== null) return parsed;
+
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    return super.parseJson<T>(content.substring(start, end + 1));
+  }
+}
@@ -0,0 +1,89 @@
+import OpenAI from 'openai';
+import { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { config } from '../config/env';
+import { LLMProvider, ChatCompletionOptions, ProviderInfo } from './LLMProvider';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+/**
+ * Provider backed by the hosted OpenAI API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI;
+  protected baseUrl?: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.baseUrl = options.baseUrl;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      ...(options.baseUrl ? { baseURL: options.baseUrl } : {}),
+    });
+  }
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<string> {
+    return (await this.complete(this.buildParams(options), options.timeout)) || '';
+  }
+
+  async jsonCompletion<T = any>(options: ChatCompletionOptions): Promise<T | null> {
+    const content = await this.complete(
+      { ...this.buildParams(options), response_format: { type: 'json_object' } },
+      options.timeout
+    );
+    if (!content) return null;
+
+    return this.parseJson<T>(content);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: config.embeddings.model,
+      input: texts,
+      encoding_format: 'float',
+    });
+
+    return response.data.map(d => d.embedding);
+  }
+
+  describe(): ProviderInfo {
+    return {
+      name: this.name,
+      model: config.llm.model,
+      chatModel: config.llm.chatModel,
+      embeddingModel: config.embeddings.model,
+      embeddingDimensions: config.embeddings.dimensions,
+      ...(this.baseUrl ? { baseUrl: this.baseUrl } : {}),
+    };
+  }
+
+  protected buildParams(options: ChatCompletionOptions): ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: options.tier === 'chat' ? config.llm.chatModel : config.llm.model,
+      messages: options.messages,
+      temperature: options.temperature ?? config.llm.temperature,
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+    };
+  }
+
+  protected async complete(
+    params: ChatCompletionCreateParamsNonStreaming,
+    timeout?: number
+  ): Promise<string | null> {
+    const response = timeout
+      ? await this.client.chat.completions.create(params, { timeout })
+      : await this.client.chat.completions.create(params);
+
+    return response.choices[0]?.message?.content ?? null;
+  }
+
+  protected parseJson<T>(content: string): T | null {
+    try {
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+}
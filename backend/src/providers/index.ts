@@ -0,0 +1,50 @@
+import { config } from '../config/env';
+import { LLMProvider } from './LLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { LocalProvider } from './LocalProvider';
+
+export * from './LLMProvider';
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Build the provider named by LLM_PROVIDER
+ */
+export function createProvider(name: string = config.provider.name): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider({ apiKey: config.openai.apiKey });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.provider.baseUrl, config.provider.apiKey);
+    case 'local':
+      return new LocalProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}" (expected openai, openai-compatible or local)`);
+  }
+}
+
+/**
+ * Get the shared provider instance, creating it on first use
+ */
+export function getProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replace the shared provider (tests use this to run services offline)
+ */
+export function setProvider(next: LLMProvider): void {
+  provider = next;
+}
+
+/**
+ * Drop the cached provider so the next getProvider() call rebuilds it
+ * (used by tests that swap the underlying client)
+ */
+export function resetProvider(): void {
+  provider = null;
+}
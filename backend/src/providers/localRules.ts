@@ -0,0 +1,405 @@
+/**
+ * Deterministic, rule-based stand-ins for the LLM tasks used by the services.
+ * Quality is nowhere near a real model, but results are stable and need no
+ * network, which is what development and tests want.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'so', 'of', 'to', 'in', 'on', 'at', 'by',
+  'for', 'with', 'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'do',
+  'does', 'did', 'have', 'has', 'had', 'i', 'me', 'my', 'mine', 'you', 'your', 'we', 'our', 'it',
+  'its', 'this', 'that', 'these', 'those', 'what', 'which', 'who', 'whom', 'when', 'where', 'why',
+  'how', 'not', 'no', 'can', 'will', 'would', 'should', 'could', 'about', 'there', 'their', 'they',
+  'them', 'he', 'she', 'his', 'her', 'just', 'very', 'really', 'also', 'into', 'than', 'too', 'any',
+  'all', 'some', 'more', 'most', 'other', 'such', 'only', 'own', 'same', 'out', 'up', 'down',
+]);
+
+const POSITIVE_VERBS = ['like', 'love', 'prefer', 'enjoy', 'adore', 'favorite', 'favourite'];
+const NEGATIVE_PATTERNS = [
+  /\b(?:hate|dislike|detest|despise|can't stand|cannot stand)\b/,
+  /\b(?:don't|do not|doesn't|does not|no longer|never)\s+(?:like|love|enjoy|prefer)\b/,
+];
+const NEGATION = /\b(?:not|never|no|don't|doesn't|didn't|isn't|wasn't|aren't|won't|can't|cannot|no longer)\b/;
+
+const MONTHS = 'january|february|march|april|may|june|july|august|september|october|november|december';
+const WEEKDAYS = 'monday|tuesday|wednesday|thursday|friday|saturday|sunday';
+const DATE_PATTERN = new RegExp(
+  `\\b(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{2,4}|(?:${MONTHS})(?:\\s+\\d{1,2}(?:st|nd|rd|th)?)?(?:,?\\s+\\d{4})?|${WEEKDAYS}|today|tomorrow|yesterday)\\b`,
+  'gi'
+);
+const CAUSAL_CUE = /\b(?:because|due to|as a result|therefore|led to|leads to|caused|causes|resulted in|results in|thanks to|which is why|that's why)\b/i;
+const TEMPORAL_CUE = /\b(?:before|after|afterwards|then|later|earlier|previously|since|until|next|finally)\b/i;
+const ORG_SUFFIX = /\b(?:Inc|Corp|Corporation|LLC|Ltd|Labs|Company|University|Institute|Foundation|Group|AI)\b/;
+const PLACE_PREPOSITIONS = /\b(?:in|at|to|from|near|visit|visited|moved to)\s*$/i;
+
+export interface LocalEntity {
+  type: string;
+  value: string;
+  context: string;
+}
+
+/**
+ * Lowercase, strip punctuation, split on whitespace
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 0);
+}
+
+/**
+ * Tokens worth comparing (no stopwords, no 1-2 letter noise)
+ */
+export function keywords(text: string): string[] {
+  return tokenize(text).filter(t => t.length > 2 && !STOPWORDS.has(t));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed n-gram embedding: word unigrams/bigrams plus character trigrams,
+ * each hashed into one signed bucket, then L2-normalized. Texts sharing
+ * words and spellings land close together under cosine similarity.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = tokenize(text);
+
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[hash % dimensions] += sign * weight;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    add(`w:${word}`, STOPWORDS.has(word) ? 0.3 : 1.0);
+    if (i + 1 < words.length) {
+      add(`b:${word} ${words[i + 1]}`, 0.7);
+    }
+
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.substring(j, j + 3)}`, 0.25);
+    }
+  }
+
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (magnitude === 0) {
+    // Empty/punctuation-only input still needs a valid unit vector
+    vector[0] = 1;
+    return vector;
+  }
+
+  return vector.map(v => v / magnitude);
+}
+
+/**
+ * Jaccard overlap of keyword sets (0-1)
+ */
+export function keywordOverlap(a: string, b: string): number {
+  const setA = new Set(keywords(a));
+  const setB = new Set(keywords(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of setA) {
+    if (setB.has(word)) shared++;
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Most frequent keywords, ties broken by first appearance
+ */
+export function topKeywords(text: string, count: number): string[] {
+  const frequency = new Map<string, number>();
+  for (const word of keywords(text)) {
+    frequency.set(word, (frequency.get(word) || 0) + 1);
+  }
+
+  return [...frequency.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([word]) => word);
+}
+
+interface PreferenceStatement {
+  positive: boolean;
+  object: string[];
+}
+
+/**
+ * Find "I like X" / "I hate X" style statements
+ */
+function findPreferences(text: string): PreferenceStatement[] {
+  const statements: PreferenceStatement[] = [];
+
+  for (const sentence of splitSentences(text.toLowerCase())) {
+    const negative = NEGATIVE_PATTERNS.some(p => p.test(sentence));
+    const positive = !negative && POSITIVE_VERBS.some(v => new RegExp(`\\b${v}\\b`).test(sentence));
+    if (!negative && !positive) continue;
+
+    statements.push({ positive, object: keywords(sentence).filter(w => !POSITIVE_VERBS.includes(w)) });
+  }
+
+  return statements;
+}
+
+function numbersIn(text: string): string[] {
+  return text.match(/\d+(?:\.\d+)?/g) || [];
+}
+
+export function categorize(text: string): { type: string; importance: number; tags: string[] } {
+  const lower = text.toLowerCase();
+  let type = 'fact';
+
+  if (findPreferences(text).length > 0) {
+    type = 'preference';
+  } else if (new RegExp(DATE_PATTERN.source, 'i').test(lower) || /\b(?:meeting|went|attended|happened|will be|scheduled)\b/.test(lower)) {
+    type = 'event';
+  } else if (/\b(?:is a|is an|refers to|means|is defined as|concept of)\b/.test(lower)) {
+    type = 'concept';
+  }
+
+  let importance = 0.5;
+  if (type === 'preference' || type === 'event') importance += 0.1;
+  if (/\b(?:important|remember|must|deadline|never forget|always|critical|urgent)\b/.test(lower)) importance += 0.2;
+  if (numbersIn(text).length > 0) importance += 0.05;
+  if (text.length < 20) importance -= 0.1;
+
+  return {
+    type,
+    importance: Math.min(Math.max(Math.round(importance * 100) / 100, 0), 1),
+    tags: topKeywords(text, 3),
+  };
+}
+
+export function extractEntities(text: string): LocalEntity[] {
+  const entities: LocalEntity[] = [];
+  const seen = new Set<string>();
+
+  const push = (type: string, value: string, context: string) => {
+    const key = `${type}:${value.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    entities.push({ type, value, context });
+  };
+
+  for (const sentence of splitSentences(text)) {
+    for (const match of sentence.match(new RegExp(DATE_PATTERN.source, 'gi')) || []) {
+      push('date', match, sentence);
+    }
+
+    // Capitalized runs ("Bob Smith", "Acme Labs"); a lone sentence-initial word is too ambiguous
+    const capitalized = /\b[A-Z][a-zA-Z0-9&'-]*(?:\s+[A-Z][a-zA-Z0-9&'-]*)*/g;
+    let match: RegExpExecArray | null;
+    while ((match = capitalized.exec(sentence)) !== null) {
+      const value = match[0];
+      const words = value.split(/\s+/);
+      if (words.length === 1 && (match.index === 0 || value === 'I')) continue;
+      if (new RegExp(`^(?:${MONTHS}|${WEEKDAYS})$`, 'i').test(value)) continue;
+      if (STOPWORDS.has(value.toLowerCase())) continue;
+
+      const before = sentence.substring(0, match.index);
+      let type = 'person';
+      if (ORG_SUFFIX.test(value) || /^[A-Z0-9]{2,}$/.test(value)) {
+        type = 'organization';
+      } else if (PLACE_PREPOSITIONS.test(before)) {
+        type = 'place';
+      }
+      push(type, value, sentence);
+    }
+
+    for (const preference of findPreferences(sentence)) {
+      if (preference.object.length > 0) {
+        push('preference', preference.object.join(' '), sentence);
+      }
+    }
+  }
+
+  return entities;
+}
+
+export function detectConflict(
+  existing: string,
+  incoming: string
+): { hasConflict: boolean; confidence: number; explanation: string } {
+  // Opposite feelings about the same thing
+  for (const a of findPreferences(existing)) {
+    for (const b of findPreferences(incoming)) {
+      if (a.positive === b.positive) continue;
+      const shared = a.object.filter(w => b.object.includes(w));
+      if (shared.length > 0) {
+        return {
+          hasConflict: true,
+          confidence: 0.85,
+          explanation: `Opposite preferences about "${shared.join(' ')}"`,
+        };
+      }
+    }
+  }
+
+  const overlap = keywordOverlap(existing, incoming);
+  if (overlap >= 0.5) {
+    // Same statement, one side negated
+    if (NEGATION.test(existing.toLowerCase()) !== NEGATION.test(incoming.toLowerCase())) {
+      return { hasConflict: true, confidence: 0.75, explanation: 'One statement negates the other' };
+    }
+
+    // Same statement, different figures
+    const numbersA = numbersIn(existing);
+    const numbersB = numbersIn(incoming);
+    if (numbersA.length > 0 && numbersB.length > 0 && numbersA.join() !== numbersB.join()) {
+      return { hasConflict: true, confidence: 0.7, explanation: 'Same statement with different values' };
+    }
+  }
+
+  return { hasConflict: false, confidence: 0, explanation: 'No conflicting statements found' };
+}
+
+export interface RelationshipCandidate {
+  content: string;
+  created_at?: string | Date;
+}
+
+// When a text happened: the first full date it mentions, else when it was
+// saved. Dates without a year ("March 5") would parse to 2001, so they don't count.
+function timeOf(memory: RelationshipCandidate): { time: number; fromText: boolean } {
+  const dated = (memory.content.match(DATE_PATTERN) || []).find((date) => /\d{4}|\//.test(date));
+  const mentioned = Date.parse(dated || '');
+  if (!isNaN(mentioned)) {
+    return { time: mentioned, fromText: true };
+  }
+  return { time: memory.created_at ? new Date(memory.created_at).getTime() : 0, fromText: false };
+}
+
+/**
+ * Causal when one text explains itself with a cause ("because", "led to")
+ * and the other is about the same subject; temporal when both place
+ * themselves in time. "forward": first happened before, or led to, second.
+ */
+export function classifyRelationship(
+  first: RelationshipCandidate,
+  second: RelationshipCandidate
+): { type: string; direction: string; confidence: number; explanation: string } {
+  const none = { type: 'none', direction: 'forward', confidence: 0, explanation: 'Not the same subject' };
+  if (keywordOverlap(first.content, second.content) < 0.2) {
+    return none;
+  }
+
+  const firstCause = CAUSAL_CUE.test(first.content);
+  const secondCause = CAUSAL_CUE.test(second.content);
+  if (firstCause !== secondCause) {
+    return {
+      type: 'causal',
+      direction: secondCause ? 'forward' : 'backward',
+      confidence: 0.7,
+      explanation: `The ${secondCause ? 'second' : 'first'} statement gives the other as its cause`,
+    };
+  }
+
+  const inTime = (text: string) => (text.match(DATE_PATTERN) || []).length > 0 || TEMPORAL_CUE.test(text);
+  if (inTime(first.content) && inTime(second.content)) {
+    const a = timeOf(first);
+    const b = timeOf(second);
+    return {
+      type: 'temporal',
+      direction: a.time <= b.time ? 'forward' : 'backward',
+      confidence: a.fromText && b.fromText ? 0.75 : 0.65,
+      explanation: a.fromText && b.fromText
+        ? 'Events about the same subject, ordered by the dates they mention'
+        : 'Events about the same subject, ordered by when they were saved',
+    };
+  }
+
+  return { ...none, explanation: 'No temporal or causal cues' };
+}
+
+export function summarize(text: string, maxLength: number): string {
+  let summary = '';
+  for (const sentence of splitSentences(text)) {
+    const next = summary ? `${summary} ${sentence}` : sentence;
+    if (next.length > maxLength) break;
+    summary = next;
+  }
+
+  return summary || text.substring(0, maxLength);
+}
+
+export function extractTopics(text: string): string[] {
+  return topKeywords(text, 5);
+}
+
+/**
+ * First-person statements from the user's side of a conversation
+ */
+export function extractInsights(
+  messages: Array<{ role: string; content: string }>
+): Array<{ type: string; content: string; importance: number }> {
+  const insights = [];
+
+  for (const message of messages) {
+    if (message.role !== 'user') continue;
+
+    for (const sentence of splitSentences(message.content)) {
+      if (!/\b(?:i|i'm|i've|my)\b/i.test(sentence) || sentence.endsWith('?')) continue;
+
+      const { type, importance } = categorize(sentence);
+      insights.push({ type, content: sentence, importance });
+    }
+  }
+
+  return insights;
+}
+
+export interface AnswerCandidate {
+  content: string;
+  created_at?: string | Date;
+  outdated?: boolean;
+}
+
+/**
+ * Answer with the stored memory that best matches the question
+ */
+export function answerFromMemories(question: string, memories: AnswerCandidate[]): string {
+  const questionWords = new Set(keywords(question));
+
+  let best: { memory: AnswerCandidate; score: number } | null = null;
+  for (const memory of memories) {
+    if (memory.outdated) continue;
+
+    const score = keywords(memory.content).filter(w => questionWords.has(w)).length;
+    const newer = best && score === best.score && memory.created_at && best.memory.created_at
+      && new Date(memory.created_at) > new Date(best.memory.created_at);
+
+    if (!best || score > best.score || newer) {
+      best = { memory, score };
+    }
+  }
+
+  if (!best || best.score === 0) {
+    return "I don't have that information.";
+  }
+
+  return best.memory.content;
+}
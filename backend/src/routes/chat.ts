@@ -1,17 +1,26 @@
 import express from 'express';
 import { LLMService, ChatMessage } from '../services/LLMService';
+import { ChatSessionService } from '../services/ChatSessionService';
+import { ProvenanceService, RetrievedMemory } from '../services/ProvenanceService';
+import { SimilarMemory } from '../services/GraphService';
 import { authenticateApiKey } from '../middleware/auth';
 
 const router = express.Router();
 
 router.use(authenticateApiKey);
 
+const MAX_TITLE_LENGTH = 200;
+
 /**
  * POST /api/chat - Chat with memory context
+ * Body: { message, session_id? } - the history is kept server-side; a new
+ * session is started when session_id is omitted. Clients that still send
+ * { message, conversation_history } without a session_id get the old
+ * stateless behaviour.
  */
 router.post('/', async (req, res, next) => {
   try {
-    const { message, conversation_history } = req.body;
+    const { message, conversation_history, session_id } = req.body;
     const userId = req.user!.id;
 
     if (!message || message.trim().length === 0) {
@@ -21,25 +30,68 @@ router.post('/', async (req, res, next) => {
       });
     }
 
-    const conversationHistory: ChatMessage[] = conversation_history || [];
+    if (session_id !== undefined && typeof session_id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'session_id must be a string'
+      });
+    }
+
+    if (conversation_history !== undefined && session_id === undefined) {
+      const conversationHistory: ChatMessage[] = conversation_history || [];
+
+      // Generate response with memory context
+      const { response, memories } = await LLMService.generateResponseWithMemories(
+        userId,
+        conversationHistory,
+        message
+      );
+
+      // Logged in the background; recordAnswer never throws
+      ProvenanceService.recordAnswer(userId, message, response, asRetrieved(memories));
 
-    // Generate response with memory context
-    const response = await LLMService.generateResponse(
-      userId,
-      conversationHistory,
-      message
-    );
+      // Extract and save insights asynchronously (don't wait)
+      LLMService.extractInsights(userId, [
+        ...conversationHistory,
+        { role: 'user', content: message },
+        { role: 'assistant', content: response }
+      ]).catch(err => console.error('Error extracting insights:', err));
 
-    // Extract and save insights asynchronously (don't wait)
+      return res.json({
+        success: true,
+        response,
+        memories: summarizeMemories(memories),
+        hasContext: true
+      });
+    }
+
+    const session = session_id
+      ? await ChatSessionService.getSession(userId, session_id)
+      : await ChatSessionService.createSession(userId);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found'
+      });
+    }
+
+    const history = await ChatSessionService.buildHistory(session);
+    const { response, memories } = await LLMService.generateResponseWithMemories(userId, history, message);
+    const turn = await ChatSessionService.recordExchange(session, message, response);
+    await ProvenanceService.recordRetrieval(session.id, turn.id, asRetrieved(memories));
+
+    // Only the new exchange: earlier ones were mined when they were sent
     LLMService.extractInsights(userId, [
-      ...conversationHistory,
       { role: 'user', content: message },
       { role: 'assistant', content: response }
     ]).catch(err => console.error('Error extracting insights:', err));
 
     return res.json({
       success: true,
+      session_id: session.id,
       response,
+      memories: summarizeMemories(memories),
       hasContext: true
     });
   } catch (error) {
@@ -47,6 +99,145 @@ router.post('/', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/chat/sessions - Chat sessions, most recently active first
+ * Query: limit (1-100), offset
+ */
+router.get('/sessions', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const rawLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(rawLimit) ? 20 : Math.min(Math.max(rawLimit, 1), 100);
+    const rawOffset = parseInt(req.query.offset as string);
+    const offset = isNaN(rawOffset) ? 0 : Math.max(rawOffset, 0);
+
+    const sessions = await ChatSessionService.listSessions(userId, { limit, offset });
+
+    return res.json({
+      success: true,
+      sessions,
+      count: sessions.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/chat/sessions - Start an empty chat session
+ * Body: { title? }
+ */
+router.post('/sessions', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { title } = req.body || {};
+
+    if (title !== undefined && !isValidTitle(title)) {
+      return res.status(400).json({
+        success: false,
+        error: `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`
+      });
+    }
+
+    const session = await ChatSessionService.createSession(userId, title?.trim());
+
+    return res.status(201).json({
+      success: true,
+      session
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/chat/sessions/:id - A chat session with all its messages
+ */
+router.get('/sessions/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const session = await ChatSessionService.getSession(userId, req.params.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found'
+      });
+    }
+
+    const messages = await ChatSessionService.getMessages(session);
+
+    return res.json({
+      success: true,
+      session,
+      messages
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * PATCH /api/chat/sessions/:id - Rename a chat session
+ * Body: { title }
+ */
+router.patch('/sessions/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { title } = req.body || {};
+
+    if (!isValidTitle(title)) {
+      return res.status(400).json({
+        success: false,
+        error: `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`
+      });
+    }
+
+    const session = await ChatSessionService.getSession(userId, req.params.id);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found'
+      });
+    }
+
+    const renamed = await ChatSessionService.renameSession(session, title.trim());
+
+    return res.json({
+      success: true,
+      session: renamed
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * DELETE /api/chat/sessions/:id - Delete a chat session and its messages
+ */
+router.delete('/sessions/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const session = await ChatSessionService.getSession(userId, req.params.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found'
+      });
+    }
+
+    await ChatSessionService.deleteSession(session);
+
+    return res.json({
+      success: true,
+      message: 'Chat session deleted successfully'
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
 /**
  * POST /api/chat/ask - Ask a question using memory graph
  */
@@ -69,6 +260,11 @@ router.post('/ask', async (req, res, next) => {
 
     const endTime = Date.now();
 
+    // Logged in the background; recordAnswer never throws
+    // Retrieved memories are for the provenance log, not the client
+    const { retrieved, ...answer } = result;
+    ProvenanceService.recordAnswer(userId, question, answer.answer, retrieved);
+
     // Calculate metrics (approximations since we don't track internally yet)
     const totalTime = endTime - startTime;
     const searchTime = Math.round(totalTime * 0.3); // Approximate 30% for search
@@ -77,7 +273,7 @@ router.post('/ask', async (req, res, next) => {
 
     return res.json({
       success: true,
-      ...result,
+      ...answer,
       metrics: {
         total: totalTime,
         search: searchTime,
@@ -90,4 +286,31 @@ router.post('/ask', async (req, res, next) => {
   }
 });
 
+function isValidTitle(title: unknown): title is string {
+  return typeof title === 'string' && title.trim().length > 0 && title.length <= MAX_TITLE_LENGTH;
+}
+
+/**
+ * The memories a response drew on, without vectors or metadata
+ */
+function summarizeMemories(memories: SimilarMemory[]) {
+  return memories.map(memory => ({
+    id: memory.id,
+    content: memory.content,
+    matched_passage: memory.matched_passage,
+    similarity: memory.similarity
+  }));
+}
+
+/**
+ * Chat responses are generated with every retrieved memory in the prompt
+ */
+function asRetrieved(memories: SimilarMemory[]): RetrievedMemory[] {
+  return memories.map(memory => ({
+    id: memory.id,
+    similarity: memory.similarity,
+    in_prompt: true
+  }));
+}
+
 export default router;
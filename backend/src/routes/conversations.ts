@@ -0,0 +1,235 @@
+import express from 'express';
+import { ConversationService, TurnInput } from '../services/ConversationService';
+import { authenticateApiKey } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateApiKey);
+
+const VALID_PLATFORMS = ['chatgpt', 'claude', 'gemini', 'other'];
+const MAX_MESSAGE_LENGTH = 100000;
+const MAX_TURNS_PER_REQUEST = 100;
+const MAX_FIELD_LENGTH = 500;
+
+type TurnsValidation =
+  | { valid: true; turns: TurnInput[] }
+  | { valid: false; error: string };
+
+/**
+ * Validate the turns of an append request: either { turns: [...] } or a
+ * single { user_message, assistant_message } turn
+ */
+function validateTurns(body: any): TurnsValidation {
+  const items = Array.isArray(body?.turns) ? body.turns : body?.turns === undefined ? [body] : null;
+
+  if (!items || items.length === 0) {
+    return { valid: false, error: 'turns must be a non-empty array' };
+  }
+
+  if (items.length > MAX_TURNS_PER_REQUEST) {
+    return { valid: false, error: `Too many turns (max ${MAX_TURNS_PER_REQUEST} per request)` };
+  }
+
+  const turns: TurnInput[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const { user_message, assistant_message, timestamp } = items[i] || {};
+    const label = items.length > 1 ? `Turn ${i}: ` : '';
+
+    if (typeof user_message !== 'string' || user_message.trim().length === 0) {
+      return { valid: false, error: `${label}user_message is required and must be a string` };
+    }
+    if (assistant_message !== undefined && typeof assistant_message !== 'string') {
+      return { valid: false, error: `${label}assistant_message must be a string` };
+    }
+    if (user_message.length > MAX_MESSAGE_LENGTH || (assistant_message || '').length > MAX_MESSAGE_LENGTH) {
+      return { valid: false, error: `${label}Message too large (max 100,000 characters)` };
+    }
+
+    const parsedTimestamp = timestamp !== undefined ? new Date(timestamp) : undefined;
+    if (parsedTimestamp && isNaN(parsedTimestamp.getTime())) {
+      return { valid: false, error: `${label}timestamp must be a valid date` };
+    }
+
+    turns.push({
+      userMessage: user_message,
+      assistantMessage: assistant_message || '',
+      timestamp: parsedTimestamp,
+    });
+  }
+
+  return { valid: true, turns };
+}
+
+/**
+ * POST /api/conversations - Start a conversation
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { platform = 'other', model, title, url, session_id } = req.body || {};
+
+    if (!VALID_PLATFORMS.includes(platform)) {
+      return res.status(400).json({
+        success: false,
+        error: `platform must be one of: ${VALID_PLATFORMS.join(', ')}`
+      });
+    }
+
+    const fields = { model, title, url, session_id };
+    for (const [name, value] of Object.entries(fields)) {
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH)) {
+        return res.status(400).json({
+          success: false,
+          error: `${name} must be a string of at most ${MAX_FIELD_LENGTH} characters`
+        });
+      }
+    }
+
+    const conversation = await ConversationService.createConversation(userId, {
+      platform,
+      model,
+      title,
+      url,
+      sessionId: session_id
+    });
+
+    return res.status(201).json({
+      success: true,
+      conversation
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/conversations - List conversations, most recently active first
+ * Query: limit (1-100), offset, platform, active (true/false)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const rawLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(rawLimit) ? 20 : Math.min(Math.max(rawLimit, 1), 100);
+    const rawOffset = parseInt(req.query.offset as string);
+    const offset = isNaN(rawOffset) ? 0 : Math.max(rawOffset, 0);
+    const platform = typeof req.query.platform === 'string' ? req.query.platform : undefined;
+    const active = req.query.active === 'true' ? true : req.query.active === 'false' ? false : undefined;
+
+    const conversations = await ConversationService.listConversations(userId, {
+      limit,
+      offset,
+      platform,
+      active
+    });
+
+    return res.json({
+      success: true,
+      conversations,
+      count: conversations.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/conversations/:id - Get a conversation with its turns
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const conversation = await ConversationService.getConversation(userId, req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    const turns = await ConversationService.getTurns(conversation.id);
+
+    return res.json({
+      success: true,
+      conversation,
+      turns
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/conversations/:id/turns - Append one or more turns
+ * Body: { user_message, assistant_message } or { turns: [...] }
+ */
+router.post('/:id/turns', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+
+    const validation = validateTurns(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error
+      });
+    }
+
+    const conversation = await ConversationService.getConversation(userId, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    if (conversation.is_complete) {
+      return res.status(409).json({
+        success: false,
+        error: 'Conversation is closed'
+      });
+    }
+
+    const turns = await ConversationService.addTurns(conversation, validation.turns);
+
+    return res.status(201).json({
+      success: true,
+      turns,
+      count: turns.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/conversations/:id/close - Mark complete; generates the
+ * summary and primary topics
+ */
+router.post('/:id/close', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const conversation = await ConversationService.getConversation(userId, req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    const closed = await ConversationService.closeConversation(conversation);
+
+    return res.json({
+      success: true,
+      conversation: closed
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+export default router;
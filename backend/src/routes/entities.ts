@@ -0,0 +1,192 @@
+import express from 'express';
+import { z } from 'zod';
+import { EntityService, EntitySort, ENTITY_SORTS } from '../services/EntityService';
+import { authenticateApiKey } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateApiKey);
+
+const MAX_ENTITY_TYPE_LENGTH = 50;
+const MAX_MERGE_SOURCES = 20;
+
+const mergeSchema = z.object({
+  target_id: z.string().uuid(),
+  source_ids: z.array(z.string().uuid()).min(1).max(MAX_MERGE_SOURCES)
+}).refine(
+  body => !body.source_ids.includes(body.target_id),
+  { message: 'target_id must not be one of source_ids', path: ['source_ids'] }
+);
+
+/**
+ * Parse limit (clamped to 1-max) and offset from the query string
+ */
+function parsePaging(req: express.Request, defaultLimit: number, maxLimit: number) {
+  const rawLimit = parseInt(req.query.limit as string);
+  const limit = isNaN(rawLimit) ? defaultLimit : Math.min(Math.max(rawLimit, 1), maxLimit);
+  const rawOffset = parseInt(req.query.offset as string);
+  const offset = isNaN(rawOffset) ? 0 : Math.max(rawOffset, 0);
+
+  return { limit, offset };
+}
+
+/**
+ * GET /api/entities - The user's entities
+ * Query: entity_type, sort (mention_count | last_seen), limit (1-100), offset
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { limit, offset } = parsePaging(req, 50, 100);
+    const { entity_type, sort = 'mention_count' } = req.query;
+
+    if (entity_type !== undefined && (typeof entity_type !== 'string' || entity_type.length > MAX_ENTITY_TYPE_LENGTH)) {
+      return res.status(400).json({
+        success: false,
+        error: `entity_type must be a string of at most ${MAX_ENTITY_TYPE_LENGTH} characters`
+      });
+    }
+
+    if (!ENTITY_SORTS.includes(sort as EntitySort)) {
+      return res.status(400).json({
+        success: false,
+        error: `sort must be one of: ${ENTITY_SORTS.join(', ')}`
+      });
+    }
+
+    const entities = await EntityService.listEntities(userId, {
+      entityType: entity_type || undefined,
+      sort: sort as EntitySort,
+      limit,
+      offset
+    });
+
+    return res.json({
+      success: true,
+      entities,
+      count: entities.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/entities/merge - Merge entities into one: their mentions move
+ * to the target, counts are summed and their names become its aliases
+ * Body: { target_id, source_ids: [...] (up to 20) }
+ */
+router.post('/merge', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const validation = mergeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validation.error.errors
+      });
+    }
+
+    const { target_id, source_ids } = validation.data;
+    const merge = await EntityService.mergeEntities(userId, target_id, source_ids);
+
+    if (!merge) {
+      return res.status(404).json({
+        success: false,
+        error: 'Entity not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      ...merge
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/entities/resolve - Resolve entities stored without a name
+ * embedding (before resolution existed, or under another embedding model)
+ * against the others, merging the variants
+ * Body: { limit? } (1-500 entities per call)
+ */
+router.post('/resolve', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const rawLimit = parseInt(req.body?.limit);
+    const limit = isNaN(rawLimit) ? 100 : Math.min(Math.max(rawLimit, 1), 500);
+
+    const result = await EntityService.resolveEntities(userId, limit);
+
+    return res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/entities/:id - An entity with every memory mentioning it and
+ * the context of each mention
+ * Query: limit (1-200 mentions), offset
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { limit, offset } = parsePaging(req, 50, 200);
+
+    const entity = await EntityService.getEntityDetail(userId, req.params.id, { limit, offset });
+
+    if (!entity) {
+      return res.status(404).json({
+        success: false,
+        error: 'Entity not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      entity
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/entities/:id/co-occurrences - Entities most often mentioned in
+ * the same memories as this one
+ * Query: limit (1-100)
+ */
+router.get('/:id/co-occurrences', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { limit } = parsePaging(req, 20, 100);
+
+    const entities = await EntityService.getCoOccurrences(userId, req.params.id, limit);
+
+    if (!entities) {
+      return res.status(404).json({
+        success: false,
+        error: 'Entity not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      entity_id: req.params.id,
+      entities,
+      count: entities.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+export default router;
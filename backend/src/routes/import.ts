@@ -0,0 +1,93 @@
+import express from 'express';
+import { parseExport, ImportFormat } from '../importers';
+import { ConversationImportService } from '../services/ConversationImportService';
+import { authenticateApiKey } from '../middleware/auth';
+
+const router = express.Router();
+
+router.use(authenticateApiKey);
+
+/**
+ * Shared handler: parse the uploaded export and queue its import.
+ * The body is either the export file itself or
+ * { conversations: <export>, extract_insights: boolean }.
+ * Returns 202 with the job and a status_url to poll. Conversations
+ * imported before are matched on session id and only get their new turns.
+ */
+function importHandler(format: ImportFormat): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const wrapped = req.body && !Array.isArray(req.body) && req.body.conversations !== undefined;
+      const data = wrapped ? req.body.conversations : req.body;
+      const extractInsights = (wrapped && req.body.extract_insights === true)
+        || req.query.extract_insights === 'true';
+
+      let conversations;
+      try {
+        conversations = parseExport(format, data);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid export file'
+        });
+      }
+
+      const job = await ConversationImportService.submitImport(
+        userId,
+        format,
+        conversations,
+        { extractInsights }
+      );
+
+      return res.status(202).json({
+        success: true,
+        import: job,
+        status_url: `/api/import/jobs/${job.id}`
+      });
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+/**
+ * POST /api/import/chatgpt - Import a ChatGPT conversations.json export
+ */
+router.post('/chatgpt', importHandler('chatgpt'));
+
+/**
+ * POST /api/import/claude - Import a Claude.ai conversations.json export
+ */
+router.post('/claude', importHandler('claude'));
+
+/**
+ * POST /api/import/jsonl - Import JSONL turns (one exchange per line,
+ * see src/importers/jsonl.ts), sent as text/plain or application/x-ndjson
+ */
+router.post('/jsonl', importHandler('jsonl'));
+
+/**
+ * GET /api/import/jobs/:id - Progress and result counts of a queued import
+ */
+router.get('/jobs/:id', async (req, res, next) => {
+  try {
+    const job = await ConversationImportService.getImportJob(req.user!.id, req.params.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Import not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      import: job
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+export default router;
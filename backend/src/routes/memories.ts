@@ -1,5 +1,9 @@
 import express from 'express';
-import { GraphService } from '../services/GraphService';
+import { GraphService, Memory, MemoryUpdate, NewMemoryInput } from '../services/GraphService';
+import { IngestionService } from '../services/IngestionService';
+import { ProvenanceService } from '../services/ProvenanceService';
+import { MEMORY_FILTER_KEYS, memoryFiltersSchema } from '../services/MemoryFilters';
+import { decodeCursor, listCursorSchema } from '../services/Pagination';
 import { authenticateApiKey } from '../middleware/auth';
 
 const router = express.Router();
@@ -7,65 +11,233 @@ const router = express.Router();
 // All routes require authentication
 router.use(authenticateApiKey);
 
+const VALID_CONTENT_TYPES = ['text', 'url', 'image', 'fact', 'event', 'preference', 'concept'];
+const MAX_CONTENT_LENGTH = 50000;
+const MAX_BATCH_SIZE = 100;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_RELATIONSHIP_TYPES = 10;
+
+type MemoryInputValidation =
+  | { valid: true; input: NewMemoryInput }
+  | { valid: false; error: string };
+
+type MemoryUpdateValidation =
+  | { valid: true; changes: MemoryUpdate }
+  | { valid: false; error: string };
+
+/**
+ * Validate the body of a memory to create. Content is stored as written
+ * (it is embedded and sent to the LLM); clients escape it when rendering.
+ */
+function validateMemoryInput(body: any): MemoryInputValidation {
+  const { content, source_url, content_type } = body || {};
+
+  // Validate content
+  if (!content || typeof content !== 'string' || content.trim().length === 0) {
+    return { valid: false, error: 'Content is required and must be a string' };
+  }
+
+  // Prevent DOS with excessively large content
+  if (content.length > MAX_CONTENT_LENGTH) {
+    return { valid: false, error: 'Content too large (max 50,000 characters)' };
+  }
+
+  // Validate source_url if provided
+  if (source_url && typeof source_url !== 'string') {
+    return { valid: false, error: 'source_url must be a string' };
+  }
+
+  // Validate content_type if provided
+  if (content_type && !VALID_CONTENT_TYPES.includes(content_type)) {
+    return { valid: false, error: `content_type must be one of: ${VALID_CONTENT_TYPES.join(', ')}` };
+  }
+
+  return {
+    valid: true,
+    input: { content, source_url, content_type }
+  };
+}
+
+/**
+ * Validate the body of a memory edit; every field is optional but at least
+ * one must be given
+ */
+function validateMemoryUpdate(body: any): MemoryUpdateValidation {
+  const { content, content_type, tags } = body || {};
+
+  if (content === undefined && content_type === undefined && tags === undefined) {
+    return { valid: false, error: 'Provide at least one of content, content_type or tags' };
+  }
+
+  const changes: MemoryUpdate = {};
+
+  if (content !== undefined) {
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return { valid: false, error: 'content must be a non-empty string' };
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return { valid: false, error: 'Content too large (max 50,000 characters)' };
+    }
+    changes.content = content;
+  }
+
+  if (content_type !== undefined) {
+    if (!VALID_CONTENT_TYPES.includes(content_type)) {
+      return { valid: false, error: `content_type must be one of: ${VALID_CONTENT_TYPES.join(', ')}` };
+    }
+    changes.content_type = content_type;
+  }
+
+  if (tags !== undefined) {
+    const validTags = Array.isArray(tags)
+      && tags.length <= MAX_TAGS
+      && tags.every(tag => typeof tag === 'string' && tag.trim().length > 0 && tag.length <= MAX_TAG_LENGTH);
+    if (!validTags) {
+      return {
+        valid: false,
+        error: `tags must be an array of up to ${MAX_TAGS} non-empty strings (max ${MAX_TAG_LENGTH} characters each)`
+      };
+    }
+    changes.tags = [...new Set<string>(tags.map((tag: string) => tag.trim()))];
+  }
+
+  return { valid: true, changes };
+}
+
+/**
+ * Look up a memory the user may edit: not a chunk (those follow their
+ * parent) and not still in the ingestion queue
+ */
+async function findEditableMemory(
+  userId: string,
+  memoryId: string
+): Promise<{ memory: Memory } | { status: number; error: string }> {
+  const memory = await GraphService.getMemoryById(userId, memoryId);
+
+  if (!memory) {
+    return { status: 404, error: 'Memory not found' };
+  }
+  if (memory.parent_memory_id) {
+    return { status: 400, error: 'Chunks cannot be edited; edit the parent memory instead' };
+  }
+  if (memory.processing_status === 'processing') {
+    return { status: 409, error: 'Memory is still being processed; try again once its status is ready' };
+  }
+
+  return { memory };
+}
+
 /**
  * POST /api/memories - Create a new memory
+ * Returns 202 right away; enrichment runs in the background
+ * (poll GET /api/memories/:id/status). An exact duplicate of an existing
+ * memory returns 200 with that memory and `deduplicated` instead.
  */
 router.post('/', async (req, res, next) => {
   try {
-    const { content, source_url, content_type } = req.body;
     const userId = req.user!.id;
 
-    // Validate content
-    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+    const validation = validateMemoryInput(req.body);
+    if (!validation.valid) {
       return res.status(400).json({
         success: false,
-        error: 'Content is required and must be a string'
+        error: validation.error
       });
     }
 
-    // Prevent DOS with excessively large content
-    if (content.length > 50000) {
-      return res.status(400).json({
-        success: false,
-        error: 'Content too large (max 50,000 characters)'
+    const { content, source_url, content_type } = validation.input;
+    const memory = await IngestionService.submitMemory(
+      userId,
+      content,
+      source_url,
+      content_type
+    );
+
+    if (memory.deduplicated) {
+      const { deduplicated, ...existing } = memory;
+      return res.json({
+        success: true,
+        memory: existing,
+        deduplicated
       });
     }
 
-    // Sanitize content to prevent XSS
-    const sanitizedContent = content
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#x27;')
-      .replace(/\//g, '&#x2F;');
+    return res.status(202).json({
+      success: true,
+      memory,
+      status_url: `/api/memories/${memory.id}/status`
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/memories/batch - Create many memories in one request
+ * Items are validated individually; each gets its own result with the
+ * memory id and processing status. Returns 202: like single creates, the
+ * memories are stored right away and enriched in the background.
+ */
+router.post('/batch', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { memories } = req.body;
 
-    // Validate source_url if provided
-    if (source_url && typeof source_url !== 'string') {
+    if (!Array.isArray(memories) || memories.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'source_url must be a string'
+        error: 'memories must be a non-empty array'
       });
     }
 
-    // Validate content_type if provided
-    const validContentTypes = ['text', 'url', 'image', 'fact', 'event', 'preference', 'concept'];
-    if (content_type && !validContentTypes.includes(content_type)) {
+    if (memories.length > MAX_BATCH_SIZE) {
       return res.status(400).json({
         success: false,
-        error: `content_type must be one of: ${validContentTypes.join(', ')}`
+        error: `Too many memories (max ${MAX_BATCH_SIZE} per batch)`
       });
     }
 
-    const memory = await GraphService.createMemory(
-      userId,
-      sanitizedContent,
-      source_url,
-      content_type
-    );
+    const validations = memories.map(validateMemoryInput);
+    const validInputs = validations
+      .filter((v): v is { valid: true; input: NewMemoryInput } => v.valid)
+      .map(v => v.input);
+
+    const submitted = validInputs.length > 0
+      ? await IngestionService.submitMemories(userId, validInputs)
+      : [];
+
+    // Merge submission results back into the original item order
+    let submittedIndex = 0;
+    const results = validations.map((validation, index) => {
+      if (!validation.valid) {
+        return { index, success: false, error: validation.error };
+      }
+
+      const { success, memory, deduplicated, error } = submitted[submittedIndex++];
+      if (!success || !memory) {
+        return { index, success: false, error };
+      }
+
+      return {
+        index,
+        success: true,
+        id: memory.id,
+        status: memory.processing_status,
+        memory,
+        ...(deduplicated ? { deduplicated } : { status_url: `/api/memories/${memory.id}/status` })
+      };
+    });
+
+    const succeeded = results.filter(r => r.success).length;
+    const deduplicated = results.filter(r => 'deduplicated' in r && r.deduplicated).length;
 
-    return res.status(201).json({
+    return res.status(202).json({
       success: true,
-      memory
+      results,
+      created: succeeded - deduplicated,
+      deduplicated,
+      failed: results.length - succeeded
     });
   } catch (error) {
     return next(error);
@@ -73,7 +245,10 @@ router.post('/', async (req, res, next) => {
 });
 
 /**
- * GET /api/memories - Get recent memories
+ * GET /api/memories - Get recent memories, a page at a time
+ * Query: limit, cursor (next_cursor of the previous page), plus the search
+ * filters (content_type, tags, created_after, created_before,
+ * min_importance, entity, source_domain, status); lists are comma-separated
  */
 router.get('/', async (req, res, next) => {
   try {
@@ -82,12 +257,36 @@ router.get('/', async (req, res, next) => {
     const rawLimit = parseInt(req.query.limit as string);
     const limit = isNaN(rawLimit) ? 20 : Math.min(Math.max(rawLimit, 1), 1000);
 
-    const memories = await GraphService.getRecentMemories(userId, limit);
+    const filterParams = Object.fromEntries(
+      Object.entries(req.query).filter(([key]) => MEMORY_FILTER_KEYS.includes(key))
+    );
+    const validation = memoryFiltersSchema.safeParse(filterParams);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid filters',
+        details: validation.error.errors
+      });
+    }
+
+    const cursor = typeof req.query.cursor === 'string'
+      ? decodeCursor(req.query.cursor, listCursorSchema)
+      : undefined;
+    if (cursor === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid cursor'
+      });
+    }
+
+    const page = await GraphService.listMemories(userId, limit, validation.data, cursor);
 
     return res.json({
       success: true,
-      memories,
-      count: memories.length
+      memories: page.memories,
+      count: page.memories.length,
+      next_cursor: page.next_cursor,
+      total_estimate: page.total_estimate
     });
   } catch (error) {
     return next(error);
@@ -123,8 +322,201 @@ router.get('/:id', async (req, res, next) => {
   }
 });
 
+/**
+ * PATCH /api/memories/:id - Edit content, content_type and/or tags
+ * The previous revision is kept in the memory's history. New content is
+ * enriched again in the background: the response is 202 with a status_url.
+ */
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+
+    const validation = validateMemoryUpdate(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error
+      });
+    }
+
+    const found = await findEditableMemory(userId, req.params.id);
+    if (!('memory' in found)) {
+      return res.status(found.status).json({
+        success: false,
+        error: found.error
+      });
+    }
+
+    const memory = await IngestionService.updateMemory(found.memory, validation.changes);
+
+    if (memory.processing_status === 'processing') {
+      return res.status(202).json({
+        success: true,
+        memory,
+        status_url: `/api/memories/${memory.id}/status`
+      });
+    }
+
+    return res.json({
+      success: true,
+      memory
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/memories/:id/history - Get prior revisions of a memory, newest first
+ */
+router.get('/:id/history', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const memoryId = req.params.id;
+
+    const memory = await GraphService.getMemoryById(userId, memoryId);
+    if (!memory) {
+      return res.status(404).json({
+        success: false,
+        error: 'Memory not found'
+      });
+    }
+
+    const versions = await GraphService.getMemoryHistory(userId, memoryId);
+
+    return res.json({
+      success: true,
+      memory_id: memoryId,
+      current_version: memory.version || 1,
+      versions
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/memories/:id/usages - Answers this memory was retrieved for, newest first
+ * Query: limit (1-100), offset
+ */
+router.get('/:id/usages', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const memoryId = req.params.id;
+    const rawLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(rawLimit) ? 50 : Math.min(Math.max(rawLimit, 1), 100);
+    const rawOffset = parseInt(req.query.offset as string);
+    const offset = isNaN(rawOffset) ? 0 : Math.max(rawOffset, 0);
+
+    const memory = await GraphService.getMemoryById(userId, memoryId);
+    if (!memory) {
+      return res.status(404).json({
+        success: false,
+        error: 'Memory not found'
+      });
+    }
+
+    const usages = await ProvenanceService.getMemoryUsages(userId, memoryId, { limit, offset });
+
+    return res.json({
+      success: true,
+      memory_id: memoryId,
+      usages,
+      count: usages.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/memories/:id/revert - Restore an earlier revision
+ * Body: { "version": 2 }. The revert is recorded as a new revision and,
+ * like an edit, answers 202 with a status_url when the content changes.
+ */
+router.post('/:id/revert', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const { version } = req.body || {};
+
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'version must be a positive integer'
+      });
+    }
+
+    const found = await findEditableMemory(userId, req.params.id);
+    if (!('memory' in found)) {
+      return res.status(found.status).json({
+        success: false,
+        error: found.error
+      });
+    }
+
+    if (version === (found.memory.version || 1)) {
+      return res.status(400).json({
+        success: false,
+        error: `Memory is already at version ${version}`
+      });
+    }
+
+    const memory = await IngestionService.revertMemory(found.memory, version);
+    if (!memory) {
+      return res.status(404).json({
+        success: false,
+        error: 'Version not found'
+      });
+    }
+
+    if (memory.processing_status === 'processing') {
+      return res.status(202).json({
+        success: true,
+        memory,
+        reverted_to: version,
+        status_url: `/api/memories/${memory.id}/status`
+      });
+    }
+
+    return res.json({
+      success: true,
+      memory,
+      reverted_to: version
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/memories/:id/status - Get ingestion progress of a memory
+ */
+router.get('/:id/status', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const status = await IngestionService.getStatus(userId, req.params.id);
+
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: 'Memory not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      status
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
 /**
  * GET /api/memories/graph - Get memory graph
+ * Query: memory_id (neighborhood of one memory, each node carrying its hop
+ * distance), depth (1-5 hops), min_strength (0-1), types (comma-separated
+ * relationship types), max_nodes_per_hop (1-100)
  */
 router.get('/graph/view', async (req, res, next) => {
   try {
@@ -133,8 +525,27 @@ router.get('/graph/view', async (req, res, next) => {
     // Validate and clamp depth to prevent DOS (min 1, max 5)
     const rawDepth = parseInt(req.query.depth as string);
     const depth = isNaN(rawDepth) ? 2 : Math.min(Math.max(rawDepth, 1), 5);
+    const rawStrength = parseFloat(req.query.min_strength as string);
+    const minStrength = isNaN(rawStrength) ? undefined : Math.min(Math.max(rawStrength, 0), 1);
+    const rawPerHop = parseInt(req.query.max_nodes_per_hop as string);
+    const maxNodesPerHop = isNaN(rawPerHop) ? undefined : Math.min(Math.max(rawPerHop, 1), 100);
 
-    const graph = await GraphService.getMemoryGraph(userId, memoryId, depth);
+    const relationshipTypes = typeof req.query.types === 'string'
+      ? req.query.types.split(',').map(type => type.trim()).filter(Boolean)
+      : undefined;
+    if (relationshipTypes && (relationshipTypes.length > MAX_RELATIONSHIP_TYPES
+      || relationshipTypes.some(type => !/^[a-z_]{1,50}$/.test(type)))) {
+      return res.status(400).json({
+        success: false,
+        error: `types must be a comma-separated list of at most ${MAX_RELATIONSHIP_TYPES} relationship types`
+      });
+    }
+
+    const graph = await GraphService.getMemoryGraph(userId, memoryId, depth, {
+      minStrength,
+      relationshipTypes,
+      maxNodesPerHop
+    });
 
     return res.json({
       success: true,
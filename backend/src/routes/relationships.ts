@@ -0,0 +1,176 @@
+import express from 'express';
+import { z } from 'zod';
+import { RelationshipService, USER_RELATIONSHIP_TYPES } from '../services/RelationshipService';
+import { authenticateApiKey } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateApiKey);
+
+const MAX_NOTE_LENGTH = 500;
+
+const relationshipType = z.string().refine(
+  type => USER_RELATIONSHIP_TYPES.includes(type),
+  { message: `relationship_type must be one of: ${USER_RELATIONSHIP_TYPES.join(', ')}` }
+);
+const strength = z.number().min(0).max(1);
+const note = z.string().max(MAX_NOTE_LENGTH);
+
+const createSchema = z.object({
+  source_memory_id: z.string().uuid(),
+  target_memory_id: z.string().uuid(),
+  relationship_type: relationshipType,
+  strength: strength.optional(),
+  note: note.optional()
+}).refine(
+  body => body.source_memory_id !== body.target_memory_id,
+  { message: 'An edge needs two different memories', path: ['target_memory_id'] }
+);
+
+const updateSchema = z.object({
+  relationship_type: relationshipType.optional(),
+  strength: strength.optional(),
+  note: note.optional()
+}).strict().refine(
+  body => body.relationship_type !== undefined || body.strength !== undefined || body.note !== undefined,
+  { message: 'Provide at least one of relationship_type, strength or note' }
+);
+
+/**
+ * GET /api/relationships?memory_id= - Edges of a memory in either direction
+ * Query: memory_id (required), limit (1-200)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const memoryId = req.query.memory_id;
+
+    if (typeof memoryId !== 'string' || !z.string().uuid().safeParse(memoryId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'memory_id is required and must be a UUID'
+      });
+    }
+
+    const rawLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(rawLimit) ? 100 : Math.min(Math.max(rawLimit, 1), 200);
+
+    const relationships = await RelationshipService.listForMemory(userId, memoryId, limit);
+
+    return res.json({
+      success: true,
+      relationships,
+      count: relationships.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * POST /api/relationships - Create an edge between two memories
+ * Body: { source_memory_id, target_memory_id, relationship_type, strength? (0-1, default 1), note? }
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const validation = createSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validation.error.errors
+      });
+    }
+
+    const body = validation.data;
+    const relationship = await RelationshipService.createRelationship(userId, {
+      sourceMemoryId: body.source_memory_id,
+      targetMemoryId: body.target_memory_id,
+      relationshipType: body.relationship_type,
+      strength: body.strength,
+      note: body.note
+    });
+
+    if (!relationship) {
+      return res.status(404).json({
+        success: false,
+        error: 'Memory not found'
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      relationship
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * PATCH /api/relationships/:id - Relabel and/or reweight an edge
+ * Body: { relationship_type?, strength?, note? }
+ */
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const validation = updateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validation.error.errors
+      });
+    }
+
+    const body = validation.data;
+    const relationship = await RelationshipService.updateRelationship(userId, req.params.id, {
+      relationshipType: body.relationship_type,
+      strength: body.strength,
+      note: body.note
+    });
+
+    if (!relationship) {
+      return res.status(404).json({
+        success: false,
+        error: 'Relationship not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      relationship
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * DELETE /api/relationships/:id - Delete an edge; automatic rebuilds will
+ * not recreate it
+ */
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const deleted = await RelationshipService.deleteRelationship(userId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Relationship not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Relationship deleted'
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+export default router;
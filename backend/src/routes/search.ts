@@ -1,17 +1,30 @@
 import express from 'express';
-import { GraphService } from '../services/GraphService';
+import { GraphService, SearchMode } from '../services/GraphService';
+import { SearchService } from '../services/SearchService';
+import { memoryFiltersSchema } from '../services/MemoryFilters';
+import { decodeCursor, searchCursorSchema } from '../services/Pagination';
 import { authenticateApiKey } from '../middleware/auth';
 
 const router = express.Router();
 
 router.use(authenticateApiKey);
 
+const VALID_SCOPES = ['memories', 'all'];
+const VALID_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
 /**
- * POST /api/search - Semantic search across memories
+ * POST /api/search - Search across memories
+ * Body: { query, limit, scope, mode, filters, cursor } - mode picks
+ * embedding similarity (vector, the default), full-text matching or both
+ * fused by rank (hybrid). filters narrow the memories searched (see MemoryFilters);
+ * cursor is the next_cursor of the previous page. Scope "all" also
+ * searches conversation turns and conversation summaries and returns typed
+ * results; it always ranks by embedding similarity and takes no filters
+ * or cursor.
  */
 router.post('/', async (req, res, next) => {
   try {
-    const { query, limit } = req.body;
+    const { query, limit, scope = 'memories', mode = 'vector', filters, cursor } = req.body;
     const userId = req.user!.id;
 
     if (!query || query.trim().length === 0) {
@@ -32,21 +45,84 @@ router.post('/', async (req, res, next) => {
     // Validate and clamp limit (min 1, max 100)
     const validatedLimit = limit ? Math.min(Math.max(parseInt(limit), 1), 100) : 10;
 
-    const results = await GraphService.searchMemories(
+    if (!VALID_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: `scope must be one of: ${VALID_SCOPES.join(', ')}`
+      });
+    }
+
+    if (!VALID_MODES.includes(mode)) {
+      return res.status(400).json({
+        success: false,
+        error: `mode must be one of: ${VALID_MODES.join(', ')}`
+      });
+    }
+
+    const validation = memoryFiltersSchema.safeParse(filters ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid filters',
+        details: validation.error.errors
+      });
+    }
+
+    const position = cursor !== undefined
+      ? (typeof cursor === 'string' ? decodeCursor(cursor, searchCursorSchema) : null)
+      : undefined;
+    if (position === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid cursor'
+      });
+    }
+
+    if (scope === 'all') {
+      if (filters !== undefined || cursor !== undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'filters and cursor are only supported with scope "memories"'
+        });
+      }
+
+      const results = await SearchService.unifiedSearch(userId, query, validatedLimit);
+
+      for (const result of results) {
+        if (result.type === 'memory') {
+          await GraphService.trackAccess(result.id);
+        }
+      }
+
+      return res.json({
+        success: true,
+        scope,
+        results,
+        count: results.length
+      });
+    }
+
+    const page = await GraphService.searchMemoriesPage(
       userId,
       query,
-      validatedLimit
+      validatedLimit,
+      mode,
+      validation.data,
+      position
     );
 
     // Track access for importance scoring
-    for (const result of results) {
+    for (const result of page.results) {
       await GraphService.trackAccess(result.id);
     }
 
     return res.json({
       success: true,
-      results,
-      count: results.length
+      mode,
+      results: page.results,
+      count: page.results.length,
+      next_cursor: page.next_cursor,
+      total_estimate: page.total_estimate
     });
   } catch (error) {
     return next(error);
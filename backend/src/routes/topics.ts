@@ -0,0 +1,59 @@
+import express from 'express';
+import { TopicClusteringService } from '../services/TopicClusteringService';
+import { authenticateApiKey } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateApiKey);
+
+/**
+ * GET /api/topics - Topics of the user's conversations and memories,
+ * most discussed first
+ * Query: limit (1-100), offset
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const rawLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(rawLimit) ? 50 : Math.min(Math.max(rawLimit, 1), 100);
+    const rawOffset = parseInt(req.query.offset as string);
+    const offset = isNaN(rawOffset) ? 0 : Math.max(rawOffset, 0);
+
+    const topics = await TopicClusteringService.listTopics(userId, { limit, offset });
+
+    return res.json({
+      success: true,
+      topics,
+      count: topics.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * GET /api/topics/:id - A topic with its conversations and memories
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const topic = await TopicClusteringService.getTopic(userId, req.params.id);
+
+    if (!topic) {
+      return res.status(404).json({
+        success: false,
+        error: 'Topic not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      topic
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import { query } from '../config/database';
+import { config } from '../config/env';
+import { ConversationService, Conversation, ConversationTurn } from './ConversationService';
+import { EmbeddingService } from './EmbeddingService';
+import { NLPService } from './NLPService';
+import { ChatMessage } from './LLMService';
+
+// Chat sessions are conversations held by Dory itself
+export const CHAT_PLATFORM = 'dory';
+
+export interface SessionMessage extends ChatMessage {
+  turn_number: number;
+  timestamp: Date;
+}
+
+export interface SessionListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+const SUMMARY_LENGTH = 1000;
+
+/**
+ * Server-side history for /api/chat. Each exchange is stored as a turn of
+ * a 'dory' conversation. The history sent to the model is the session's
+ * turns; once they exceed the token budget the oldest are folded into a
+ * rolling summary (conversation_summary) and only the rest go verbatim.
+ */
+export class ChatSessionService {
+  static async createSession(userId: string, title?: string): Promise<Conversation> {
+    return ConversationService.createConversation(userId, {
+      platform: CHAT_PLATFORM,
+      model: config.llm.chatModel,
+      title,
+    });
+  }
+
+  /**
+   * A chat session of the user; other conversations are not sessions
+   */
+  static async getSession(userId: string, sessionId: string): Promise<Conversation | null> {
+    const conversation = await ConversationService.getConversation(userId, sessionId);
+    return conversation?.llm_platform === CHAT_PLATFORM ? conversation : null;
+  }
+
+  static async listSessions(userId: string, options: SessionListOptions = {}): Promise<Conversation[]> {
+    return ConversationService.listConversations(userId, {
+      platform: CHAT_PLATFORM,
+      limit: options.limit,
+      offset: options.offset,
+    });
+  }
+
+  static async renameSession(session: Conversation, title: string): Promise<Conversation> {
+    return ConversationService.updateTitle(session.id, title);
+  }
+
+  static async deleteSession(session: Conversation): Promise<boolean> {
+    return ConversationService.deleteConversation(session.user_id, session.id);
+  }
+
+  /**
+   * Every message of a session, oldest first, for display
+   */
+  static async getMessages(session: Conversation): Promise<SessionMessage[]> {
+    const turns = await ConversationService.getTurns(session.id);
+
+    return turns.flatMap(turn => this.toMessages(turn).map(message => ({
+      ...message,
+      turn_number: turn.turn_number,
+      timestamp: turn.timestamp,
+    })));
+  }
+
+  /**
+   * History to send with the next message: the summary of older turns (as
+   * a system message) followed by the recent turns. Summarizes first when
+   * the session has outgrown the token budget.
+   */
+  static async buildHistory(session: Conversation): Promise<ChatMessage[]> {
+    const turns = await ConversationService.getTurns(session.id);
+    const summarizedThrough = session.summarized_through_turn || 0;
+
+    let summary = summarizedThrough > 0 ? session.conversation_summary : null;
+    let recent = turns.filter(turn => turn.turn_number > summarizedThrough);
+
+    const foldCount = this.turnsToFold(summary, recent);
+    if (foldCount > 0) {
+      const folded = recent.slice(0, foldCount);
+      summary = await this.summarize(summary, folded);
+      recent = recent.slice(foldCount);
+      await this.saveSummary(session.id, summary, folded[folded.length - 1].turn_number);
+    }
+
+    return [
+      ...(summary
+        ? [{ role: 'system' as const, content: `Summary of the earlier part of this conversation:\n${summary}` }]
+        : []),
+      ...recent.flatMap(turn => this.toMessages(turn)),
+    ];
+  }
+
+  /**
+   * Store an exchange; the first one also names an untitled session
+   */
+  static async recordExchange(session: Conversation, message: string, response: string): Promise<ConversationTurn> {
+    const [turn] = await ConversationService.addTurns(session, [{ userMessage: message, assistantMessage: response }]);
+
+    if (!session.title) {
+      await query(
+        `UPDATE conversations SET title = COALESCE(title, $2) WHERE id = $1`,
+        [session.id, ConversationService.titleFrom(message)]
+      );
+    }
+
+    return turn;
+  }
+
+  /**
+   * How many of the oldest unsummarized turns to fold into the summary:
+   * none while within budget, otherwise enough to get back under half the
+   * budget (so it doesn't happen on every message), always keeping the
+   * most recent turns verbatim
+   */
+  private static turnsToFold(summary: string | null, recent: ConversationTurn[]): number {
+    const budget = config.chat.historyTokenBudget;
+    const foldable = recent.length - config.chat.keepRecentTurns;
+
+    let tokens = (summary ? ConversationService.estimateTokens(summary) : 0)
+      + recent.reduce((sum, turn) => sum + this.turnTokens(turn), 0);
+
+    if (tokens <= budget || foldable <= 0) {
+      return 0;
+    }
+
+    let count = 0;
+    while (count < foldable && tokens > budget / 2) {
+      tokens -= this.turnTokens(recent[count]);
+      count++;
+    }
+
+    return count;
+  }
+
+  private static async summarize(previous: string | null, turns: ConversationTurn[]): Promise<string> {
+    const transcript = ConversationService.buildTranscript(turns);
+    const text = previous
+      ? `Summary of the conversation so far:\n${previous}\n\nContinuation:\n${transcript}`
+      : transcript;
+
+    return NLPService.summarize(text, SUMMARY_LENGTH);
+  }
+
+  /**
+   * The summary is embedded like a closed conversation's, so sessions show
+   * up in unified search
+   */
+  private static async saveSummary(sessionId: string, summary: string, throughTurn: number): Promise<void> {
+    const embedding = await EmbeddingService.generateEmbedding(summary);
+
+    await query(
+      `UPDATE conversations
+       SET conversation_summary = $2,
+           summarized_through_turn = $3,
+           summary_embedding = $4::vector,
+           embedding_model = $5
+       WHERE id = $1`,
+      [sessionId, summary, throughTurn, JSON.stringify(embedding), EmbeddingService.currentModel()]
+    );
+  }
+
+  private static turnTokens(turn: ConversationTurn): number {
+    return (turn.user_message_tokens || 0) + (turn.assistant_message_tokens || 0);
+  }
+
+  private static toMessages(turn: ConversationTurn): ChatMessage[] {
+    return turn.assistant_message
+      ? [
+        { role: 'user', content: turn.user_message },
+        { role: 'assistant', content: turn.assistant_message },
+      ]
+      : [{ role: 'user', content: turn.user_message }];
+  }
+}
@@ -0,0 +1,71 @@
+import { config } from '../config/env';
+
+/**
+ * Splits long text into overlapping chunks for embedding. Chunk ends are
+ * moved back to the nearest paragraph, sentence or word break so passages
+ * stay readable when shown as search matches.
+ */
+export class ChunkingService {
+  /**
+   * Whether content is long enough to be stored as parent + chunks
+   */
+  static needsChunking(content: string): boolean {
+    return content.length > config.chunking.threshold;
+  }
+
+  /**
+   * Split text into chunks of at most `size` characters, each sharing
+   * roughly `overlap` characters with the previous one
+   */
+  static split(
+    text: string,
+    size: number = config.chunking.size,
+    overlap: number = config.chunking.overlap
+  ): string[] {
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + size, text.length);
+
+      if (end < text.length) {
+        end = this.findBreak(text, start + Math.floor(size / 2), end);
+      }
+
+      const chunk = text.slice(start, end).trim();
+      if (chunk) chunks.push(chunk);
+
+      if (end >= text.length) break;
+
+      // Step back for the overlap, then forward to the start of a word
+      let next = Math.max(end - overlap, start + 1);
+      while (next < end && !/\s/.test(text[next - 1])) next++;
+      start = next;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Best break position in (min, max]: paragraph, then sentence, then word
+   */
+  private static findBreak(text: string, min: number, max: number): number {
+    const window = text.slice(min, max);
+
+    const paragraph = window.lastIndexOf('\n\n');
+    if (paragraph !== -1) return min + paragraph + 2;
+
+    const sentence = Math.max(
+      window.lastIndexOf('. '),
+      window.lastIndexOf('? '),
+      window.lastIndexOf('! '),
+      window.lastIndexOf('\n')
+    );
+    if (sentence !== -1) return min + sentence + 1;
+
+    const word = window.lastIndexOf(' ');
+    if (word !== -1) return min + word + 1;
+
+    return max;
+  }
+}
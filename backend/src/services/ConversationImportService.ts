@@ -0,0 +1,351 @@
+import { query, transaction } from '../config/database';
+import { config } from '../config/env';
+import { ImportFormat, ImportedConversation, ImportedTurn } from '../importers';
+import { ConversationService } from './ConversationService';
+import { LLMService, ChatMessage } from './LLMService';
+
+export interface ImportOptions {
+  extractInsights?: boolean; // seed memories from each conversation
+}
+
+export interface ImportResult {
+  conversations: number; // newly created
+  updated: number; // already imported, new turns appended
+  unchanged: number; // already imported, nothing new
+  turns: number; // turns written
+  insights: number;
+  failed: Array<{ title?: string; sessionId?: string; error: string }>;
+}
+
+export interface ImportJob {
+  id: string;
+  format: ImportFormat;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  total: number; // conversations in the upload
+  processed: number;
+  result: ImportResult; // so far
+  last_error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+const IMPORT_JOB_COLUMNS = 'id, format, status, total, processed, result, last_error, created_at, completed_at';
+
+// A job locked longer than this is assumed to belong to a crashed worker
+const STALE_LOCK_MINUTES = 10;
+const BASE_RETRY_DELAY_SECONDS = 5;
+
+/**
+ * Writes parsed chat exports (see src/importers) into the conversations
+ * and conversation_turns tables, with embeddings for every message.
+ * Uploads are queued in import_jobs and worked off by the ingestion worker.
+ * Conversations are matched on (platform, session_id), so re-importing a
+ * newer export only appends the turns that are not stored yet.
+ */
+export class ConversationImportService {
+  /**
+   * Queue parsed conversations for the ingestion worker, which imports
+   * them one at a time (see processNextImport)
+   */
+  static async submitImport(
+    userId: string,
+    format: ImportFormat,
+    conversations: ImportedConversation[],
+    options: ImportOptions = {}
+  ): Promise<ImportJob> {
+    const done = conversations.length === 0;
+    const result = await query(
+      `INSERT INTO import_jobs
+       (user_id, format, conversations, extract_insights, total, result, max_attempts, status, completed_at)
+       VALUES ($1, $2, $3::jsonb, $4, $5, $6::jsonb, $7, $8, CASE WHEN $9 THEN NOW() END)
+       RETURNING ${IMPORT_JOB_COLUMNS}`,
+      [
+        userId,
+        format,
+        JSON.stringify(conversations),
+        options.extractInsights === true,
+        conversations.length,
+        JSON.stringify(this.emptyResult()),
+        config.ingestion.maxAttempts,
+        done ? 'completed' : 'pending',
+        done,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Progress of a queued import
+   */
+  static async getImportJob(userId: string, jobId: string): Promise<ImportJob | null> {
+    const result = await query(
+      `SELECT ${IMPORT_JOB_COLUMNS} FROM import_jobs WHERE id = $1 AND user_id = $2`,
+      [jobId, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Claim a due import job and import its next conversation. Returns false
+   * when no import is waiting. One conversation per call, so new memories
+   * keep being enriched during a long import.
+   */
+  static async processNextImport(): Promise<boolean> {
+    const claimed = await query(
+      `UPDATE import_jobs
+       SET status = 'running', locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM import_jobs
+         WHERE (status = 'pending' AND run_after <= NOW())
+            OR (status = 'running' AND locked_at < NOW() - make_interval(mins => $1))
+         ORDER BY run_after
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, user_id, extract_insights, attempts, max_attempts, result,
+                 conversations->processed AS conversation`,
+      [STALE_LOCK_MINUTES]
+    );
+
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    const job = claimed.rows[0];
+    const result: ImportResult = { ...this.emptyResult(), ...job.result };
+
+    try {
+      if (job.conversation) {
+        await this.importOne(job.user_id, this.revive(job.conversation), { extractInsights: job.extract_insights }, result);
+      }
+
+      await query(
+        `UPDATE import_jobs
+         SET processed = processed + 1,
+             result = $2::jsonb,
+             status = CASE WHEN processed + 1 >= total THEN 'completed' ELSE 'pending' END,
+             completed_at = CASE WHEN processed + 1 >= total THEN NOW() END,
+             conversations = CASE WHEN processed + 1 >= total THEN '[]'::jsonb ELSE conversations END,
+             attempts = 0, locked_at = NULL, last_error = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [job.id, JSON.stringify(result)]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Import job ${job.id} failed:`, message);
+      await this.failImportJob(job, message);
+    }
+
+    return true;
+  }
+
+  /**
+   * Import parsed conversations right away (the CLI does this; uploads are
+   * queued). Each conversation is imported on its own, so one bad
+   * conversation does not stop the rest.
+   */
+  static async importConversations(
+    userId: string,
+    conversations: ImportedConversation[],
+    options: ImportOptions = {}
+  ): Promise<ImportResult> {
+    const result = this.emptyResult();
+
+    for (const conversation of conversations) {
+      await this.importOne(userId, conversation, options, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Import one conversation and add its outcome to result
+   */
+  private static async importOne(
+    userId: string,
+    conversation: ImportedConversation,
+    options: ImportOptions,
+    result: ImportResult
+  ): Promise<void> {
+    let newTurns: ImportedTurn[];
+
+    try {
+      const outcome = await this.importConversation(userId, conversation);
+      newTurns = outcome.newTurns;
+      result[outcome.status === 'created' ? 'conversations' : outcome.status]++;
+      result.turns += newTurns.length;
+    } catch (error) {
+      console.error(`Failed to import conversation "${conversation.title}":`, error);
+      result.failed.push({
+        title: conversation.title,
+        sessionId: conversation.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // Only new turns, so re-imports don't re-create the same memories
+    if (options.extractInsights && newTurns.length > 0) {
+      result.insights += await LLMService.extractInsights(userId, this.toChatMessages(newTurns));
+    }
+  }
+
+  /**
+   * Create a conversation, or append the turns an earlier import lacks.
+   * The turns are embedded first; the writes then go in one transaction,
+   * so a failure leaves no half-imported conversation behind.
+   */
+  private static async importConversation(
+    userId: string,
+    conversation: ImportedConversation
+  ): Promise<{ status: 'created' | 'updated' | 'unchanged'; newTurns: ImportedTurn[] }> {
+    const existing = conversation.sessionId
+      ? await this.findExisting(userId, conversation.platform, conversation.sessionId)
+      : null;
+
+    const newTurns = existing ? await this.findNewTurns(existing.id, conversation.turns) : conversation.turns;
+    if (existing && newTurns.length === 0) {
+      return { status: 'unchanged', newTurns };
+    }
+
+    const embeddings = await ConversationService.embedTurns(newTurns);
+
+    await transaction(async run => {
+      if (!existing) {
+        const inserted = await run(
+          `INSERT INTO conversations
+           (user_id, title, llm_platform, llm_model, conversation_url, session_id,
+            total_tokens, started_at, last_message_at, is_active, is_complete)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8, false, true)
+           RETURNING id`,
+          [
+            userId,
+            conversation.title || null,
+            conversation.platform,
+            conversation.model || null,
+            conversation.url || null,
+            conversation.sessionId || null,
+            ConversationService.countTokens(newTurns),
+            conversation.startedAt,
+          ]
+        );
+        await ConversationService.writeTurns(run, userId, inserted.rows[0].id, newTurns, embeddings, 1);
+        return;
+      }
+
+      // Turns may have been appended since the stored ones were read
+      await run(`SELECT id FROM conversations WHERE id = $1 FOR UPDATE`, [existing.id]);
+      const last = await run(
+        `SELECT COALESCE(MAX(turn_number), 0)::int AS last_turn
+         FROM conversation_turns WHERE conversation_id = $1`,
+        [existing.id]
+      );
+
+      await ConversationService.writeTurns(run, userId, existing.id, newTurns, embeddings, last.rows[0].last_turn + 1);
+      await run(
+        `UPDATE conversations
+         SET total_tokens = total_tokens + $2,
+             title = COALESCE(title, $3),
+             llm_model = COALESCE($4, llm_model)
+         WHERE id = $1`,
+        [existing.id, ConversationService.countTokens(newTurns), conversation.title || null, conversation.model || null]
+      );
+    });
+
+    return { status: existing ? 'updated' : 'created', newTurns };
+  }
+
+  /**
+   * Retry the current step with exponential backoff, or give up after max_attempts
+   */
+  private static async failImportJob(
+    job: { id: string; attempts: number; max_attempts: number },
+    error: string
+  ): Promise<void> {
+    const delaySeconds = BASE_RETRY_DELAY_SECONDS * Math.pow(2, job.attempts - 1);
+
+    await query(
+      `UPDATE import_jobs
+       SET status = CASE WHEN $2 THEN 'failed' ELSE 'pending' END,
+           last_error = $3, locked_at = NULL,
+           run_after = NOW() + make_interval(secs => $4), updated_at = NOW()
+       WHERE id = $1`,
+      [job.id, job.attempts >= job.max_attempts, error, delaySeconds]
+    );
+  }
+
+  /**
+   * A previously imported conversation with the same platform session id
+   */
+  private static async findExisting(
+    userId: string,
+    platform: string,
+    sessionId: string
+  ): Promise<{ id: string } | null> {
+    const result = await query(
+      `SELECT id FROM conversations
+       WHERE user_id = $1 AND llm_platform = $2 AND session_id = $3
+       ORDER BY created_at
+       LIMIT 1`,
+      [userId, platform, sessionId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Turns of the export that are not stored yet. Matching is on message
+   * text, counting repeats, so the same exchange asked twice is kept twice
+   * and exports that only contain recent turns work as well.
+   */
+  private static async findNewTurns(conversationId: string, turns: ImportedTurn[]): Promise<ImportedTurn[]> {
+    const stored = await query(
+      `SELECT user_message, assistant_message FROM conversation_turns WHERE conversation_id = $1`,
+      [conversationId]
+    );
+
+    const remaining = new Map<string, number>();
+    for (const row of stored.rows) {
+      const key = this.turnKey(row.user_message, row.assistant_message);
+      remaining.set(key, (remaining.get(key) || 0) + 1);
+    }
+
+    return turns.filter(turn => {
+      const key = this.turnKey(turn.userMessage, turn.assistantMessage);
+      const count = remaining.get(key) || 0;
+      if (count > 0) {
+        remaining.set(key, count - 1);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private static emptyResult(): ImportResult {
+    return { conversations: 0, updated: 0, unchanged: 0, turns: 0, insights: 0, failed: [] };
+  }
+
+  // Queued conversations come back from JSON with their dates as strings
+  private static revive(conversation: any): ImportedConversation {
+    return {
+      ...conversation,
+      startedAt: new Date(conversation.startedAt),
+      turns: conversation.turns.map((turn: any) => ({ ...turn, timestamp: new Date(turn.timestamp) })),
+    };
+  }
+
+  private static toChatMessages(turns: ImportedTurn[]): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    for (const turn of turns) {
+      if (turn.userMessage) messages.push({ role: 'user', content: turn.userMessage });
+      if (turn.assistantMessage) messages.push({ role: 'assistant', content: turn.assistantMessage });
+    }
+    return messages;
+  }
+
+  private static turnKey(userMessage: string, assistantMessage: string): string {
+    return `${userMessage.trim()}\u0000${assistantMessage.trim()}`;
+  }
+}
@@ -0,0 +1,439 @@
+import { query, transaction, QueryRunner } from '../config/database';
+import { EmbeddingService } from './EmbeddingService';
+import { NLPService } from './NLPService';
+import { TopicClusteringService } from './TopicClusteringService';
+
+export interface Conversation {
+  id: string;
+  user_id: string;
+  title: string | null;
+  llm_platform: string;
+  llm_model: string | null;
+  conversation_url: string | null;
+  session_id: string | null;
+  primary_topics: string[] | null;
+  conversation_summary: string | null;
+  total_turns: number;
+  total_tokens: number;
+  duration_minutes: number | null;
+  importance_score: number;
+  started_at: Date;
+  last_message_at: Date;
+  created_at: Date;
+  updated_at: Date;
+  is_active: boolean;
+  is_complete: boolean;
+  summarized_through_turn: number; // chat sessions: turns folded into conversation_summary
+}
+
+export interface ConversationTurn {
+  id: string;
+  conversation_id: string;
+  turn_number: number;
+  user_message: string;
+  user_message_tokens: number;
+  assistant_message: string;
+  assistant_message_tokens: number;
+  contains_code: boolean;
+  code_languages: string[];
+  contains_image: boolean;
+  timestamp: Date;
+  created_at: Date;
+}
+
+export interface NewConversationInput {
+  platform: string;
+  model?: string;
+  title?: string;
+  url?: string;
+  sessionId?: string;
+}
+
+export interface TurnInput {
+  userMessage: string;
+  assistantMessage: string; // empty when the user message got no reply
+  timestamp?: Date;
+  containsImage?: boolean;
+}
+
+// Embeddings of a turn's messages; null for an empty message
+export interface TurnEmbeddings {
+  user: number[] | null;
+  assistant: number[] | null;
+}
+
+export interface ConversationListOptions {
+  limit?: number;
+  offset?: number;
+  platform?: string;
+  active?: boolean;
+}
+
+// Columns returned to clients; the vector columns stay in the database
+const CONVERSATION_COLUMNS = `id, user_id, title, llm_platform, llm_model, conversation_url, session_id,
+  primary_topics, conversation_summary, total_turns, total_tokens, duration_minutes,
+  importance_score, started_at, last_message_at, created_at, updated_at, is_active, is_complete,
+  summarized_through_turn`;
+
+const TURN_COLUMNS = `id, conversation_id, turn_number, user_message, user_message_tokens,
+  assistant_message, assistant_message_tokens, contains_code, code_languages, contains_image,
+  timestamp, created_at`;
+
+// Long conversations are summarized from their beginning and end
+const MAX_TRANSCRIPT_LENGTH = 12000;
+const SUMMARY_LENGTH = 500;
+const TITLE_LENGTH = 80;
+
+/**
+ * Captured LLM sessions: conversations and their user/assistant turns.
+ * Every turn message is embedded on insert; closing a conversation adds
+ * its summary and topics, embedded as well, so sessions can be searched.
+ */
+export class ConversationService {
+  /**
+   * Start a new conversation
+   */
+  static async createConversation(
+    userId: string,
+    input: NewConversationInput,
+    run: QueryRunner = query
+  ): Promise<Conversation> {
+    const result = await run(
+      `INSERT INTO conversations (user_id, title, llm_platform, llm_model, conversation_url, session_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${CONVERSATION_COLUMNS}`,
+      [
+        userId,
+        input.title || null,
+        input.platform,
+        input.model || null,
+        input.url || null,
+        input.sessionId || null,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * The user's one conversation on a platform (e.g. Dory's answer log),
+   * started if there is none yet. Callers are serialized per user and
+   * platform, so concurrent first calls share one conversation.
+   */
+  static async getOrCreateConversation(userId: string, input: NewConversationInput): Promise<Conversation> {
+    return transaction(async run => {
+      await run(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`conversation:${userId}:${input.platform}`]);
+
+      const existing = await run(
+        `SELECT ${CONVERSATION_COLUMNS}
+         FROM conversations
+         WHERE user_id = $1 AND llm_platform = $2
+         ORDER BY started_at
+         LIMIT 1`,
+        [userId, input.platform]
+      );
+
+      return existing.rows[0] || this.createConversation(userId, input, run);
+    });
+  }
+
+  /**
+   * A user's conversations, most recently active first
+   */
+  static async listConversations(
+    userId: string,
+    options: ConversationListOptions = {}
+  ): Promise<Conversation[]> {
+    const result = await query(
+      `SELECT ${CONVERSATION_COLUMNS}
+       FROM conversations
+       WHERE user_id = $1
+         AND ($2::text IS NULL OR llm_platform = $2)
+         AND ($3::boolean IS NULL OR is_active = $3)
+       ORDER BY last_message_at DESC
+       LIMIT $4 OFFSET $5`,
+      [
+        userId,
+        options.platform || null,
+        options.active === undefined ? null : options.active,
+        options.limit || 20,
+        options.offset || 0,
+      ]
+    );
+
+    return result.rows;
+  }
+
+  static async getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+    const result = await query(
+      `SELECT ${CONVERSATION_COLUMNS} FROM conversations WHERE id = $1 AND user_id = $2`,
+      [conversationId, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  static async updateTitle(conversationId: string, title: string): Promise<Conversation> {
+    const result = await query(
+      `UPDATE conversations SET title = $2 WHERE id = $1 RETURNING ${CONVERSATION_COLUMNS}`,
+      [conversationId, title]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Delete a conversation; its turns and topic memberships go with it
+   */
+  static async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+    const result = await query(
+      `DELETE FROM conversations
+       WHERE id = $1 AND user_id = $2
+       RETURNING id`,
+      [conversationId, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Turns of a conversation in order
+   */
+  static async getTurns(conversationId: string): Promise<ConversationTurn[]> {
+    const result = await query(
+      `SELECT ${TURN_COLUMNS}
+       FROM conversation_turns
+       WHERE conversation_id = $1
+       ORDER BY turn_number`,
+      [conversationId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Append turns after the last stored one
+   */
+  static async addTurns(conversation: Conversation, turns: TurnInput[]): Promise<ConversationTurn[]> {
+    // Embedded before the conversation is locked, so appends only wait on inserts
+    const embeddings = await this.embedTurns(turns);
+
+    return transaction(async run => {
+      // Concurrent appends take turns numbering after the last turn, and a
+      // failure leaves none of this request's turns behind
+      await run(`SELECT id FROM conversations WHERE id = $1 FOR UPDATE`, [conversation.id]);
+
+      const last = await run(
+        `SELECT COALESCE(MAX(turn_number), 0)::int AS last_turn
+         FROM conversation_turns WHERE conversation_id = $1`,
+        [conversation.id]
+      );
+
+      const inserted = await this.writeTurns(
+        run,
+        conversation.user_id,
+        conversation.id,
+        turns,
+        embeddings,
+        last.rows[0].last_turn + 1
+      );
+
+      // total_turns and last_message_at are kept by the update_conversation_stats trigger
+      await run(
+        `UPDATE conversations SET total_tokens = total_tokens + $2, is_active = true WHERE id = $1`,
+        [conversation.id, this.countTokens(turns)]
+      );
+
+      return inserted;
+    });
+  }
+
+  /**
+   * Mark a conversation complete, store its summary and topics and assign
+   * it to topic clusters. Closing again regenerates them from the current turns.
+   */
+  static async closeConversation(conversation: Conversation): Promise<Conversation> {
+    const turns = await this.getTurns(conversation.id);
+    const transcript = this.buildTranscript(turns);
+
+    let summary: string | null = null;
+    let topics: string[] = [];
+    let summaryEmbedding: number[] | null = null;
+    let topicEmbedding: number[] | null = null;
+
+    if (transcript) {
+      summary = await NLPService.summarize(transcript, SUMMARY_LENGTH);
+      topics = await NLPService.extractTopics(transcript);
+
+      const embeddings = await EmbeddingService.generateBatchEmbeddings(
+        topics.length > 0 ? [summary, topics.join(', ')] : [summary]
+      );
+      summaryEmbedding = embeddings[0];
+      topicEmbedding = embeddings[1] || null;
+    }
+
+    const result = await query(
+      `UPDATE conversations
+       SET is_complete = true,
+           is_active = false,
+           conversation_summary = $2,
+           primary_topics = $3,
+           summary_embedding = $4::vector,
+           topic_embedding = $5::vector,
+           embedding_model = $6,
+           title = COALESCE(title, $7),
+           summarized_through_turn = 0,
+           duration_minutes = GREATEST(ROUND(EXTRACT(EPOCH FROM (last_message_at - started_at)) / 60), 0)::int
+       WHERE id = $1
+       RETURNING ${CONVERSATION_COLUMNS}`,
+      [
+        conversation.id,
+        summary,
+        topics,
+        summaryEmbedding ? JSON.stringify(summaryEmbedding) : null,
+        topicEmbedding ? JSON.stringify(topicEmbedding) : null,
+        EmbeddingService.currentModel(),
+        turns.length > 0 ? this.titleFrom(turns[0].user_message) : null,
+      ]
+    );
+    const closed: Conversation = result.rows[0];
+
+    // The summary is stored either way; clustering can be redone by closing again
+    try {
+      await TopicClusteringService.assignConversation(closed);
+    } catch (error) {
+      console.error(`Error clustering topics of conversation ${closed.id}:`, error);
+    }
+
+    return closed;
+  }
+
+  /**
+   * Insert already embedded turns (see embedTurns), numbered from
+   * firstTurnNumber. Takes the runner of the caller's transaction.
+   */
+  static async writeTurns(
+    run: QueryRunner,
+    userId: string,
+    conversationId: string,
+    turns: TurnInput[],
+    embeddings: TurnEmbeddings[],
+    firstTurnNumber: number
+  ): Promise<ConversationTurn[]> {
+    const embeddingModel = EmbeddingService.currentModel();
+    const inserted: ConversationTurn[] = [];
+
+    for (let i = 0; i < turns.length; i++) {
+      const turn = turns[i];
+      const code = this.detectCode(`${turn.userMessage}\n${turn.assistantMessage}`);
+
+      const result = await run(
+        `INSERT INTO conversation_turns
+         (conversation_id, user_id, turn_number,
+          user_message, user_message_embedding, user_message_tokens,
+          assistant_message, assistant_message_embedding, assistant_message_tokens,
+          contains_code, code_languages, contains_image, embedding_model, timestamp)
+         VALUES ($1, $2, $3, $4, $5::vector, $6, $7, $8::vector, $9, $10, $11, $12, $13, COALESCE($14, NOW()))
+         RETURNING ${TURN_COLUMNS}`,
+        [
+          conversationId,
+          userId,
+          firstTurnNumber + i,
+          turn.userMessage,
+          embeddings[i].user ? JSON.stringify(embeddings[i].user) : null,
+          this.estimateTokens(turn.userMessage),
+          turn.assistantMessage,
+          embeddings[i].assistant ? JSON.stringify(embeddings[i].assistant) : null,
+          this.estimateTokens(turn.assistantMessage),
+          code.containsCode,
+          code.languages,
+          turn.containsImage || false,
+          embeddingModel,
+          turn.timestamp || null,
+        ]
+      );
+
+      if (result.rows[0]) {
+        inserted.push(result.rows[0]);
+      }
+    }
+
+    return inserted;
+  }
+
+  static countTokens(turns: TurnInput[]): number {
+    return turns.reduce(
+      (sum, turn) => sum + this.estimateTokens(turn.userMessage) + this.estimateTokens(turn.assistantMessage),
+      0
+    );
+  }
+
+  /**
+   * Default title of a conversation: its first message, on one line
+   */
+  static titleFrom(message: string): string {
+    return this.truncate(message, TITLE_LENGTH);
+  }
+
+  /**
+   * Rough token count (about 4 characters per token)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Embed every non-empty user and assistant message in one batch
+   */
+  static async embedTurns(turns: TurnInput[]): Promise<TurnEmbeddings[]> {
+    const texts: string[] = [];
+    const slots = turns.map(turn => ({
+      user: turn.userMessage.trim() ? texts.push(turn.userMessage) - 1 : -1,
+      assistant: turn.assistantMessage.trim() ? texts.push(turn.assistantMessage) - 1 : -1,
+    }));
+
+    const embeddings = texts.length > 0 ? await EmbeddingService.generateBatchEmbeddings(texts) : [];
+
+    return slots.map(slot => ({
+      user: slot.user >= 0 ? embeddings[slot.user] : null,
+      assistant: slot.assistant >= 0 ? embeddings[slot.assistant] : null,
+    }));
+  }
+
+  /**
+   * "User: ... / Assistant: ..." text of the turns, keeping the start and
+   * end of conversations too long to summarize whole
+   */
+  static buildTranscript(turns: ConversationTurn[]): string {
+    const transcript = turns
+      .map(turn => turn.assistant_message
+        ? `User: ${turn.user_message}\nAssistant: ${turn.assistant_message}`
+        : `User: ${turn.user_message}`)
+      .join('\n\n')
+      .trim();
+
+    if (transcript.length <= MAX_TRANSCRIPT_LENGTH) {
+      return transcript;
+    }
+
+    const half = MAX_TRANSCRIPT_LENGTH / 2;
+    return `${transcript.slice(0, half)}\n\n[...]\n\n${transcript.slice(-half)}`;
+  }
+
+  /**
+   * Find fenced code blocks and their languages
+   */
+  private static detectCode(text: string): { containsCode: boolean; languages: string[] } {
+    const fences = [...text.matchAll(/```([\w+#-]*)/g)];
+    const languages = new Set(
+      fences.map(match => match[1].toLowerCase()).filter(language => language.length > 0)
+    );
+
+    return { containsCode: fences.length > 0, languages: [...languages] };
+  }
+
+  private static truncate(text: string, maxLength: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length <= maxLength ? singleLine : `${singleLine.slice(0, maxLength - 3)}...`;
+  }
+}
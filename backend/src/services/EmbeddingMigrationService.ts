@@ -0,0 +1,231 @@
+import { query } from '../config/database';
+import { EmbeddingService } from './EmbeddingService';
+
+export interface ReembedOptions {
+  batchSize?: number;
+  dryRun?: boolean;
+  restart?: boolean; // ignore a saved cursor and start from the first memory
+  onProgress?: (progress: ReembedProgress) => void;
+}
+
+export interface ReembedProgress {
+  targetModel: string;
+  status: 'running' | 'completed' | 'failed' | 'dry-run';
+  total: number;
+  processed: number;
+  failed: number;
+  resumedFrom?: string;
+}
+
+export interface ReembedPlan {
+  targetModel: string;
+  pending: number;
+  byModel: Array<{ model: string | null; count: number }>;
+  batches: number;
+}
+
+/**
+ * Re-embeds memories whose embedding is missing or was produced by a
+ * different model than the active one. Progress is checkpointed per batch in
+ * embedding_migrations, so an interrupted run resumes where it stopped.
+ */
+export class EmbeddingMigrationService {
+  /**
+   * Describe what a run would do without touching any rows
+   */
+  static async plan(batchSize: number = 100): Promise<ReembedPlan> {
+    const targetModel = EmbeddingService.currentModel();
+
+    const result = await query(
+      `SELECT embedding_model AS model, COUNT(*)::int AS count
+       FROM memories
+       WHERE embedding IS NULL OR embedding_model IS DISTINCT FROM $1
+       GROUP BY embedding_model
+       ORDER BY count DESC`,
+      [targetModel]
+    );
+
+    const pending = result.rows.reduce((sum, row) => sum + row.count, 0);
+
+    return {
+      targetModel,
+      pending,
+      byModel: result.rows,
+      batches: Math.ceil(pending / batchSize),
+    };
+  }
+
+  /**
+   * Run (or resume) re-embedding into the active model
+   */
+  static async run(options: ReembedOptions = {}): Promise<ReembedProgress> {
+    const batchSize = Math.min(Math.max(options.batchSize || 100, 1), 500);
+    const targetModel = EmbeddingService.currentModel();
+
+    if (options.dryRun) {
+      const plan = await this.plan(batchSize);
+      return { targetModel, status: 'dry-run', total: plan.pending, processed: 0, failed: 0 };
+    }
+
+    const plan = await this.plan(batchSize);
+    const job = await this.startJob(targetModel, plan.pending, options.restart || false);
+
+    const progress: ReembedProgress = {
+      targetModel,
+      status: 'running',
+      total: job.total,
+      processed: job.processed,
+      failed: job.failed,
+      ...(job.last_memory_id ? { resumedFrom: job.last_memory_id } : {}),
+    };
+    let cursor: string | null = job.last_memory_id;
+
+    try {
+      while (true) {
+        // Long memories are embedded through their summary (see GraphService)
+        const batchResult = await query(
+          `SELECT id, COALESCE(metadata->>'summary', content) AS content FROM memories
+           WHERE (embedding IS NULL OR embedding_model IS DISTINCT FROM $1)
+             AND ($2::uuid IS NULL OR id > $2::uuid)
+           ORDER BY id
+           LIMIT $3`,
+          [targetModel, cursor, batchSize]
+        );
+
+        const batch = batchResult.rows;
+        if (batch.length === 0) break;
+
+        const failed = await this.reembedBatch(batch, targetModel);
+
+        cursor = batch[batch.length - 1].id;
+        progress.processed += batch.length - failed;
+        progress.failed += failed;
+
+        await query(
+          `UPDATE embedding_migrations
+           SET last_memory_id = $2, processed = $3, failed = $4, updated_at = NOW()
+           WHERE target_model = $1`,
+          [targetModel, cursor, progress.processed, progress.failed]
+        );
+
+        options.onProgress?.(progress);
+      }
+
+      progress.status = 'completed';
+      await query(
+        `UPDATE embedding_migrations
+         SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+         WHERE target_model = $1`,
+        [targetModel]
+      );
+    } catch (error) {
+      progress.status = 'failed';
+      await query(
+        `UPDATE embedding_migrations
+         SET status = 'failed', last_error = $2, updated_at = NOW()
+         WHERE target_model = $1`,
+        [targetModel, error instanceof Error ? error.message : String(error)]
+      );
+      throw error;
+    }
+
+    return progress;
+  }
+
+  /**
+   * Create or resume the job row for the target model.
+   * A completed job starts a fresh pass (picking up stragglers); an
+   * interrupted one keeps its cursor unless a restart is requested.
+   */
+  private static async startJob(
+    targetModel: string,
+    pending: number,
+    restart: boolean
+  ): Promise<{ last_memory_id: string | null; total: number; processed: number; failed: number }> {
+    const existing = await query(
+      `SELECT status, last_memory_id, total, processed, failed
+       FROM embedding_migrations WHERE target_model = $1`,
+      [targetModel]
+    );
+
+    const resumable = existing.rows.length > 0
+      && existing.rows[0].status !== 'completed'
+      && !restart;
+
+    if (resumable) {
+      await query(
+        `UPDATE embedding_migrations
+         SET status = 'running', last_error = NULL, updated_at = NOW()
+         WHERE target_model = $1`,
+        [targetModel]
+      );
+      return existing.rows[0];
+    }
+
+    await query(
+      `INSERT INTO embedding_migrations (target_model, status, total, processed, failed, last_memory_id)
+       VALUES ($1, 'running', $2, 0, 0, NULL)
+       ON CONFLICT (target_model) DO UPDATE SET
+         status = 'running',
+         total = EXCLUDED.total,
+         processed = 0,
+         failed = 0,
+         last_memory_id = NULL,
+         last_error = NULL,
+         started_at = NOW(),
+         updated_at = NOW(),
+         completed_at = NULL`,
+      [targetModel, pending]
+    );
+
+    return { last_memory_id: null, total: pending, processed: 0, failed: 0 };
+  }
+
+  /**
+   * Embed one batch and write the vectors back. Returns the number of
+   * memories that could not be embedded (they keep their old vector).
+   */
+  private static async reembedBatch(
+    batch: Array<{ id: string; content: string }>,
+    targetModel: string
+  ): Promise<number> {
+    let embeddings: Array<number[] | null>;
+
+    try {
+      embeddings = await EmbeddingService.generateBatchEmbeddings(batch.map(m => m.content));
+    } catch (error) {
+      // One bad input fails the whole provider call, so retry individually
+      console.error('Batch embedding failed, retrying one by one:', error);
+      embeddings = [];
+      for (const memory of batch) {
+        try {
+          embeddings.push(await EmbeddingService.generateEmbedding(memory.content));
+        } catch {
+          embeddings.push(null);
+        }
+      }
+    }
+
+    const ids: string[] = [];
+    const vectors: string[] = [];
+    embeddings.forEach((embedding, i) => {
+      if (embedding) {
+        ids.push(batch[i].id);
+        vectors.push(JSON.stringify(embedding));
+      }
+    });
+
+    if (ids.length > 0) {
+      await query(
+        `UPDATE memories m
+         SET embedding = t.embedding::vector,
+             embedding_model = $3
+         FROM unnest($1::uuid[], $2::text[]) AS t(id, embedding)
+         WHERE m.id = t.id`,
+        [ids, vectors, targetModel]
+      );
+    }
+
+    return batch.length - ids.length;
+  }
+}
@@ -1,14 +1,18 @@
-import OpenAI from 'openai';
+import crypto from 'crypto';
+import { query } from '../config/database';
 import { config } from '../config/env';
+import { getProvider } from '../providers';
 
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+const MAX_INPUT_LENGTH = 8000;
 
 /**
- * Service for generating vector embeddings using OpenAI
+ * Service for generating vector embeddings through the configured provider.
+ * Results are cached in embedding_cache keyed by (model, sha256(normalized text)).
  */
 export class EmbeddingService {
+  private static cacheHits = 0;
+  private static cacheMisses = 0;
+
   /**
    * Generate embedding for a single text
    */
@@ -18,13 +22,22 @@ export class EmbeddingService {
         throw new Error('Text cannot be empty');
       }
 
-      const response = await openai.embeddings.create({
-        model: config.embeddings.model,
-        input: text.substring(0, 8000), // Limit input length
-        encoding_format: 'float',
-      });
+      const input = text.substring(0, MAX_INPUT_LENGTH); // Limit input length
+      const model = this.currentModel();
+      const hash = this.hashText(input);
+
+      const cached = await this.readCache(model, [hash]);
+      const hit = cached.get(hash);
+      if (hit) {
+        this.cacheHits++;
+        return hit;
+      }
+      this.cacheMisses++;
+
+      const [embedding] = await getProvider().embed([input]);
+      await this.writeCache(model, [hash], [embedding]);
 
-      return response.data[0].embedding;
+      return embedding;
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw new Error('Failed to generate embedding');
@@ -32,7 +45,8 @@ export class EmbeddingService {
   }
 
   /**
-   * Generate embeddings for multiple texts in batch
+   * Generate embeddings for multiple texts in batch.
+   * Only cache misses are sent to the provider.
    */
   static async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
     try {
@@ -40,29 +54,133 @@ export class EmbeddingService {
         return [];
       }
 
-      // Process in batches of 100 (API limit)
+      const inputs = texts.map(t => t.substring(0, MAX_INPUT_LENGTH));
+      const model = this.currentModel();
+      const hashes = inputs.map(t => this.hashText(t));
+
+      const cached = await this.readCache(model, hashes);
+      const results: Array<number[] | undefined> = hashes.map(h => cached.get(h));
+      const missIndexes = results
+        .map((embedding, index) => (embedding ? -1 : index))
+        .filter(index => index !== -1);
+
+      this.cacheHits += texts.length - missIndexes.length;
+      this.cacheMisses += missIndexes.length;
+
+      // Process misses in batches of 100 (API limit)
       const batchSize = 100;
-      const results: number[][] = [];
 
-      for (let i = 0; i < texts.length; i += batchSize) {
-        const batch = texts.slice(i, i + batchSize);
+      for (let i = 0; i < missIndexes.length; i += batchSize) {
+        const batch = missIndexes.slice(i, i + batchSize);
 
-        const response = await openai.embeddings.create({
-          model: config.embeddings.model,
-          input: batch.map(t => t.substring(0, 8000)),
-          encoding_format: 'float',
-        });
+        const embeddings = await getProvider().embed(batch.map(index => inputs[index]));
 
-        results.push(...response.data.map(d => d.embedding));
+        batch.forEach((index, j) => {
+          results[index] = embeddings[j];
+        });
+        await this.writeCache(model, batch.map(index => hashes[index]), embeddings);
       }
 
-      return results;
+      return results as number[][];
     } catch (error) {
       console.error('Error generating batch embeddings:', error);
       throw new Error('Failed to generate batch embeddings');
     }
   }
 
+  /**
+   * Cache hit/miss counters since process start
+   */
+  static getCacheStats(): { enabled: boolean; hits: number; misses: number; hitRate: number } {
+    const total = this.cacheHits + this.cacheMisses;
+    return {
+      enabled: config.embeddings.cache,
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      hitRate: total > 0 ? this.cacheHits / total : 0,
+    };
+  }
+
+  /**
+   * Reset cache counters (used by tests)
+   */
+  static resetCacheStats(): void {
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+  }
+
+  /**
+   * Normalize text so trivially different copies share a cache entry
+   */
+  static normalizeText(text: string): string {
+    return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * sha256 hex of the normalized text
+   */
+  static hashText(text: string): string {
+    return crypto.createHash('sha256').update(this.normalizeText(text)).digest('hex');
+  }
+
+  /**
+   * Name of the embedding model the active provider uses
+   */
+  static currentModel(): string {
+    return getProvider().describe().embeddingModel;
+  }
+
+  /**
+   * Look up cached embeddings and bump their usage counters in one round trip.
+   * A cache failure never blocks embedding generation.
+   */
+  private static async readCache(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    if (!config.embeddings.cache || hashes.length === 0) {
+      return found;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE embedding_cache
+         SET hit_count = hit_count + 1,
+             last_used_at = NOW()
+         WHERE model = $1 AND content_hash = ANY($2::text[])
+         RETURNING content_hash, embedding::text AS embedding`,
+        [model, [...new Set(hashes)]]
+      );
+
+      for (const row of result.rows) {
+        found.set(row.content_hash, JSON.parse(row.embedding));
+      }
+    } catch (error) {
+      console.error('Embedding cache read failed:', error instanceof Error ? error.message : error);
+    }
+
+    return found;
+  }
+
+  /**
+   * Store freshly generated embeddings
+   */
+  private static async writeCache(model: string, hashes: string[], embeddings: number[][]): Promise<void> {
+    if (!config.embeddings.cache || hashes.length === 0) {
+      return;
+    }
+
+    try {
+      await query(
+        `INSERT INTO embedding_cache (model, content_hash, embedding)
+         SELECT $1, t.content_hash, t.embedding::vector
+         FROM unnest($2::text[], $3::text[]) AS t(content_hash, embedding)
+         ON CONFLICT (model, content_hash) DO NOTHING`,
+        [model, hashes, embeddings.map(e => JSON.stringify(e))]
+      );
+    } catch (error) {
+      console.error('Embedding cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
   /**
    * Calculate cosine similarity between two vectors
    */
@@ -0,0 +1,484 @@
+import { QueryRunner, query, transaction } from '../config/database';
+import { config } from '../config/env';
+import { EmbeddingService } from './EmbeddingService';
+import { ExtractedEntity } from './NLPService';
+import { RelationshipService } from './RelationshipService';
+
+export interface Entity {
+  id: string;
+  user_id: string;
+  entity_type: string;
+  entity_value: string;
+  normalized_value: string;
+  first_seen: Date;
+  last_seen: Date;
+  mention_count: number;
+}
+
+export interface EntityMention {
+  mention_id: string;
+  memory_id: string;
+  content: string;
+  content_type: string;
+  source_url: string | null;
+  memory_created_at: Date;
+  context: string | null;
+  position: number | null;
+}
+
+export interface EntityDetail extends Entity {
+  mentions: EntityMention[];
+}
+
+export interface CoOccurringEntity {
+  id: string;
+  entity_type: string;
+  entity_value: string;
+  mention_count: number;
+  shared_memories: number;
+  last_together: Date;
+}
+
+export type EntitySort = 'mention_count' | 'last_seen';
+
+export const ENTITY_SORTS: EntitySort[] = ['mention_count', 'last_seen'];
+
+export interface EntityListOptions {
+  entityType?: string;
+  sort?: EntitySort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EntityPageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface EntityMerge {
+  entity: Entity;
+  merged_ids: string[];
+  mentions_moved: number;
+}
+
+export interface ResolutionResult {
+  processed: number;
+  merged: number;
+}
+
+interface EntityName {
+  entity_type: string;
+  normalized_value: string;
+}
+
+interface EntityCandidate extends EntityName {
+  id: string;
+  similarity: number;
+}
+
+// Nearest entities checked for a name match when resolving
+const MATCH_CANDIDATES = 10;
+const CONTEXT_LENGTH = 300;
+// Memories whose entity relationships are rebuilt after a merge
+const MAX_RELINKED_MEMORIES = 100;
+
+// Columns returned to clients; the name embedding stays in the database
+const ENTITY_COLUMNS = `id, user_id, entity_type, entity_value, normalized_value, first_seen, last_seen, mention_count`;
+
+const ORDER_BY: Record<EntitySort, string> = {
+  mention_count: 'mention_count DESC, last_seen DESC, id',
+  last_seen: 'last_seen DESC, mention_count DESC, id',
+};
+
+/**
+ * Entities extracted on every save. Entities are unique per (type,
+ * normalized value); entity_mentions links each occurrence to the memory
+ * it was found in, with the surrounding text as context. Only active
+ * memories are shown as mentions.
+ *
+ * Variants of a name resolve to one canonical entity: each entity is
+ * embedded from its name and context, and a new name close enough to an
+ * existing entity is recorded in entity_aliases and its mentions stored on
+ * that entity. Entities can also be merged by hand.
+ */
+export class EntityService {
+  /**
+   * The canonical entity for an extracted entity, counting the mention:
+   * the entity or alias with the same name, else an entity similar enough
+   * (which gains the name as an alias), else a new entity
+   */
+  static async resolveEntity(userId: string, entity: ExtractedEntity): Promise<string | null> {
+    const name = { entity_type: entity.type, normalized_value: this.normalize(entity.value) };
+
+    const known = await query(
+      `SELECT id FROM entities WHERE user_id = $1 AND entity_type = $2 AND normalized_value = $3
+       UNION ALL
+       SELECT entity_id FROM entity_aliases WHERE user_id = $1 AND entity_type = $2 AND normalized_alias = $3
+       LIMIT 1`,
+      [userId, name.entity_type, name.normalized_value]
+    );
+
+    let entityId: string | undefined = known.rows[0]?.id;
+    let embedding: number[] | null = null;
+
+    if (!entityId) {
+      embedding = await this.embedName(entity.value, entity.context);
+      const match = embedding ? await this.findMatch(userId, name, embedding) : null;
+
+      if (match) {
+        await query(
+          `INSERT INTO entity_aliases (user_id, entity_id, entity_type, alias_value, normalized_alias, similarity)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (user_id, entity_type, normalized_alias) DO NOTHING`,
+          [userId, match.id, name.entity_type, entity.value, name.normalized_value, match.similarity]
+        );
+        entityId = match.id;
+      }
+    }
+
+    if (entityId) {
+      await query(
+        `UPDATE entities SET last_seen = NOW(), mention_count = mention_count + 1 WHERE id = $1`,
+        [entityId]
+      );
+      return entityId;
+    }
+
+    const inserted = await query(
+      `INSERT INTO entities (user_id, entity_type, entity_value, normalized_value, name_embedding, embedding_model)
+       VALUES ($1, $2, $3, $4, $5::vector, $6)
+       ON CONFLICT (user_id, entity_type, normalized_value)
+       DO UPDATE SET
+         last_seen = NOW(),
+         mention_count = entities.mention_count + 1
+       RETURNING id`,
+      [
+        userId,
+        name.entity_type,
+        entity.value,
+        name.normalized_value,
+        embedding ? JSON.stringify(embedding) : null,
+        embedding ? EmbeddingService.currentModel() : null
+      ]
+    );
+
+    return inserted.rows[0]?.id || null;
+  }
+
+  /**
+   * Resolution pass over entities not yet embedded with the current model
+   * (stored before resolution existed, or under an older model): each is
+   * merged into a matching entity or embedded for later matches. The most
+   * mentioned go first, so they become the canonical ones.
+   */
+  static async resolveEntities(userId: string, limit: number = 100): Promise<ResolutionResult> {
+    const model = EmbeddingService.currentModel();
+    const pending = await query(
+      `SELECT e.id, e.entity_type, e.entity_value, e.normalized_value,
+              (SELECT em.context FROM entity_mentions em
+               WHERE em.entity_id = e.id AND em.context IS NOT NULL
+               ORDER BY em.created_at LIMIT 1) AS context
+       FROM entities e
+       WHERE e.user_id = $1
+         AND (e.name_embedding IS NULL OR e.embedding_model IS DISTINCT FROM $2)
+       ORDER BY e.mention_count DESC, e.first_seen
+       LIMIT $3`,
+      [userId, model, limit]
+    );
+
+    let merged = 0;
+    for (const entity of pending.rows) {
+      const embedding = await EmbeddingService.generateEmbedding(this.describe(entity.entity_value, entity.context));
+      const match = await this.findMatch(userId, entity, embedding, entity.id);
+
+      if (match) {
+        await this.mergeEntities(userId, match.id, [entity.id], match.similarity);
+        merged++;
+      } else {
+        await query(
+          `UPDATE entities SET name_embedding = $2::vector, embedding_model = $3 WHERE id = $1`,
+          [entity.id, JSON.stringify(embedding), model]
+        );
+      }
+    }
+
+    return { processed: pending.rows.length, merged };
+  }
+
+  /**
+   * Merge entities into the target: mentions are repointed, mention
+   * counts summed and the merged names (and their aliases) become aliases
+   * of the target. Relationships of the memories that mentioned them are
+   * rebuilt, since they now share the target. It all happens in one
+   * transaction. Null unless every entity is the user's.
+   */
+  static async mergeEntities(
+    userId: string,
+    targetId: string,
+    sourceIds: string[],
+    similarity: number | null = null
+  ): Promise<EntityMerge | null> {
+    const ids = [...new Set(sourceIds.filter(id => id !== targetId))];
+
+    return transaction(async run => {
+      const owned = await run(
+        `SELECT id FROM entities WHERE user_id = $1 AND id = ANY($2::uuid[]) FOR UPDATE`,
+        [userId, [targetId, ...ids]]
+      );
+      if (ids.length === 0 || owned.rows.length !== ids.length + 1) {
+        return null;
+      }
+
+      await run(
+        `UPDATE entity_aliases SET entity_id = $1 WHERE entity_id = ANY($2::uuid[])`,
+        [targetId, ids]
+      );
+      await run(
+        `INSERT INTO entity_aliases (user_id, entity_id, entity_type, alias_value, normalized_alias, similarity)
+         SELECT user_id, $1, entity_type, entity_value, normalized_value, $3
+         FROM entities WHERE id = ANY($2::uuid[])
+         ON CONFLICT (user_id, entity_type, normalized_alias)
+         DO UPDATE SET entity_id = EXCLUDED.entity_id, similarity = EXCLUDED.similarity`,
+        [targetId, ids, similarity]
+      );
+
+      const moved = await run(
+        `UPDATE entity_mentions SET entity_id = $1 WHERE entity_id = ANY($2::uuid[]) RETURNING memory_id`,
+        [targetId, ids]
+      );
+
+      const merged = await run(
+        `UPDATE entities t
+         SET mention_count = t.mention_count + s.mention_count,
+             first_seen = LEAST(t.first_seen, s.first_seen),
+             last_seen = GREATEST(t.last_seen, s.last_seen)
+         FROM (
+           SELECT COALESCE(SUM(mention_count), 0)::int AS mention_count,
+                  MIN(first_seen) AS first_seen, MAX(last_seen) AS last_seen
+           FROM entities WHERE id = ANY($2::uuid[])
+         ) s
+         WHERE t.id = $1
+         RETURNING t.id, t.user_id, t.entity_type, t.entity_value, t.normalized_value,
+                   t.first_seen, t.last_seen, t.mention_count`,
+        [targetId, ids]
+      );
+
+      await run(`DELETE FROM entities WHERE id = ANY($1::uuid[])`, [ids]);
+
+      const memoryIds = [...new Set(moved.rows.map((row: { memory_id: string }) => row.memory_id))];
+      for (const memoryId of memoryIds.slice(0, MAX_RELINKED_MEMORIES)) {
+        await this.buildEntityRelationships(userId, memoryId, run);
+      }
+
+      return { entity: merged.rows[0], merged_ids: ids, mentions_moved: moved.rows.length };
+    });
+  }
+
+  /**
+   * Link a memory to memories that share entities with it. Mentions are
+   * stored on canonical entities, so variants of a name link too.
+   */
+  static async buildEntityRelationships(
+    userId: string,
+    memoryId: string,
+    run: QueryRunner = query
+  ): Promise<void> {
+    const result = await run(
+      `SELECT DISTINCT m.id, m.content
+       FROM memories m
+       JOIN entity_mentions em1 ON em1.memory_id = m.id
+       JOIN entity_mentions em2 ON em2.entity_id = em1.entity_id
+       WHERE em2.memory_id = $1
+         AND m.id != $1
+         AND m.user_id = $2
+       LIMIT 10`,
+      [memoryId, userId]
+    );
+
+    for (const related of result.rows) {
+      await RelationshipService.insertDerived(userId, memoryId, related.id, 'inferred', 0.6, {}, run);
+    }
+  }
+
+  /**
+   * The user's entities that are still mentioned somewhere
+   */
+  static async listEntities(userId: string, options: EntityListOptions = {}): Promise<Entity[]> {
+    const params: unknown[] = [userId, options.limit || 50, options.offset || 0];
+    let typeCondition = '';
+    if (options.entityType) {
+      params.push(options.entityType);
+      typeCondition = `AND entity_type = $${params.length}`;
+    }
+
+    const result = await query(
+      `SELECT ${ENTITY_COLUMNS}
+       FROM entities
+       WHERE user_id = $1
+         AND mention_count > 0
+         ${typeCondition}
+       ORDER BY ${ORDER_BY[options.sort || 'mention_count']}
+       LIMIT $2 OFFSET $3`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  static async getEntity(userId: string, entityId: string): Promise<Entity | null> {
+    const result = await query(
+      `SELECT ${ENTITY_COLUMNS} FROM entities WHERE id = $1 AND user_id = $2`,
+      [entityId, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * An entity with the memories that mention it, newest first
+   */
+  static async getEntityDetail(
+    userId: string,
+    entityId: string,
+    options: EntityPageOptions = {}
+  ): Promise<EntityDetail | null> {
+    const entity = await this.getEntity(userId, entityId);
+    if (!entity) {
+      return null;
+    }
+
+    const mentions = await query(
+      `SELECT em.id AS mention_id, m.id AS memory_id, m.content, m.content_type, m.source_url,
+              m.created_at AS memory_created_at, em.context, em.position
+       FROM entity_mentions em
+       JOIN memories m ON m.id = em.memory_id
+       WHERE em.entity_id = $1
+         AND m.user_id = $2
+         AND (m.is_archived = FALSE OR m.is_archived IS NULL)
+       ORDER BY m.created_at DESC, em.position NULLS LAST
+       LIMIT $3 OFFSET $4`,
+      [entityId, userId, options.limit || 50, options.offset || 0]
+    );
+
+    return {
+      ...entity,
+      mentions: mentions.rows,
+    };
+  }
+
+  /**
+   * Other entities mentioned in the same memories as this one, by how many
+   * memories they share with it. Null when the entity is not the user's.
+   */
+  static async getCoOccurrences(
+    userId: string,
+    entityId: string,
+    limit: number = 20
+  ): Promise<CoOccurringEntity[] | null> {
+    const entity = await this.getEntity(userId, entityId);
+    if (!entity) {
+      return null;
+    }
+
+    const result = await query(
+      `SELECT e.id, e.entity_type, e.entity_value, e.mention_count,
+              COUNT(DISTINCT m.id)::int AS shared_memories,
+              MAX(m.created_at) AS last_together
+       FROM entity_mentions own
+       JOIN memories m ON m.id = own.memory_id
+       JOIN entity_mentions other ON other.memory_id = own.memory_id AND other.entity_id <> own.entity_id
+       JOIN entities e ON e.id = other.entity_id
+       WHERE own.entity_id = $1
+         AND m.user_id = $2
+         AND (m.is_archived = FALSE OR m.is_archived IS NULL)
+       GROUP BY e.id, e.entity_type, e.entity_value, e.mention_count
+       ORDER BY shared_memories DESC, last_together DESC, e.id
+       LIMIT $3`,
+      [entityId, userId, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Names as stored in normalized_value and normalized_alias
+   */
+  static normalize(value: string): string {
+    return value.toLowerCase().trim();
+  }
+
+  /**
+   * The nearest entity that passes the threshold for how its name relates
+   * to this one
+   */
+  private static async findMatch(
+    userId: string,
+    name: EntityName,
+    embedding: number[],
+    excludeId?: string
+  ): Promise<EntityCandidate | null> {
+    const result = await query(
+      `SELECT id, entity_type, normalized_value, 1 - (name_embedding <=> $2::vector) AS similarity
+       FROM entities
+       WHERE user_id = $1
+         AND embedding_model = $3
+         AND name_embedding IS NOT NULL
+         AND ($4::uuid IS NULL OR id <> $4::uuid)
+       ORDER BY name_embedding <=> $2::vector
+       LIMIT $5`,
+      [userId, JSON.stringify(embedding), EmbeddingService.currentModel(), excludeId || null, MATCH_CANDIDATES]
+    );
+
+    return result.rows.find((candidate: EntityCandidate) =>
+      candidate.similarity >= this.matchThreshold(name, candidate)) || null;
+  }
+
+  /**
+   * Similarity two entities need to be resolved to one. Names that agree
+   * once decorations are dropped ("bob smith (manager)", or "OpenAI" as
+   * organization and as concept) or of which one extends the other ("Bob",
+   * "Bob Smith") need the alias threshold; other names of the same type
+   * the stricter match threshold. Different types need the same name.
+   */
+  private static matchThreshold(a: EntityName, b: EntityName): number {
+    const aWords = this.nameWords(a.normalized_value);
+    const bWords = this.nameWords(b.normalized_value);
+    const sameName = aWords.length > 0 && aWords.join(' ') === bWords.join(' ');
+
+    if (a.entity_type !== b.entity_type) {
+      return sameName ? config.entities.aliasThreshold : Infinity;
+    }
+
+    const [shorter, longer] = aWords.length <= bWords.length ? [aWords, bWords] : [bWords, aWords];
+    const oneExtendsOther = shorter.length > 0 && shorter.every(word => longer.includes(word));
+
+    return sameName || oneExtendsOther ? config.entities.aliasThreshold : config.entities.matchThreshold;
+  }
+
+  // Words of a name without parenthesized remarks and punctuation
+  private static nameWords(normalized: string): string[] {
+    return normalized
+      .replace(/\([^)]*\)/g, ' ')
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim()
+      .split(' ')
+      .filter(Boolean);
+  }
+
+  private static describe(value: string, context: string | null | undefined): string {
+    return context ? `${value}: ${context.slice(0, CONTEXT_LENGTH)}` : value;
+  }
+
+  /**
+   * Name embedding for resolution; without one the entity is stored
+   * unresolved and picked up by resolveEntities later
+   */
+  private static async embedName(value: string, context?: string): Promise<number[] | null> {
+    try {
+      return await EmbeddingService.generateEmbedding(this.describe(value, context));
+    } catch (error) {
+      console.error('Error embedding entity name:', error);
+      return null;
+    }
+  }
+}
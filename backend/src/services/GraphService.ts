@@ -1,7 +1,13 @@
-import { query } from '../config/database';
+import { QueryRunner, query } from '../config/database';
 import { EmbeddingService } from './EmbeddingService';
 import { NLPService } from './NLPService';
-import OpenAI from 'openai';
+import { ChunkingService } from './ChunkingService';
+import { TopicClusteringService } from './TopicClusteringService';
+import { EntityService } from './EntityService';
+import { RelationshipService } from './RelationshipService';
+import { MemoryFilters, memoryFilterConditions } from './MemoryFilters';
+import { ListCursor, SearchCursor, TOTAL_ESTIMATE_CAP, encodeCursor } from './Pagination';
+import { getProvider } from '../providers';
 import { config } from '../config/env';
 
 export interface Memory {
@@ -11,6 +17,7 @@ export interface Memory {
   content_type: string;
   source_url?: string;
   embedding: number[];
+  embedding_model?: string;
   metadata: any;
   importance_score: number;
   access_count: number;
@@ -22,6 +29,17 @@ export interface Memory {
   superseded_by?: string;
   archived_at?: Date;
   freshness?: number;
+  processing_status?: string; // processing, ready, failed, duplicate
+  parent_memory_id?: string | null; // set on chunks of a long memory
+  chunk_index?: number | null;
+  content_hash?: string | null;
+  version?: number; // incremented by every edit or revert
+  deduplicated?: DedupeInfo; // set when creation merged into an existing memory
+}
+
+export interface DedupeInfo {
+  type: 'exact' | 'near';
+  similarity: number;
 }
 
 export interface Relationship {
@@ -37,19 +55,93 @@ export interface Relationship {
 
 export interface SimilarMemory extends Memory {
   similarity: number;
+  matched_passage?: string; // best matching chunk when a long memory was hit
+  matched_chunk_index?: number;
+  keyword_rank?: number; // full-text rank (0-1) in keyword and hybrid search
+  score?: number; // reciprocal-rank fusion score in hybrid search
+}
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface MemoryUpdate {
+  content?: string;
+  content_type?: string;
+  tags?: string[];
+}
+
+export interface MemoryVersion {
+  id: string;
+  memory_id: string;
+  version: number;
+  content: string;
+  content_type: string;
+  metadata: any;
+  importance_score: number;
+  valid_from: Date;
+  replaced_at: Date;
 }
 
+export interface NewMemoryInput {
+  content: string;
+  source_url?: string;
+  content_type?: string;
+}
+
+export interface GraphNode extends Memory {
+  freshness?: number;
+  hop?: number; // distance from the requested memory (0 = the memory itself)
+}
+
+export interface GraphTraversalOptions {
+  minStrength?: number; // ignore weaker edges
+  relationshipTypes?: string[]; // only follow these relationship types
+  maxNodesPerHop?: number;
+}
+
+export interface MemoryPage {
+  memories: Memory[];
+  next_cursor: string | null;
+  total_estimate: number;
+}
+
+export interface SearchPage {
+  results: SimilarMemory[];
+  next_cursor: string | null;
+  total_estimate: number;
+}
+
+// Summary kept on long memories; it is what their own embedding is built from
+const SUMMARY_LENGTH = 500;
+
+// Reciprocal-rank fusion: a result scores 1 / (RRF_K + rank) in each list it
+// appears in; 60 is the constant from the original RRF paper
+const RRF_K = 60;
+
+// Search pages are re-ranked from the top, so paging stops this deep
+const MAX_SEARCH_DEPTH = 1000;
+
+// Hybrid paging fuses lists this many first pages deep (up to
+// MAX_SEARCH_DEPTH); the depth is kept in the cursor so every page fuses
+// the same lists
+const HYBRID_FUSION_PAGES = 10;
+
+// Graph neighborhoods keep this many memories per hop unless told otherwise
+const DEFAULT_NODES_PER_HOP = 25;
+
+// Temporal and causal links need at least this classifier confidence
+const MIN_CLASSIFIER_CONFIDENCE = 0.6;
+
+// Only neighbours this similar are worth a classifier call
+const MIN_CLASSIFY_SIMILARITY = 0.75;
+
 /**
  * Core service for managing the memory knowledge graph
  */
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
-
 export class GraphService {
   /**
-   * Create a new memory and automatically build relationships
+   * Create a new memory and automatically build relationships.
+   * A duplicate of an existing memory is merged into it instead (see
+   * mergeDuplicate); the returned memory then carries `deduplicated`.
    */
   static async createMemory(
     userId: string,
@@ -57,9 +149,39 @@ export class GraphService {
     sourceUrl?: string,
     contentType: string = 'text'
   ): Promise<Memory> {
+    // Long content is embedded through its summary; chunks carry the details
+    const summary = ChunkingService.needsChunking(content)
+      ? await NLPService.summarize(content, SUMMARY_LENGTH)
+      : undefined;
+
     // Generate embedding for semantic search
-    const embedding = await EmbeddingService.generateEmbedding(content);
+    const embedding = await EmbeddingService.generateEmbedding(summary || content);
+
+    const duplicate = await this.findDuplicate(userId, content, embedding);
+    if (duplicate) {
+      return this.mergeDuplicate(duplicate.id, sourceUrl, duplicate.info);
+    }
+
+    const memory = await this.createMemoryWithEmbedding(userId, content, embedding, sourceUrl, contentType, summary);
 
+    if (summary) {
+      await this.createChunks(memory);
+    }
+
+    return memory;
+  }
+
+  /**
+   * Enrich, store and relate a memory whose embedding is already known
+   */
+  private static async createMemoryWithEmbedding(
+    userId: string,
+    content: string,
+    embedding: number[],
+    sourceUrl?: string,
+    contentType?: string,
+    summary?: string
+  ): Promise<Memory> {
     // Categorize the memory and determine importance
     const { type, importance, tags } = await NLPService.categorizeMemory(content);
 
@@ -78,8 +200,8 @@ export class GraphService {
 
     // Insert memory into database with expiration date
     const result = await query(
-      `INSERT INTO memories (user_id, content, content_type, source_url, embedding, importance_score, metadata, expires_at)
-       VALUES ($1, $2, $3, $4, $5::vector, $6, $7, NOW() + INTERVAL '${retentionDays} days')
+      `INSERT INTO memories (user_id, content, content_type, source_url, embedding, embedding_model, importance_score, metadata, content_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5::vector, $6, $7, $8, $9, NOW() + INTERVAL '${retentionDays} days')
        RETURNING *`,
       [
         userId,
@@ -87,8 +209,10 @@ export class GraphService {
         contentType || type,
         sourceUrl,
         JSON.stringify(embedding),
+        EmbeddingService.currentModel(),
         importance,
-        JSON.stringify({ type, tags, entity_count: entities.length })
+        JSON.stringify({ type, tags, entity_count: entities.length, ...(summary ? { summary } : {}) }),
+        EmbeddingService.hashText(content)
       ]
     );
 
@@ -108,9 +232,354 @@ export class GraphService {
     // Build relationships with existing memories
     await this.buildRelationships(userId, memory, embedding);
 
+    // The memory is stored; clustering failing must not fail its creation
+    try {
+      await TopicClusteringService.assignMemory(memory);
+    } catch (error) {
+      console.error(`Error clustering topics of memory ${memory.id}:`, error);
+    }
+
     return memory;
   }
 
+  /**
+   * Insert a memory immediately, without enrichment. An embedding generated
+   * up front (batch submissions) is stored with it; the ingestion queue
+   * fills in the rest (see IngestionService).
+   */
+  static async insertPendingMemory(
+    userId: string,
+    content: string,
+    sourceUrl?: string,
+    contentType?: string,
+    embedding?: number[]
+  ): Promise<Memory> {
+    const userResult = await query(
+      `SELECT memory_retention_days FROM users WHERE id = $1`,
+      [userId]
+    );
+    const retentionDays = userResult.rows[0]?.memory_retention_days || 30;
+
+    const result = await query(
+      `INSERT INTO memories (user_id, content, content_type, source_url, metadata, processing_status, content_hash, expires_at,
+                             embedding, embedding_model)
+       VALUES ($1, $2, $3, $4, '{}', 'processing', $5, NOW() + make_interval(days => $6), $7::vector, $8)
+       RETURNING *`,
+      // content_type stays NULL until categorization fills it in
+      [
+        userId,
+        content,
+        contentType || null,
+        sourceUrl,
+        EmbeddingService.hashText(content),
+        retentionDays,
+        embedding ? JSON.stringify(embedding) : null,
+        embedding ? EmbeddingService.currentModel() : null
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Ingestion stage: generate and store the embedding, or reuse the one
+   * stored at submission if it is from the current model.
+   * Long content is summarized and split into chunk memories here too.
+   * Returns the existing memory this one nearly duplicates, if any; nothing
+   * is stored then and the caller folds the pending memory into it. Edited
+   * memories keep their identity and history, so they are never folded.
+   */
+  static async embedPendingMemory(memory: Memory): Promise<SimilarMemory | null> {
+    const summary = ChunkingService.needsChunking(memory.content)
+      ? await NLPService.summarize(memory.content, SUMMARY_LENGTH)
+      : undefined;
+    const stored = !summary && memory.embedding_model && memory.embedding_model === EmbeddingService.currentModel()
+      ? await this.getStoredEmbedding(memory.id)
+      : null;
+    const embedding = stored || await EmbeddingService.generateEmbedding(summary || memory.content);
+
+    const edited = (memory.version || 1) > 1;
+    const near = edited ? null : await this.findNearDuplicate(memory.user_id, embedding, memory.id);
+    if (near) {
+      return near;
+    }
+
+    await query(
+      `UPDATE memories
+       SET embedding = $2::vector, embedding_model = $3, metadata = metadata || $4::jsonb
+       WHERE id = $1`,
+      [
+        memory.id,
+        JSON.stringify(embedding),
+        EmbeddingService.currentModel(),
+        JSON.stringify(summary ? { summary } : {})
+      ]
+    );
+
+    if (summary) {
+      await this.createChunks(memory);
+    }
+
+    return null;
+  }
+
+  /**
+   * Fold a pending memory into the existing memory it duplicates: the
+   * existing one is reinforced and the pending one archived as superseded.
+   */
+  static async resolvePendingDuplicate(memory: Memory, existing: SimilarMemory): Promise<Memory> {
+    const merged = await this.mergeDuplicate(existing.id, memory.source_url, {
+      type: 'near',
+      similarity: existing.similarity
+    });
+
+    await this.archiveMemory(memory.id, existing.id, 'duplicate');
+    await this.setProcessingStatus(memory.id, 'duplicate');
+
+    return merged;
+  }
+
+  /**
+   * Exact duplicate: an active memory with the same normalized content
+   */
+  static async findExactDuplicate(userId: string, content: string): Promise<Memory | null> {
+    if (!config.dedupe.enabled) {
+      return null;
+    }
+
+    const result = await query(
+      `SELECT * FROM memories
+       WHERE user_id = $1
+         AND content_hash = $2
+         AND parent_memory_id IS NULL
+         AND (is_archived = FALSE OR is_archived IS NULL)
+       ORDER BY created_at
+       LIMIT 1`,
+      [userId, EmbeddingService.hashText(content)]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Near duplicate: an active memory above the dedupe similarity threshold
+   */
+  static async findNearDuplicate(
+    userId: string,
+    embedding: number[],
+    excludeId?: string
+  ): Promise<SimilarMemory | null> {
+    if (!config.dedupe.enabled) {
+      return null;
+    }
+
+    // One extra row in case the excluded memory is among the hits
+    const hits = await this.findSimilarMemories(userId, embedding, config.dedupe.threshold, 2);
+    return hits.find(hit => hit.id !== excludeId) || null;
+  }
+
+  /**
+   * Exact check first, then near check on the already generated embedding
+   */
+  private static async findDuplicate(
+    userId: string,
+    content: string,
+    embedding: number[]
+  ): Promise<{ id: string; info: DedupeInfo } | null> {
+    const exact = await this.findExactDuplicate(userId, content);
+    if (exact) {
+      return { id: exact.id, info: { type: 'exact', similarity: 1 } };
+    }
+
+    const near = await this.findNearDuplicate(userId, embedding);
+    if (near) {
+      return { id: near.id, info: { type: 'near', similarity: near.similarity } };
+    }
+
+    return null;
+  }
+
+  /**
+   * Record another sighting of an existing memory instead of storing a copy:
+   * count it as an access, raise its importance and remember the new source.
+   */
+  static async mergeDuplicate(
+    memoryId: string,
+    sourceUrl: string | undefined,
+    info: DedupeInfo
+  ): Promise<Memory> {
+    const result = await query(
+      `UPDATE memories
+       SET access_count = access_count + 1,
+           last_accessed = NOW(),
+           importance_score = LEAST(importance_score + $2, 1.0),
+           metadata = metadata || jsonb_build_object(
+             'source_urls', (
+               SELECT COALESCE(jsonb_agg(url), '[]'::jsonb)
+               FROM (
+                 SELECT jsonb_array_elements_text(COALESCE(metadata->'source_urls', '[]'::jsonb)) AS url
+                 UNION SELECT source_url
+                 UNION SELECT $3::text
+               ) urls
+               WHERE url IS NOT NULL
+             ),
+             'duplicate_count', COALESCE((metadata->>'duplicate_count')::int, 0) + 1
+           )
+       WHERE id = $1
+       RETURNING *`,
+      [memoryId, config.dedupe.importanceBoost, sourceUrl || null]
+    );
+
+    console.log(`Merged ${info.type} duplicate into memory ${memoryId}`);
+    return { ...result.rows[0], deduplicated: info };
+  }
+
+  /**
+   * Split a long memory into overlapping chunk memories, each with its own
+   * embedding and a part_of relationship to the parent. Existing chunks are
+   * replaced, so this is safe to retry.
+   */
+  private static async createChunks(parent: Memory): Promise<number> {
+    await query(`DELETE FROM memories WHERE parent_memory_id = $1`, [parent.id]);
+
+    const chunks = ChunkingService.split(parent.content);
+    const embeddings = await EmbeddingService.generateBatchEmbeddings(chunks);
+    const embeddingModel = EmbeddingService.currentModel();
+
+    for (let i = 0; i < chunks.length; i++) {
+      // Chunks inherit owner, source, importance and expiry from the parent
+      const inserted = await query(
+        `INSERT INTO memories
+         (user_id, content, content_type, source_url, embedding, embedding_model,
+          importance_score, metadata, parent_memory_id, chunk_index, expires_at)
+         SELECT p.user_id, $2, 'text', p.source_url, $3::vector, $4,
+                p.importance_score, $5::jsonb, p.id, $6, p.expires_at
+         FROM memories p
+         WHERE p.id = $1
+         RETURNING id`,
+        [
+          parent.id,
+          chunks[i],
+          JSON.stringify(embeddings[i]),
+          embeddingModel,
+          JSON.stringify({ chunk_count: chunks.length }),
+          i
+        ]
+      );
+
+      await query(
+        `INSERT INTO memory_relationships
+         (user_id, source_memory_id, target_memory_id, relationship_type, strength)
+         VALUES ($1, $2, $3, 'part_of', 1.0)
+         ON CONFLICT (source_memory_id, target_memory_id, relationship_type) DO NOTHING`,
+        [parent.user_id, inserted.rows[0].id, parent.id]
+      );
+    }
+
+    await query(
+      `UPDATE memories SET metadata = metadata || $2::jsonb WHERE id = $1`,
+      [parent.id, JSON.stringify({ chunk_count: chunks.length })]
+    );
+
+    return chunks.length;
+  }
+
+  /**
+   * Ingestion stage: categorize and score importance. A content_type or
+   * tags the user gave are kept.
+   */
+  static async categorizePendingMemory(memory: Memory): Promise<void> {
+    const { type, importance, tags } = await NLPService.categorizeMemory(memory.content);
+
+    await query(
+      `UPDATE memories
+       SET content_type = COALESCE(content_type, $2),
+           importance_score = $3,
+           metadata = metadata || jsonb_build_object('type', $2::text, 'tags', COALESCE(metadata->'tags', $4::jsonb))
+       WHERE id = $1`,
+      [memory.id, type, importance, JSON.stringify(tags)]
+    );
+  }
+
+  /**
+   * Ingestion stage: extract and link entities
+   */
+  static async extractPendingMemoryEntities(memory: Memory): Promise<void> {
+    const entities = await NLPService.extractEntities(memory.content);
+
+    // A retried stage must not double-count mentions
+    await this.removeEntityMentions(memory.id);
+
+    if (entities.length > 0) {
+      await this.storeEntities(memory.user_id, memory.id, entities);
+    }
+
+    await query(
+      `UPDATE memories SET metadata = metadata || $2::jsonb WHERE id = $1`,
+      [memory.id, JSON.stringify({ entity_count: entities.length })]
+    );
+  }
+
+  /**
+   * Ingestion stage: archive an older memory this one contradicts
+   */
+  static async resolvePendingMemoryContradictions(memory: Memory): Promise<void> {
+    const embedding = await this.getStoredEmbedding(memory.id);
+    if (!embedding) {
+      throw new Error('Memory has no embedding yet');
+    }
+
+    const contradictingMemory = await this.findContradictingMemory(
+      memory.user_id,
+      memory.content,
+      embedding,
+      memory.id
+    );
+
+    if (contradictingMemory) {
+      await this.archiveMemory(contradictingMemory.id, memory.id, 'superseded');
+      console.log(`Archived contradicting memory ${contradictingMemory.id}, superseded by ${memory.id}`);
+    }
+  }
+
+  /**
+   * Ingestion stage: link to similar and entity-sharing memories
+   */
+  static async buildPendingMemoryRelationships(memory: Memory): Promise<void> {
+    const embedding = await this.getStoredEmbedding(memory.id);
+    if (!embedding) {
+      throw new Error('Memory has no embedding yet');
+    }
+
+    await this.buildRelationships(memory.user_id, memory, embedding);
+  }
+
+  /**
+   * Mark a memory's processing state (processing, ready, failed, duplicate)
+   */
+  static async setProcessingStatus(memoryId: string, status: string): Promise<void> {
+    await query(
+      `UPDATE memories
+       SET processing_status = $2,
+           content_type = COALESCE(content_type, 'text')
+       WHERE id = $1`,
+      [memoryId, status]
+    );
+  }
+
+  /**
+   * Read a memory's stored embedding back as a number array
+   */
+  private static async getStoredEmbedding(memoryId: string): Promise<number[] | null> {
+    const result = await query(
+      `SELECT embedding::text AS embedding FROM memories WHERE id = $1`,
+      [memoryId]
+    );
+
+    const raw = result.rows[0]?.embedding;
+    return raw ? JSON.parse(raw) : null;
+  }
+
   /**
    * Store extracted entities and link them to the memory
    */
@@ -121,31 +590,15 @@ export class GraphService {
   ): Promise<void> {
     for (const entity of entities) {
       try {
-        // Upsert entity (insert or update if exists)
-        const entityResult = await query(
-          `INSERT INTO entities (user_id, entity_type, entity_value, normalized_value)
-           VALUES ($1, $2, $3, $4)
-           ON CONFLICT (user_id, entity_type, normalized_value)
-           DO UPDATE SET
-             last_seen = NOW(),
-             mention_count = mention_count + 1
-           RETURNING id`,
-          [
-            userId,
-            entity.type,
-            entity.value,
-            entity.value.toLowerCase().trim()
-          ]
-        );
+        // Resolve to the canonical entity (same name, alias or similar entity)
+        const entityId = await EntityService.resolveEntity(userId, entity);
 
         // Check if entity was returned
-        if (entityResult.rows.length === 0) {
+        if (!entityId) {
           console.error('Failed to create or retrieve entity');
           continue;
         }
 
-        const entityId = entityResult.rows[0].id;
-
         // Create entity mention
         await query(
           `INSERT INTO entity_mentions (entity_id, memory_id, context)
@@ -191,14 +644,6 @@ export class GraphService {
       if (conflict.hasConflict && conflict.confidence > 0.6) {
         relationshipType = 'contradicts';
         strength = conflict.confidence;
-
-        // Mark old memory as potentially outdated
-        await query(
-          `UPDATE memories
-           SET metadata = metadata || $2::jsonb
-           WHERE id = $1`,
-          [similar.id, JSON.stringify({ outdated: true, superseded_by: newMemory.id })]
-        );
       } else {
         // Determine relationship type based on similarity
         if (similar.similarity > 0.85) {
@@ -209,48 +654,61 @@ export class GraphService {
         strength = similar.similarity;
       }
 
-      // Create relationship (ignore if already exists)
-      await query(
-        `INSERT INTO memory_relationships
-         (user_id, source_memory_id, target_memory_id, relationship_type, strength)
-         VALUES ($1, $2, $3, $4, $5)
-         ON CONFLICT (source_memory_id, target_memory_id, relationship_type) DO NOTHING`,
-        [userId, newMemory.id, similar.id, relationshipType, strength]
+      // Create relationship (ignore if already exists or the user deleted it)
+      const created = await RelationshipService.insertDerived(
+        userId,
+        newMemory.id,
+        similar.id,
+        relationshipType,
+        strength
       );
+
+      if (relationshipType === 'contradicts') {
+        // Mark old memory as potentially outdated
+        if (created) {
+          await query(
+            `UPDATE memories
+             SET metadata = metadata || $2::jsonb
+             WHERE id = $1`,
+            [similar.id, JSON.stringify({ outdated: true, superseded_by: newMemory.id })]
+          );
+        }
+      } else if (similar.similarity >= MIN_CLASSIFY_SIMILARITY) {
+        await this.buildTemporalCausalRelationship(userId, similar, newMemory);
+      }
     }
 
     // Build entity-based relationships
-    await this.buildEntityRelationships(userId, newMemory.id);
+    await EntityService.buildEntityRelationships(userId, newMemory.id);
   }
 
   /**
-   * Find memories that share entities with the given memory
+   * Link two related memories as temporal (source happened before target)
+   * or causal (source led to target) when the classifier is confident,
+   * keeping its explanation in the relationship metadata
    */
-  private static async buildEntityRelationships(
+  private static async buildTemporalCausalRelationship(
     userId: string,
-    memoryId: string
+    existing: Memory,
+    newMemory: Memory
   ): Promise<void> {
-    const result = await query(
-      `SELECT DISTINCT m.id, m.content
-       FROM memories m
-       JOIN entity_mentions em1 ON em1.memory_id = m.id
-       JOIN entity_mentions em2 ON em2.entity_id = em1.entity_id
-       WHERE em2.memory_id = $1
-         AND m.id != $1
-         AND m.user_id = $2
-       LIMIT 10`,
-      [memoryId, userId]
+    const relation = await NLPService.classifyRelationship(
+      { content: existing.content, created_at: existing.created_at },
+      { content: newMemory.content, created_at: newMemory.created_at }
     );
 
-    for (const related of result.rows) {
-      await query(
-        `INSERT INTO memory_relationships
-         (user_id, source_memory_id, target_memory_id, relationship_type, strength)
-         VALUES ($1, $2, $3, $4, $5)
-         ON CONFLICT (source_memory_id, target_memory_id, relationship_type) DO NOTHING`,
-        [userId, memoryId, related.id, 'inferred', 0.6]
-      );
+    if (relation.type === 'none' || relation.confidence < MIN_CLASSIFIER_CONFIDENCE) {
+      return;
     }
+
+    const [source, target] = relation.direction === 'forward'
+      ? [existing.id, newMemory.id]
+      : [newMemory.id, existing.id];
+
+    await RelationshipService.insertDerived(userId, source, target, relation.type, relation.confidence, {
+      metadata: { explanation: relation.explanation || null },
+      refresh: true,
+    });
   }
 
   /**
@@ -259,7 +717,8 @@ export class GraphService {
   private static async findContradictingMemory(
     userId: string,
     content: string,
-    embedding: number[]
+    embedding: number[],
+    excludeId?: string
   ): Promise<SimilarMemory | null> {
     // Find similar memories with lower threshold for broader search
     const similarMemories = await this.findSimilarMemories(
@@ -271,6 +730,8 @@ export class GraphService {
 
     // Use LLM to reason about potential contradictions
     for (const memory of similarMemories) {
+      if (memory.id === excludeId) continue;
+
       try {
         const prompt = `You are a contradiction detector. Your ONLY job is to determine if two statements contradict each other.
 
@@ -296,16 +757,16 @@ CONTRADICTS: [YES/NO]
 CONFIDENCE: [0.0-1.0]
 REASON: [one sentence explanation]`;
 
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
+        const response = await getProvider().chatCompletion({
+          task: 'contradiction_check',
+          input: { existing: memory.content, incoming: content },
           messages: [{ role: 'user', content: prompt }],
           temperature: 0,
-          max_tokens: 100
-        }, {
+          maxTokens: 100,
           timeout: 10000 // 10 second timeout
         });
 
-        const answer = response.choices[0].message.content?.trim() || '';
+        const answer = response.trim();
 
         // Parse the response
         const contradictMatch = answer.match(/CONTRADICTS:\s*(YES|NO)/i);
@@ -380,54 +841,345 @@ REASON: [one sentence explanation]`;
   }
 
   /**
-   * Find similar memories using vector similarity search
+   * Find similar memories using vector similarity search.
+   * Only memories embedded by the same model are compared, so a half-finished
+   * re-embedding run never mixes vector spaces. Chunks of long memories are
+   * left out unless asked for (see collapseChunkHits).
    */
   static async findSimilarMemories(
     userId: string,
     embedding: number[],
     threshold: number = 0.7,
-    limit: number = 10
+    limit: number = 10,
+    embeddingModel: string = EmbeddingService.currentModel(),
+    includeChunks: boolean = false,
+    filters: MemoryFilters = {}
   ): Promise<SimilarMemory[]> {
+    const params: unknown[] = [JSON.stringify(embedding), userId, threshold, limit, embeddingModel];
+
     const result = await query(
       `SELECT
          id, user_id, content, content_type, source_url,
          metadata, importance_score, access_count, last_accessed,
-         created_at, updated_at,
+         created_at, updated_at, embedding_model, parent_memory_id, chunk_index,
          1 - (embedding <=> $1::vector) as similarity
        FROM memories
        WHERE user_id = $2
+         AND embedding_model = $5
          AND 1 - (embedding <=> $1::vector) > $3
-         AND (is_archived = FALSE OR is_archived IS NULL)
+         AND ${this.filterOnParent('memories', filters, params)}
+         ${includeChunks ? '' : 'AND parent_memory_id IS NULL'}
        ORDER BY embedding <=> $1::vector
        LIMIT $4`,
-      [JSON.stringify(embedding), userId, threshold, limit]
+      params
     );
 
     return result.rows as SimilarMemory[];
   }
 
   /**
-   * Semantic search across all user memories
+   * Search across all user memories: by embedding (vector), by full text
+   * (keyword) or both fused by rank (hybrid)
    */
   static async searchMemories(
     userId: string,
     queryText: string,
-    limit: number = 10
+    limit: number = 10,
+    mode: SearchMode = 'vector',
+    filters: MemoryFilters = {}
   ): Promise<SimilarMemory[]> {
+    if (mode === 'keyword') {
+      return this.searchMemoriesByKeyword(userId, queryText, limit, undefined, filters);
+    }
+
     const embedding = await EmbeddingService.generateEmbedding(queryText);
-    // Lower threshold to 0.0 to return all results, sorted by relevance
-    return this.findSimilarMemories(userId, embedding, 0.0, limit);
+
+    if (mode === 'hybrid') {
+      return this.hybridSearch(userId, queryText, embedding, limit, filters);
+    }
+
+    return this.searchMemoriesByEmbedding(userId, embedding, limit, filters);
   }
 
   /**
-   * Get the complete memory graph (nodes and edges)
+   * Full-text search on memory content, best text rank first. Catches exact
+   * terms (ticket numbers, names, error codes) that embeddings blur. With an
+   * embedding, similarity is the cosine similarity to it; otherwise it is
+   * the text rank. fetchLimit is how many rows are read before chunks
+   * collapse into their parents.
+   */
+  static async searchMemoriesByKeyword(
+    userId: string,
+    queryText: string,
+    limit: number = 10,
+    embedding?: number[],
+    filters: MemoryFilters = {},
+    fetchLimit: number = limit * 3
+  ): Promise<SimilarMemory[]> {
+    const params: unknown[] = embedding
+      ? [userId, queryText, fetchLimit, EmbeddingService.currentModel(), JSON.stringify(embedding)]
+      : [userId, queryText, fetchLimit];
+    const similarity = embedding
+      ? `CASE WHEN m.embedding_model = $4 THEN 1 - (m.embedding <=> $5::vector) ELSE 0 END`
+      : `ts_rank_cd(m.content_tsv, q, 32)`;
+
+    const result = await query(
+      `SELECT
+         m.id, m.user_id, m.content, m.content_type, m.source_url,
+         m.metadata, m.importance_score, m.access_count, m.last_accessed,
+         m.created_at, m.updated_at, m.embedding_model, m.parent_memory_id, m.chunk_index,
+         ts_rank_cd(m.content_tsv, q, 32) AS keyword_rank,
+         ${similarity} AS similarity
+       FROM memories m, websearch_to_tsquery('english', $2) q
+       WHERE m.user_id = $1
+         AND m.content_tsv @@ q
+         AND ${this.filterOnParent('m', filters, params)}
+       ORDER BY keyword_rank DESC
+       LIMIT $3`,
+      params
+    );
+
+    const collapsed = await this.collapseChunkHits(userId, result.rows, hit => hit.keyword_rank || 0);
+    return collapsed.slice(0, limit);
+  }
+
+  /**
+   * Vector and keyword results fused by reciprocal rank. Ranks rather than
+   * scores are combined, since cosine similarity and text rank are on
+   * unrelated scales; a memory found both ways outranks one found once.
+   * Each list is listDepth rows read, with no over-fetch for chunks. Fused
+   * scores depend on how deep each list goes, so callers comparing scores
+   * across calls pass a fixed listDepth.
+   */
+  private static async hybridSearch(
+    userId: string,
+    queryText: string,
+    embedding: number[],
+    limit: number,
+    filters: MemoryFilters,
+    listDepth: number = limit * 2
+  ): Promise<SimilarMemory[]> {
+    const [vectorHits, keywordHits] = await Promise.all([
+      this.searchMemoriesByEmbedding(userId, embedding, listDepth, filters, listDepth),
+      this.searchMemoriesByKeyword(userId, queryText, listDepth, embedding, filters, listDepth),
+    ]);
+
+    const fused = new Map<string, SimilarMemory>();
+    for (const hits of [vectorHits, keywordHits]) {
+      hits.forEach((hit, rank) => {
+        const existing = fused.get(hit.id);
+        fused.set(hit.id, {
+          ...hit,
+          ...existing,
+          keyword_rank: existing?.keyword_rank ?? hit.keyword_rank,
+          matched_passage: existing?.matched_passage ?? hit.matched_passage,
+          matched_chunk_index: existing?.matched_chunk_index ?? hit.matched_chunk_index,
+          score: (existing?.score || 0) + 1 / (RRF_K + rank + 1),
+        });
+      });
+    }
+
+    return [...fused.values()]
+      .sort((a, b) => (b.score || 0) - (a.score || 0) || b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Semantic search with an already embedded query
+   */
+  static async searchMemoriesByEmbedding(
+    userId: string,
+    embedding: number[],
+    limit: number = 10,
+    filters: MemoryFilters = {},
+    fetchLimit: number = limit * 3
+  ): Promise<SimilarMemory[]> {
+    // Lower threshold to 0.0 to return all results, sorted by relevance.
+    // Over-fetch by default, since several chunk hits can collapse into one parent.
+    const hits = await this.findSimilarMemories(userId, embedding, 0.0, fetchLimit, undefined, true, filters);
+    const collapsed = await this.collapseChunkHits(userId, hits);
+    return collapsed.slice(0, limit);
+  }
+
+  /**
+   * One page of search results, continuing after the cursor's position.
+   * Results are ordered by the mode's score (fused score, text rank or
+   * similarity), ties by id. Each page re-ranks from the top and skips
+   * what came before, so results collapsed from chunks keep their best
+   * score on every page. Hybrid pages fuse lists as deep as the first
+   * page chose (HYBRID_FUSION_PAGES of its size), carried in the cursor, so
+   * a result's fused score does not change from page to page and paging
+   * ends once those lists are used up.
+   */
+  static async searchMemoriesPage(
+    userId: string,
+    queryText: string,
+    limit: number = 10,
+    mode: SearchMode = 'vector',
+    filters: MemoryFilters = {},
+    cursor?: SearchCursor
+  ): Promise<SearchPage> {
+    const depth = cursor?.depth || 0;
+    const total_estimate = await this.countSearchable(userId, filters, mode === 'keyword' ? queryText : undefined);
+
+    if (depth >= MAX_SEARCH_DEPTH) {
+      return { results: [], next_cursor: null, total_estimate };
+    }
+
+    const scoreOf = (memory: SimilarMemory) =>
+      mode === 'hybrid' ? memory.score || 0
+        : mode === 'keyword' ? memory.keyword_rank || 0
+          : memory.similarity;
+
+    const needed = Math.min(depth + limit + 1, MAX_SEARCH_DEPTH);
+    const fusionDepth = Math.min(cursor?.fusion_depth || limit * HYBRID_FUSION_PAGES, MAX_SEARCH_DEPTH);
+    const candidates = mode === 'hybrid'
+      ? await this.hybridSearch(
+        userId,
+        queryText,
+        await EmbeddingService.generateEmbedding(queryText),
+        needed,
+        filters,
+        fusionDepth
+      )
+      : await this.searchMemories(userId, queryText, needed, mode, filters);
+
+    const remaining = candidates
+      .sort((a, b) => scoreOf(b) - scoreOf(a) || a.id.localeCompare(b.id))
+      .filter(memory => !cursor
+        || scoreOf(memory) < cursor.score
+        || (scoreOf(memory) === cursor.score && memory.id > cursor.id));
+
+    const results = remaining.slice(0, limit);
+    const last = results[results.length - 1];
+
+    return {
+      results,
+      next_cursor: remaining.length > limit && depth + limit < MAX_SEARCH_DEPTH
+        ? encodeCursor({
+          score: scoreOf(last),
+          id: last.id,
+          depth: depth + results.length,
+          ...(mode === 'hybrid' ? { fusion_depth: fusionDepth } : {}),
+        })
+        : null,
+      total_estimate,
+    };
+  }
+
+  /**
+   * How many memories a search can return: those matching the filters
+   * (and, in keyword mode, the words), counted up to TOTAL_ESTIMATE_CAP
+   */
+  private static async countSearchable(
+    userId: string,
+    filters: MemoryFilters,
+    keywordQuery?: string
+  ): Promise<number> {
+    const params: unknown[] = [userId, TOTAL_ESTIMATE_CAP];
+    if (keywordQuery) params.push(keywordQuery);
+    const conditions = memoryFilterConditions(filters, params, 'm', 'active');
+
+    const result = await query(
+      `SELECT COUNT(*)::int AS total FROM (
+         SELECT 1 FROM memories m
+         WHERE m.user_id = $1
+           AND m.parent_memory_id IS NULL
+           ${keywordQuery ? `AND m.content_tsv @@ websearch_to_tsquery('english', $3)` : ''}
+           ${conditions}
+         LIMIT $2
+       ) capped`,
+      params
+    );
+
+    return result.rows[0].total;
+  }
+
+  /**
+   * Condition applying the filters to a search candidate: a chunk is judged
+   * by its parent (which holds the metadata), any other memory by itself.
+   * Archived memories are left out unless the filters ask for them.
+   */
+  private static filterOnParent(alias: string, filters: MemoryFilters, params: unknown[]): string {
+    return `EXISTS (SELECT 1 FROM memories f
+                    WHERE f.id = COALESCE(${alias}.parent_memory_id, ${alias}.id)
+                    ${memoryFilterConditions(filters, params, 'f', 'active')})`;
+  }
+
+  /**
+   * Replace chunk hits with their parent memory, keeping the best score and
+   * the matching passage. Results stay ordered by score (similarity unless
+   * told otherwise).
+   */
+  private static async collapseChunkHits(
+    userId: string,
+    hits: SimilarMemory[],
+    scoreOf: (hit: SimilarMemory) => number = hit => hit.similarity
+  ): Promise<SimilarMemory[]> {
+    const parentIds = [...new Set(
+      hits.filter(hit => hit.parent_memory_id).map(hit => hit.parent_memory_id as string)
+    )];
+    if (parentIds.length === 0) {
+      return hits;
+    }
+
+    // Hits were already filtered on their parent (archived ones included)
+    const parentsResult = await query(
+      `SELECT id, user_id, content, content_type, source_url,
+              metadata, importance_score, access_count, last_accessed,
+              created_at, updated_at, embedding_model, parent_memory_id, chunk_index
+       FROM memories
+       WHERE id = ANY($1::uuid[])
+         AND user_id = $2`,
+      [parentIds, userId]
+    );
+    const parents = new Map<string, Memory>(parentsResult.rows.map((row: Memory) => [row.id, row]));
+
+    const collapsed = new Map<string, SimilarMemory>();
+    for (const hit of hits) {
+      const parentId = hit.parent_memory_id;
+      if (!parentId) {
+        const existing = collapsed.get(hit.id);
+        if (!existing || scoreOf(existing) < scoreOf(hit)) {
+          collapsed.set(hit.id, { ...existing, ...hit });
+        }
+        continue;
+      }
+
+      const parent = parents.get(parentId);
+      if (!parent) continue; // deleted meanwhile
+
+      const existing = collapsed.get(parentId);
+      if (!existing || scoreOf(existing) < scoreOf(hit)) {
+        collapsed.set(parentId, {
+          ...parent,
+          similarity: hit.similarity,
+          ...(hit.keyword_rank !== undefined && { keyword_rank: hit.keyword_rank }),
+          matched_passage: hit.content,
+          matched_chunk_index: hit.chunk_index ?? undefined,
+        });
+      } else if (!existing.matched_passage) {
+        // The parent's summary scored higher; still show where the text matched
+        existing.matched_passage = hit.content;
+        existing.matched_chunk_index = hit.chunk_index ?? undefined;
+      }
+    }
+
+    return [...collapsed.values()].sort((a, b) => scoreOf(b) - scoreOf(a));
+  }
+
+  /**
+   * Get the memory graph (nodes and edges): the N-hop neighborhood of a
+   * memory, or the user's top memories when no memory is given. Edges can
+   * be limited to a minimum strength and to some relationship types.
    */
   static async getMemoryGraph(
     userId: string,
     memoryId?: string,
-    _depth: number = 2
-  ): Promise<{ nodes: Memory[], edges: Relationship[] }> {
-    let nodes: Memory[] = [];
+    depth: number = 2,
+    options: GraphTraversalOptions = {}
+  ): Promise<{ nodes: GraphNode[], edges: Relationship[] }> {
+    let nodes: GraphNode[] = [];
     let edges: Relationship[] = [];
 
     // Get user's retention settings for freshness calculation
@@ -437,64 +1189,63 @@ REASON: [one sentence explanation]`;
     );
     const retentionDays = userResult.rows[0]?.memory_retention_days || 30;
 
+    const minStrength = options.minStrength ?? 0;
+    const relationshipTypes = options.relationshipTypes?.length ? options.relationshipTypes : null;
+
     if (memoryId) {
-      // Get specific memory and its connected nodes
-      const memoryResult = await query(
-        `SELECT *,
-                calculate_memory_freshness(created_at, $2) as freshness
-         FROM memories
-         WHERE id = $1 AND user_id = $3 AND (is_archived = FALSE OR is_archived IS NULL)`,
-        [memoryId, retentionDays, userId]
+      // Hop distance of every memory within `depth` hops, following edges
+      // both ways between active top-level memories. UNION keeps one row
+      // per (memory, hop), so the walk stays bounded on cyclic graphs.
+      const walkResult = await query(
+        `WITH RECURSIVE edges AS (
+           SELECT mr.source_memory_id, mr.target_memory_id
+           FROM memory_relationships mr
+           JOIN memories s ON s.id = mr.source_memory_id
+           JOIN memories t ON t.id = mr.target_memory_id
+           WHERE mr.user_id = $1
+             AND mr.strength >= $4
+             AND ($5::text[] IS NULL OR mr.relationship_type = ANY($5::text[]))
+             AND (s.is_archived = FALSE OR s.is_archived IS NULL) AND s.parent_memory_id IS NULL
+             AND (t.is_archived = FALSE OR t.is_archived IS NULL) AND t.parent_memory_id IS NULL
+         ),
+         walk(memory_id, hop) AS (
+           SELECT id, 0 FROM memories
+           WHERE id = $2 AND user_id = $1 AND (is_archived = FALSE OR is_archived IS NULL)
+           UNION
+           SELECT CASE WHEN e.source_memory_id = w.memory_id THEN e.target_memory_id ELSE e.source_memory_id END,
+                  w.hop + 1
+           FROM walk w
+           JOIN edges e ON w.memory_id IN (e.source_memory_id, e.target_memory_id)
+           WHERE w.hop < $3
+         )
+         SELECT memory_id, MIN(hop) AS hop FROM walk GROUP BY memory_id`,
+        [userId, memoryId, depth, minStrength, relationshipTypes]
       );
 
-      if (memoryResult.rows.length === 0) {
+      if (walkResult.rows.length === 0) {
         return { nodes: [], edges: [] };
       }
 
-      nodes.push(memoryResult.rows[0]);
-
-      // Get relationships
-      const relationshipsResult = await query(
-        `SELECT mr.*,
-                m1.content as source_content,
-                m2.content as target_content
-         FROM memory_relationships mr
-         JOIN memories m1 ON m1.id = mr.source_memory_id
-         JOIN memories m2 ON m2.id = mr.target_memory_id
-         WHERE (mr.source_memory_id = $1 OR mr.target_memory_id = $1)
-           AND mr.user_id = $2
-           AND (m1.is_archived = FALSE OR m1.is_archived IS NULL)
-           AND (m2.is_archived = FALSE OR m2.is_archived IS NULL)
-         ORDER BY mr.strength DESC`,
-        [memoryId, userId]
+      const hops = new Map<string, number>(
+        walkResult.rows.map((row: { memory_id: string; hop: number }) => [row.memory_id, Number(row.hop)])
       );
 
-      edges = relationshipsResult.rows;
+      const candidateEdges = await this.getEdgesBetween(userId, [...hops.keys()], minStrength, relationshipTypes);
+      const kept = this.limitPerHop(hops, candidateEdges, options.maxNodesPerHop ?? DEFAULT_NODES_PER_HOP);
 
-      // Add connected nodes
-      const connectedIds = new Set<string>();
-      for (const edge of edges) {
-        if (edge.source_memory_id !== memoryId && !connectedIds.has(edge.source_memory_id)) {
-          connectedIds.add(edge.source_memory_id);
-          const node = await query(
-            `SELECT *, calculate_memory_freshness(created_at, $2) as freshness
-             FROM memories
-             WHERE id = $1 AND (is_archived = FALSE OR is_archived IS NULL)`,
-            [edge.source_memory_id, retentionDays]
-          );
-          if (node.rows.length > 0) nodes.push(node.rows[0]);
-        }
-        if (edge.target_memory_id !== memoryId && !connectedIds.has(edge.target_memory_id)) {
-          connectedIds.add(edge.target_memory_id);
-          const node = await query(
-            `SELECT *, calculate_memory_freshness(created_at, $2) as freshness
-             FROM memories
-             WHERE id = $1 AND (is_archived = FALSE OR is_archived IS NULL)`,
-            [edge.target_memory_id, retentionDays]
-          );
-          if (node.rows.length > 0) nodes.push(node.rows[0]);
-        }
-      }
+      edges = candidateEdges.filter(edge => kept.has(edge.source_memory_id) && kept.has(edge.target_memory_id));
+
+      // All nodes in one round trip
+      const nodesResult = await query(
+        `SELECT *, calculate_memory_freshness(created_at, $2) as freshness
+         FROM memories
+         WHERE id = ANY($1::uuid[])`,
+        [[...kept], retentionDays]
+      );
+
+      nodes = nodesResult.rows
+        .map((node: Memory) => ({ ...node, hop: hops.get(node.id)! }))
+        .sort((a: GraphNode, b: GraphNode) => a.hop! - b.hop!);
     } else {
       // Get all active (non-archived) user memories with freshness
       const memoriesResult = await query(
@@ -504,6 +1255,7 @@ REASON: [one sentence explanation]`;
          FROM memories
          WHERE user_id = $1
            AND (is_archived = FALSE OR is_archived IS NULL)
+           AND parent_memory_id IS NULL
          ORDER BY importance_score DESC, created_at DESC
          LIMIT 100`,
         [userId, retentionDays]
@@ -514,16 +1266,7 @@ REASON: [one sentence explanation]`;
       // Get relationships between these memories
       if (nodes.length > 0) {
         const memoryIds = nodes.map(n => n.id);
-        const relationshipsResult = await query(
-          `SELECT * FROM memory_relationships
-           WHERE user_id = $1
-             AND source_memory_id = ANY($2::uuid[])
-             AND target_memory_id = ANY($2::uuid[])
-           ORDER BY strength DESC`,
-          [userId, memoryIds]
-        );
-
-        edges = relationshipsResult.rows;
+        edges = await this.getEdgesBetween(userId, memoryIds, minStrength, relationshipTypes);
       }
     }
 
@@ -531,23 +1274,118 @@ REASON: [one sentence explanation]`;
   }
 
   /**
-   * Get recent memories for a user
+   * Relationships among a set of memories, strongest first
    */
-  static async getRecentMemories(
+  private static async getEdgesBetween(
     userId: string,
-    limit: number = 20
-  ): Promise<Memory[]> {
+    memoryIds: string[],
+    minStrength: number,
+    relationshipTypes: string[] | null
+  ): Promise<Relationship[]> {
     const result = await query(
-      `SELECT * FROM memories
+      `SELECT * FROM memory_relationships
        WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT $2`,
-      [userId, limit]
+         AND source_memory_id = ANY($2::uuid[])
+         AND target_memory_id = ANY($2::uuid[])
+         AND strength >= $3
+         AND ($4::text[] IS NULL OR relationship_type = ANY($4::text[]))
+       ORDER BY strength DESC`,
+      [userId, memoryIds, minStrength, relationshipTypes]
     );
 
     return result.rows;
   }
 
+  /**
+   * Keep at most `perHop` memories at each hop distance: those most
+   * strongly tied to the memories kept one hop closer. A memory only
+   * reachable through dropped ones is dropped too, so the result stays
+   * connected.
+   */
+  private static limitPerHop(
+    hops: Map<string, number>,
+    edges: Relationship[],
+    perHop: number
+  ): Set<string> {
+    const kept = new Set([...hops].filter(([, hop]) => hop === 0).map(([id]) => id));
+    const maxHop = Math.max(...hops.values());
+
+    for (let hop = 1; hop <= maxHop; hop++) {
+      const strength = new Map<string, number>();
+      for (const edge of edges) {
+        for (const [from, to] of [
+          [edge.source_memory_id, edge.target_memory_id],
+          [edge.target_memory_id, edge.source_memory_id],
+        ]) {
+          if (kept.has(from) && hops.get(from) === hop - 1 && hops.get(to) === hop) {
+            strength.set(to, Math.max(strength.get(to) || 0, edge.strength));
+          }
+        }
+      }
+
+      [...strength]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, perHop)
+        .forEach(([id]) => kept.add(id));
+    }
+
+    return kept;
+  }
+
+  /**
+   * A page of memories, newest first, continuing after the cursor. Keyset
+   * paging on (created_at, id), so pages stay stable while memories are
+   * added. Archived memories are included unless the filters say otherwise.
+   */
+  static async listMemories(
+    userId: string,
+    limit: number = 20,
+    filters: MemoryFilters = {},
+    cursor?: ListCursor
+  ): Promise<MemoryPage> {
+    const params: unknown[] = [userId, limit + 1];
+    let conditions = memoryFilterConditions(filters, params, 'memories', 'all');
+    const countConditions = conditions;
+
+    if (cursor) {
+      params.push(cursor.created_at, cursor.id);
+      conditions += `\n         AND (created_at, id) < ($${params.length - 1}::timestamp, $${params.length}::uuid)`;
+    }
+
+    const result = await query(
+      `SELECT *, created_at::text AS cursor_created_at FROM memories
+       WHERE user_id = $1
+         AND parent_memory_id IS NULL
+         ${conditions}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2`,
+      params
+    );
+
+    // Same filters without the cursor, counted up to the cap
+    const countResult = await query(
+      `SELECT COUNT(*)::int AS total FROM (
+         SELECT 1 FROM memories
+         WHERE user_id = $1
+           AND parent_memory_id IS NULL
+           ${countConditions}
+         LIMIT $2
+       ) capped`,
+      [userId, TOTAL_ESTIMATE_CAP, ...params.slice(2, cursor ? -2 : undefined)]
+    );
+
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      memories: rows.map(({ cursor_created_at, ...memory }: any) => memory),
+      next_cursor: result.rows.length > limit
+        ? encodeCursor({ created_at: last.cursor_created_at, id: last.id })
+        : null,
+      total_estimate: countResult.rows[0].total,
+    };
+  }
+
   /**
    * Get a single memory by ID
    */
@@ -587,6 +1425,175 @@ REASON: [one sentence explanation]`;
     return result.rows.length > 0;
   }
 
+  /**
+   * Edit a memory. The current revision is saved to memory_versions first.
+   * A content_type or tags change on its own only updates those fields.
+   * New content is stored with processing_status = 'processing' and what
+   * was derived from the old content (embedding, chunks, entity mentions,
+   * relationships) is dropped, for the ingestion stages to rebuild; see
+   * IngestionService.updateMemory, which runs this in a transaction.
+   */
+  static async updateMemory(
+    memory: Memory,
+    changes: MemoryUpdate,
+    run: QueryRunner = query
+  ): Promise<Memory> {
+    await this.saveVersion(memory, run);
+
+    if (changes.content === undefined || changes.content === memory.content) {
+      const result = await run(
+        `UPDATE memories
+         SET content_type = COALESCE($2, content_type),
+             metadata = CASE WHEN $3::jsonb IS NULL THEN metadata
+                             ELSE metadata || jsonb_build_object('tags', $3::jsonb) END,
+             version = version + 1
+         WHERE id = $1
+         RETURNING *`,
+        [memory.id, changes.content_type || null, changes.tags ? JSON.stringify(changes.tags) : null]
+      );
+      return result.rows[0];
+    }
+
+    // content_type and tags left unset are filled in by categorization.
+    // An outdated flag stays when the user's own contradicts edge backs it.
+    const result = await run(
+      `UPDATE memories
+       SET content = $2,
+           content_type = $3,
+           content_hash = $4,
+           embedding = NULL,
+           embedding_model = NULL,
+           processing_status = 'processing',
+           metadata = (metadata - 'summary' - 'chunk_count' - 'tags' - (
+             CASE WHEN EXISTS (
+               SELECT 1 FROM memory_relationships r
+               WHERE r.target_memory_id = $1 AND r.relationship_type = 'contradicts'
+                 AND r.metadata->>'source' = 'user'
+             ) THEN ARRAY[]::text[] ELSE ARRAY['outdated', 'superseded_by'] END
+           )) || $5::jsonb,
+           version = version + 1
+       WHERE id = $1
+       RETURNING *`,
+      [
+        memory.id,
+        changes.content,
+        changes.content_type || null,
+        EmbeddingService.hashText(changes.content),
+        JSON.stringify(changes.tags ? { tags: changes.tags } : {})
+      ]
+    );
+    const updated: Memory = result.rows[0];
+
+    await this.removeEntityMentions(updated.id, run);
+    await this.removeDerivedRelationships(updated, run);
+    await run(`DELETE FROM memories WHERE parent_memory_id = $1`, [updated.id]);
+
+    return updated;
+  }
+
+  /**
+   * Prior revisions of a memory, newest first
+   */
+  static async getMemoryHistory(userId: string, memoryId: string): Promise<MemoryVersion[]> {
+    const result = await query(
+      `SELECT id, memory_id, version, content, content_type, metadata,
+              importance_score, valid_from, replaced_at
+       FROM memory_versions
+       WHERE memory_id = $1 AND user_id = $2
+       ORDER BY version DESC`,
+      [memoryId, userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * The edit that restores the content, type and tags of an earlier
+   * revision; applied, the revert is itself a new revision, so no history
+   * is lost. Returns null when the version does not exist.
+   */
+  static async getRevertChanges(memory: Memory, version: number): Promise<MemoryUpdate | null> {
+    const result = await query(
+      `SELECT content, content_type, metadata FROM memory_versions
+       WHERE memory_id = $1 AND version = $2`,
+      [memory.id, version]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const target = result.rows[0];
+    return {
+      content: target.content,
+      content_type: target.content_type,
+      tags: Array.isArray(target.metadata?.tags) ? target.metadata.tags : undefined
+    };
+  }
+
+  /**
+   * Snapshot the current revision before it is replaced
+   */
+  private static async saveVersion(memory: Memory, run: QueryRunner): Promise<void> {
+    await run(
+      `INSERT INTO memory_versions
+       (memory_id, user_id, version, content, content_type, metadata, importance_score, valid_from)
+       SELECT m.id, m.user_id, m.version, m.content, m.content_type, m.metadata, m.importance_score,
+              COALESCE(
+                (SELECT v.replaced_at FROM memory_versions v
+                 WHERE v.memory_id = m.id AND v.version = m.version - 1),
+                m.created_at
+              )
+       FROM memories m
+       WHERE m.id = $1
+       ON CONFLICT (memory_id, version) DO NOTHING`,
+      [memory.id]
+    );
+  }
+
+  /**
+   * Drop a memory's entity mentions, keeping entity mention counts in step
+   */
+  private static async removeEntityMentions(memoryId: string, run: QueryRunner = query): Promise<void> {
+    await run(
+      `WITH removed AS (
+         DELETE FROM entity_mentions WHERE memory_id = $1 RETURNING entity_id
+       )
+       UPDATE entities e
+       SET mention_count = GREATEST(e.mention_count - r.count, 0)
+       FROM (SELECT entity_id, COUNT(*)::int AS count FROM removed GROUP BY entity_id) r
+       WHERE e.id = r.entity_id`,
+      [memoryId]
+    );
+  }
+
+  /**
+   * Remove the relationships computed from a memory's content, and the
+   * outdated flags it put on other memories, so they can be rebuilt.
+   * The user's own edges, and the flags their contradicts edges set, stay.
+   */
+  private static async removeDerivedRelationships(memory: Memory, run: QueryRunner): Promise<void> {
+    await run(
+      `DELETE FROM memory_relationships
+       WHERE (source_memory_id = $1 OR target_memory_id = $1)
+         AND relationship_type <> 'part_of'
+         AND metadata->>'source' IS DISTINCT FROM 'user'`,
+      [memory.id]
+    );
+
+    await run(
+      `UPDATE memories
+       SET metadata = metadata - 'outdated' - 'superseded_by'
+       WHERE user_id = $2 AND metadata->>'superseded_by' = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM memory_relationships r
+           WHERE r.source_memory_id = $1 AND r.target_memory_id = memories.id
+             AND r.relationship_type = 'contradicts' AND r.metadata->>'source' = 'user'
+         )`,
+      [memory.id, memory.user_id]
+    );
+  }
+
   /**
    * Update memory importance score
    */
@@ -610,10 +1617,10 @@ REASON: [one sentence explanation]`;
   }> {
     const result = await query(
       `SELECT
-         (SELECT COUNT(*) FROM memories WHERE user_id = $1) as total_memories,
-         (SELECT COUNT(*) FROM memory_relationships WHERE user_id = $1) as total_relationships,
+         (SELECT COUNT(*) FROM memories WHERE user_id = $1 AND parent_memory_id IS NULL) as total_memories,
+         (SELECT COUNT(*) FROM memory_relationships WHERE user_id = $1 AND relationship_type <> 'part_of') as total_relationships,
          (SELECT COUNT(*) FROM entities WHERE user_id = $1) as total_entities,
-         (SELECT AVG(importance_score) FROM memories WHERE user_id = $1) as avg_importance`,
+         (SELECT AVG(importance_score) FROM memories WHERE user_id = $1 AND parent_memory_id IS NULL) as avg_importance`,
       [userId]
     );
 
@@ -629,8 +1636,7 @@ REASON: [one sentence explanation]`;
     queryText: string,
     limit: number = 5
   ): Promise<{
-    memories: Array<Memory & {
-      similarity: number;
+    memories: Array<SimilarMemory & {
       relationships: Relationship[];
       connectedMemories: Memory[];
       temporalContext: string;
@@ -663,6 +1669,7 @@ REASON: [one sentence explanation]`;
          LEFT JOIN memories m_target ON m_target.id = mr.target_memory_id
          WHERE (mr.source_memory_id = $1 OR mr.target_memory_id = $1)
            AND mr.user_id = $2
+           AND mr.relationship_type <> 'part_of'
          ORDER BY mr.strength DESC, mr.created_at DESC`,
         [memory.id, userId]
       );
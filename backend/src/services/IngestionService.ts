@@ -0,0 +1,494 @@
+import { QueryRunner, query, transaction } from '../config/database';
+import { config } from '../config/env';
+import { DedupeInfo, GraphService, Memory, MemoryUpdate, NewMemoryInput, SimilarMemory } from './GraphService';
+import { ChunkingService } from './ChunkingService';
+import { ConversationImportService } from './ConversationImportService';
+import { EmbeddingService } from './EmbeddingService';
+import { TopicClusteringService } from './TopicClusteringService';
+
+export type IngestionStage =
+  | 'embedding'
+  | 'categorization'
+  | 'entities'
+  | 'contradictions'
+  | 'relationships'
+  | 'topics';
+
+// Run in order; contradictions and relationships read the stored embedding
+export const INGESTION_STAGES: IngestionStage[] = [
+  'embedding',
+  'categorization',
+  'entities',
+  'contradictions',
+  'relationships',
+  'topics',
+];
+
+export interface IngestionStageStatus {
+  stage: IngestionStage;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  attempts: number;
+  error: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+export interface IngestionStatus {
+  memory_id: string;
+  processing_status: 'processing' | 'ready' | 'failed' | 'duplicate';
+  duplicate_of?: string; // the existing memory a duplicate was merged into
+  job: {
+    status: string;
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    next_attempt_at: Date | null;
+    created_at: Date;
+    completed_at: Date | null;
+  } | null;
+  stages: IngestionStageStatus[];
+}
+
+export interface BatchSubmissionResult {
+  success: boolean;
+  memory?: Memory;
+  deduplicated?: DedupeInfo;
+  error?: string;
+}
+
+interface IngestionJob {
+  id: string;
+  memory_id: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// A job locked longer than this is assumed to belong to a crashed worker
+const STALE_LOCK_MINUTES = 10;
+const BASE_RETRY_DELAY_SECONDS = 5;
+
+interface StageOutcome {
+  duplicateOf?: SimilarMemory;
+}
+
+const STAGE_HANDLERS: Record<IngestionStage, (memory: Memory) => Promise<StageOutcome | void>> = {
+  embedding: async (memory) => {
+    const duplicateOf = await GraphService.embedPendingMemory(memory);
+    return duplicateOf ? { duplicateOf } : undefined;
+  },
+  categorization: (memory) => GraphService.categorizePendingMemory(memory),
+  entities: (memory) => GraphService.extractPendingMemoryEntities(memory),
+  contradictions: (memory) => GraphService.resolvePendingMemoryContradictions(memory),
+  relationships: (memory) => GraphService.buildPendingMemoryRelationships(memory),
+  topics: async (memory) => {
+    await TopicClusteringService.assignMemory(memory);
+  },
+};
+
+/**
+ * Asynchronous memory ingestion. A new memory is stored immediately with
+ * processing_status = 'processing'; its enrichment stages run from a
+ * Postgres-backed job queue (ingestion_jobs) with per-stage progress and
+ * exponential-backoff retries, so work survives restarts.
+ */
+export class IngestionService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static draining = false;
+
+  /**
+   * Store a memory and queue its enrichment. An exact duplicate is merged
+   * into the existing memory right away; near duplicates are only known
+   * once embedded, so the embedding stage handles those.
+   */
+  static async submitMemory(
+    userId: string,
+    content: string,
+    sourceUrl?: string,
+    contentType?: string
+  ): Promise<Memory> {
+    const duplicate = await GraphService.findExactDuplicate(userId, content);
+    if (duplicate) {
+      return GraphService.mergeDuplicate(duplicate.id, sourceUrl, { type: 'exact', similarity: 1 });
+    }
+
+    const memory = await GraphService.insertPendingMemory(userId, content, sourceUrl, contentType);
+    await this.enqueue(memory);
+
+    return memory;
+  }
+
+  /**
+   * Store several memories and queue their enrichment, as submitMemory
+   * does for one. Embeddings are generated in one call and stored with the
+   * memories, so the embedding stage only checks them for near duplicates.
+   * Items are stored in order, so a repeat within the batch merges into
+   * the earlier item. Every item gets its own result.
+   */
+  static async submitMemories(userId: string, items: NewMemoryInput[]): Promise<BatchSubmissionResult[]> {
+    const embeddings = await this.embedBatch(items);
+    const results: BatchSubmissionResult[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+
+      try {
+        const duplicate = await GraphService.findExactDuplicate(userId, item.content);
+        if (duplicate) {
+          const { deduplicated, ...memory } = await GraphService.mergeDuplicate(
+            duplicate.id,
+            item.source_url,
+            { type: 'exact', similarity: 1 }
+          );
+          results.push({ success: true, memory: memory as Memory, deduplicated });
+          continue;
+        }
+
+        const memory = await GraphService.insertPendingMemory(
+          userId,
+          item.content,
+          item.source_url,
+          item.content_type,
+          embeddings[i] || undefined
+        );
+        await this.enqueue(memory);
+        results.push({ success: true, memory });
+      } catch (error) {
+        console.error(`Failed to submit batch item ${i}:`, error);
+        results.push({ success: false, error: 'Internal server error' });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Embeddings for a batch in one provider call. Long items are embedded
+   * through their summary by the embedding stage, so they get none here;
+   * neither does anything when the call fails (one bad input fails it all),
+   * leaving each item to the embedding stage and its retries.
+   */
+  private static async embedBatch(items: NewMemoryInput[]): Promise<Array<number[] | null>> {
+    const short = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => !ChunkingService.needsChunking(item.content));
+    const embeddings: Array<number[] | null> = items.map(() => null);
+
+    if (short.length === 0) {
+      return embeddings;
+    }
+
+    try {
+      const generated = await EmbeddingService.generateBatchEmbeddings(short.map(({ item }) => item.content));
+      short.forEach(({ index }, i) => {
+        embeddings[index] = generated[i] || null;
+      });
+    } catch (error) {
+      console.error('Batch embedding failed, leaving it to the embedding stage:', error);
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Edit a memory (see GraphService.updateMemory). New content goes back
+   * through every enrichment stage: the edit and its job are written in
+   * one transaction, so a failure leaves the memory as it was.
+   */
+  static async updateMemory(memory: Memory, changes: MemoryUpdate): Promise<Memory> {
+    const updated = await transaction(async (run) => {
+      const edited = await GraphService.updateMemory(memory, changes, run);
+      if (edited.processing_status === 'processing') {
+        // One job per memory: the earlier revision's job makes way
+        await run(`DELETE FROM ingestion_jobs WHERE memory_id = $1`, [edited.id]);
+        await this.insertJob(edited, run);
+      }
+      return edited;
+    });
+
+    if (updated.processing_status === 'processing') {
+      this.wake();
+    }
+
+    return updated;
+  }
+
+  /**
+   * Restore an earlier revision as a new edit. Returns null when the
+   * version does not exist.
+   */
+  static async revertMemory(memory: Memory, version: number): Promise<Memory | null> {
+    const changes = await GraphService.getRevertChanges(memory, version);
+    return changes ? this.updateMemory(memory, changes) : null;
+  }
+
+  /**
+   * Queue every stage of a pending memory's enrichment
+   */
+  private static async enqueue(memory: Memory): Promise<void> {
+    try {
+      await this.insertJob(memory, query);
+    } catch (error) {
+      // Without a job the memory would stay 'processing' forever
+      await query(`DELETE FROM memories WHERE id = $1`, [memory.id]);
+      throw error;
+    }
+
+    this.wake();
+  }
+
+  /**
+   * Write a memory's job with every stage pending
+   */
+  private static async insertJob(memory: Memory, run: QueryRunner): Promise<void> {
+    await run(
+      `WITH job AS (
+         INSERT INTO ingestion_jobs (memory_id, user_id, max_attempts)
+         VALUES ($1, $2, $3)
+         RETURNING id
+       )
+       INSERT INTO ingestion_job_stages (job_id, stage, position)
+       SELECT job.id, s.stage, s.position
+       FROM job, unnest($4::text[]) WITH ORDINALITY AS s(stage, position)`,
+      [memory.id, memory.user_id, config.ingestion.maxAttempts, INGESTION_STAGES]
+    );
+  }
+
+  /**
+   * Start on queued work right away instead of waiting for the next poll
+   */
+  private static wake(): void {
+    if (this.timer) {
+      setImmediate(() => this.drain());
+    }
+  }
+
+  /**
+   * Processing state of a memory and each of its stages
+   */
+  static async getStatus(userId: string, memoryId: string): Promise<IngestionStatus | null> {
+    const result = await query(
+      `SELECT m.id AS memory_id, m.processing_status, m.superseded_by,
+              j.id AS job_id, j.status, j.attempts, j.max_attempts, j.last_error,
+              j.run_after, j.created_at, j.completed_at
+       FROM memories m
+       LEFT JOIN ingestion_jobs j ON j.memory_id = m.id
+       WHERE m.id = $1 AND m.user_id = $2`,
+      [memoryId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    if (!row.job_id) {
+      // Created synchronously, before the queue existed
+      return { memory_id: row.memory_id, processing_status: row.processing_status || 'ready', job: null, stages: [] };
+    }
+
+    const stages = await query(
+      `SELECT stage, status, attempts, error, started_at, completed_at
+       FROM ingestion_job_stages
+       WHERE job_id = $1
+       ORDER BY position`,
+      [row.job_id]
+    );
+
+    return {
+      memory_id: row.memory_id,
+      processing_status: row.processing_status,
+      ...(row.processing_status === 'duplicate' ? { duplicate_of: row.superseded_by } : {}),
+      job: {
+        status: row.status,
+        attempts: row.attempts,
+        max_attempts: row.max_attempts,
+        last_error: row.last_error,
+        next_attempt_at: row.status === 'pending' ? row.run_after : null,
+        created_at: row.created_at,
+        completed_at: row.completed_at,
+      },
+      stages: stages.rows,
+    };
+  }
+
+  /**
+   * Claim and run one due job. Returns false when the queue is empty.
+   */
+  static async processNext(): Promise<boolean> {
+    const claimed = await query(
+      `UPDATE ingestion_jobs
+       SET status = 'running', locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM ingestion_jobs
+         WHERE (status = 'pending' AND run_after <= NOW())
+            OR (status = 'running' AND locked_at < NOW() - make_interval(mins => $1))
+         ORDER BY run_after
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, memory_id, attempts, max_attempts`,
+      [STALE_LOCK_MINUTES]
+    );
+
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    await this.runJob(claimed.rows[0]);
+    return true;
+  }
+
+  /**
+   * Poll the queue in the background
+   */
+  static startWorker(pollIntervalMs: number = config.ingestion.pollIntervalMs): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.drain(), pollIntervalMs);
+    setImmediate(() => this.drain());
+  }
+
+  static stopWorker(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process jobs until the queue has nothing due. Queued conversation
+   * imports are worked off here too, one conversation at a time after
+   * the memories waiting for enrichment.
+   */
+  private static async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.timer && (await this.processNext() || await ConversationImportService.processNextImport())) {
+        // keep going
+      }
+    } catch (error) {
+      console.error('Ingestion worker error:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Run the unfinished stages of a claimed job in order
+   */
+  private static async runJob(job: IngestionJob): Promise<void> {
+    const memoryResult = await query(`SELECT * FROM memories WHERE id = $1`, [job.memory_id]);
+    const memory: Memory | undefined = memoryResult.rows[0];
+
+    if (!memory) {
+      // Deleted while queued; the job row cascades with it
+      return;
+    }
+
+    if (memory.processing_status !== 'processing') {
+      // Finished by a run that died before it could complete the job
+      await this.completeJob(job);
+      return;
+    }
+
+    const pending = await query(
+      `SELECT stage FROM ingestion_job_stages
+       WHERE job_id = $1 AND status <> 'completed'
+       ORDER BY position`,
+      [job.id]
+    );
+
+    for (const { stage } of pending.rows as Array<{ stage: IngestionStage }>) {
+      await query(
+        `UPDATE ingestion_job_stages
+         SET status = 'running', attempts = attempts + 1, error = NULL, started_at = NOW()
+         WHERE job_id = $1 AND stage = $2`,
+        [job.id, stage]
+      );
+
+      let outcome: StageOutcome | void;
+      try {
+        outcome = await STAGE_HANDLERS[stage](memory);
+        if (outcome && outcome.duplicateOf) {
+          // Nothing left to enrich; the existing memory absorbs this one.
+          // Folded in before the stage completes, so a failure retries it.
+          await GraphService.resolvePendingDuplicate(memory, outcome.duplicateOf);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Ingestion stage ${stage} failed for memory ${memory.id}:`, message);
+
+        await query(
+          `UPDATE ingestion_job_stages SET status = 'failed', error = $3
+           WHERE job_id = $1 AND stage = $2`,
+          [job.id, stage, message]
+        );
+        await this.failJob(job, `${stage}: ${message}`);
+        return;
+      }
+
+      await query(
+        `UPDATE ingestion_job_stages SET status = 'completed', completed_at = NOW()
+         WHERE job_id = $1 AND stage = $2`,
+        [job.id, stage]
+      );
+
+      if (outcome && outcome.duplicateOf) {
+        await query(
+          `UPDATE ingestion_job_stages SET status = 'skipped'
+           WHERE job_id = $1 AND status <> 'completed'`,
+          [job.id]
+        );
+        await this.completeJob(job);
+        return;
+      }
+    }
+
+    // The job completes last: until the memory is marked ready it can be retried
+    try {
+      await GraphService.setProcessingStatus(memory.id, 'ready');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.failJob(job, message);
+      return;
+    }
+
+    await this.completeJob(job);
+  }
+
+  private static async completeJob(job: IngestionJob): Promise<void> {
+    await query(
+      `UPDATE ingestion_jobs
+       SET status = 'completed', locked_at = NULL, last_error = NULL, completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [job.id]
+    );
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or give up after max_attempts
+   */
+  private static async failJob(job: IngestionJob, error: string): Promise<void> {
+    if (job.attempts >= job.max_attempts) {
+      await query(
+        `UPDATE ingestion_jobs
+         SET status = 'failed', locked_at = NULL, last_error = $2, updated_at = NOW()
+         WHERE id = $1`,
+        [job.id, error]
+      );
+      await GraphService.setProcessingStatus(job.memory_id, 'failed');
+      return;
+    }
+
+    const delaySeconds = BASE_RETRY_DELAY_SECONDS * Math.pow(2, job.attempts - 1);
+    await query(
+      `UPDATE ingestion_jobs
+       SET status = 'pending', locked_at = NULL, last_error = $2,
+           run_after = NOW() + make_interval(secs => $3), updated_at = NOW()
+       WHERE id = $1`,
+      [job.id, error, delaySeconds]
+    );
+  }
+}
@@ -1,49 +1,66 @@
-import OpenAI from 'openai';
 import { config } from '../config/env';
-import { GraphService } from './GraphService';
-
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+import { getProvider } from '../providers';
+import { GraphService, SimilarMemory } from './GraphService';
+import { EmbeddingService } from './EmbeddingService';
+import { SearchService, TurnHit } from './SearchService';
+import { RetrievedMemory } from './ProvenanceService';
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
+/**
+ * A past conversation turn an answer drew on
+ */
+export interface TurnCitation {
+  conversation_id: string;
+  turn_number: number;
+  title: string | null;
+  llm_platform: string;
+  excerpt: string;
+  similarity: number;
+  timestamp: Date;
+}
+
+// Past conversation turns offered to the model next to the memories
+const CITED_TURNS_LIMIT = 3;
+const TURN_EXCERPT_LENGTH = 500;
+
 /**
  * Service for LLM integration with memory context
  */
 export class LLMService {
   /**
-   * Get relevant memories for a conversation context
+   * Memories relevant to the latest messages of a conversation
    */
-  static async getRelevantContext(
+  static async getRelevantMemories(
     userId: string,
     conversationHistory: ChatMessage[],
     limit: number = 5
-  ): Promise<string> {
+  ): Promise<SimilarMemory[]> {
     // Extract key topics from recent messages
     const recentMessages = conversationHistory.slice(-3);
     const query = recentMessages.map(m => m.content).join(' ');
 
     if (!query.trim()) {
-      return '';
+      return [];
     }
 
     // Search for relevant memories
-    const memories = await GraphService.searchMemories(userId, query, limit);
-
-    if (memories.length === 0) {
-      return '';
-    }
-
-    // Format memories as context
-    const context = memories
-      .map((m, i) => `[Memory ${i + 1}, relevance: ${(m.similarity * 100).toFixed(0)}%]\n${m.content}`)
-      .join('\n\n');
+    return GraphService.searchMemories(userId, query, limit);
+  }
 
-    return context;
+  /**
+   * Get relevant memories for a conversation context
+   */
+  static async getRelevantContext(
+    userId: string,
+    conversationHistory: ChatMessage[],
+    limit: number = 5
+  ): Promise<string> {
+    const memories = await this.getRelevantMemories(userId, conversationHistory, limit);
+    return this.formatContext(memories);
   }
 
   /**
@@ -54,11 +71,25 @@ export class LLMService {
     conversationHistory: ChatMessage[],
     userMessage: string
   ): Promise<string> {
+    const { response } = await this.generateResponseWithMemories(userId, conversationHistory, userMessage);
+    return response;
+  }
+
+  /**
+   * Generate response with memory context injection, returning the
+   * memories that were put in the context as well
+   */
+  static async generateResponseWithMemories(
+    userId: string,
+    conversationHistory: ChatMessage[],
+    userMessage: string
+  ): Promise<{ response: string; memories: SimilarMemory[] }> {
     // Get relevant memories
-    const memoryContext = await this.getRelevantContext(
+    const memories = await this.getRelevantMemories(
       userId,
       [...conversationHistory, { role: 'user', content: userMessage }]
     );
+    const memoryContext = this.formatContext(memories);
 
     // Build system message with context
     let systemMessage = 'You are a helpful assistant with access to the user\'s personal memory store.';
@@ -68,35 +99,38 @@ export class LLMService {
     }
 
     // Call LLM
-    const response = await openai.chat.completions.create({
-      model: config.llm.chatModel,
+    const response = await getProvider().chatCompletion({
+      tier: 'chat',
+      task: 'chat',
+      input: { message: userMessage, context: memoryContext },
       messages: [
         { role: 'system', content: systemMessage },
         ...conversationHistory,
         { role: 'user', content: userMessage }
       ],
-      temperature: config.llm.temperature
-    }, {
+      temperature: config.llm.temperature,
       timeout: 30000 // 30 second timeout for chat responses
     });
 
-    return response.choices[0].message.content || '';
+    return { response, memories };
   }
 
   /**
    * Extract and save insights from conversation
+   * Returns the number of memories created
    */
   static async extractInsights(
     userId: string,
     conversationHistory: ChatMessage[]
-  ): Promise<void> {
+  ): Promise<number> {
     const conversation = conversationHistory
       .map(m => `${m.role}: ${m.content}`)
       .join('\n');
 
     try {
-      const response = await openai.chat.completions.create({
-        model: config.llm.model,
+      const parsed = await getProvider().jsonCompletion({
+        task: 'extract_insights',
+        input: { messages: conversationHistory },
         messages: [
           {
             role: 'system',
@@ -120,16 +154,13 @@ Only extract significant, memorable information. Return format: {"insights": [..
           }
         ],
         temperature: 0.3,
-        response_format: { type: 'json_object' }
-      }, {
         timeout: 30000 // 30 second timeout
       });
 
-      const content = response.choices[0].message.content;
-      if (!content) return;
+      if (!parsed) return 0;
 
-      const parsed = JSON.parse(content);
       const insights = parsed.insights || [];
+      let saved = 0;
 
       // Save each insight as a memory
       for (const insight of insights) {
@@ -140,34 +171,48 @@ Only extract significant, memorable information. Return format: {"insights": [..
             undefined,
             insight.type || 'fact'
           );
+          saved++;
         }
       }
 
       console.log(`Extracted ${insights.length} insights from conversation`);
+      return saved;
     } catch (error) {
       console.error('Error extracting insights:', error);
+      return 0;
     }
   }
 
   /**
    * Answer a question using the memory graph with deep temporal reasoning
-   * This version prevents hallucinations by providing full relationship context
+   * This version prevents hallucinations by providing full relationship context.
+   * Relevant turns of past conversations are offered as well and returned
+   * as `conversations` citations.
    */
   static async answerWithMemories(
     userId: string,
     question: string
-  ): Promise<{ answer: string; memories: any[]; graphContext?: string }> {
+  ): Promise<{
+    answer: string;
+    memories: any[];
+    conversations: TurnCitation[];
+    retrieved: RetrievedMemory[];
+    graphContext?: string;
+  }> {
     // Get memories with their full relationship context
     const { memories, graphSummary } = await GraphService.getMemoriesWithContext(
       userId,
       question,
       5
     );
+    const turns = await this.findRelevantTurns(userId, question);
 
-    if (memories.length === 0) {
+    if (memories.length === 0 && turns.length === 0) {
       return {
         answer: "I don't have any relevant information in my memory to answer this question.",
-        memories: []
+        memories: [],
+        conversations: [],
+        retrieved: []
       };
     }
 
@@ -196,7 +241,9 @@ Only extract significant, memorable information. Return format: {"insights": [..
     const contextParts: string[] = [];
 
     // Add graph summary
-    contextParts.push(`GRAPH OVERVIEW:\n${graphSummary}\n`);
+    if (graphSummary) {
+      contextParts.push(`GRAPH OVERVIEW:\n${graphSummary}\n`);
+    }
 
     // Add each memory with its full context
     for (let i = 0; i < memoriesToUse.length; i++) {
@@ -204,7 +251,7 @@ Only extract significant, memorable information. Return format: {"insights": [..
       const memoryBlock: string[] = [];
 
       memoryBlock.push(`\n[MEMORY ${i + 1}] (Relevance: ${(memory.similarity * 100).toFixed(0)}%)`);
-      memoryBlock.push(`Content: ${memory.content}`);
+      memoryBlock.push(`Content: ${this.memoryText(memory)}`);
       memoryBlock.push(`Context: ${memory.temporalContext}`);
 
       // Add connected memories for temporal reasoning
@@ -237,11 +284,37 @@ Only extract significant, memorable information. Return format: {"insights": [..
       contextParts.push(memoryBlock.join('\n'));
     }
 
+    // Past conversation turns, cited by conversation and turn number
+    if (turns.length > 0) {
+      contextParts.push('\nPAST CONVERSATIONS:');
+      turns.forEach((turn, i) => {
+        const date = new Date(turn.timestamp).toLocaleString();
+        const title = turn.conversation_title ? ` "${turn.conversation_title}"` : '';
+        contextParts.push([
+          `\n[CONVERSATION ${i + 1}] (Relevance: ${(turn.similarity * 100).toFixed(0)}%)${title}, turn ${turn.turn_number} (${date})`,
+          `User: ${this.excerpt(turn.user_message)}`,
+          turn.assistant_message ? `Assistant: ${this.excerpt(turn.assistant_message)}` : '',
+        ].filter(Boolean).join('\n'));
+      });
+    }
+
     const fullContext = contextParts.join('\n');
 
     // Generate answer with enhanced context
-    const response = await openai.chat.completions.create({
-      model: config.llm.model,
+    const answer = await getProvider().chatCompletion({
+      task: 'answer',
+      input: {
+        question,
+        memories: memoriesToUse.map(m => ({
+          content: this.memoryText(m),
+          created_at: m.created_at,
+          outdated: (typeof m.metadata === 'string' ? JSON.parse(m.metadata) : m.metadata)?.outdated
+        })),
+        turns: turns.map(turn => ({
+          content: this.matchedText(turn),
+          created_at: turn.timestamp
+        }))
+      },
       messages: [
         {
           role: 'system',
@@ -253,7 +326,7 @@ CRITICAL INSTRUCTIONS:
 3. **IGNORE memories marked as OUTDATED** - do not mention them
 4. **DO NOT explain contradictions or historical changes** unless specifically asked
 5. **DO NOT list multiple options** - just give the current/most recent answer
-6. **NEVER hallucinate** - only use information explicitly present in the memories
+6. **NEVER hallucinate** - only use information explicitly present in the memories or past conversations
 7. If you don't know, say "I don't have that information" (don't explain why)
 
 RESPONSE FORMAT:
@@ -276,21 +349,75 @@ ${fullContext}`
           content: question
         }
       ],
-      temperature: 0.3 // Lower temperature to reduce hallucinations
-    }, {
+      temperature: 0.3, // Lower temperature to reduce hallucinations
       timeout: 30000 // 30 second timeout
     });
 
     return {
-      answer: response.choices[0].message.content || '',
+      answer,
       memories: memoriesToUse.map(m => ({
         id: m.id,
         content: m.content,
+        matched_passage: m.matched_passage,
         similarity: m.similarity,
         temporalContext: m.temporalContext,
         relationshipCount: m.relationships.length
       })),
+      conversations: turns.map(turn => ({
+        conversation_id: turn.conversation_id,
+        turn_number: turn.turn_number,
+        title: turn.conversation_title,
+        llm_platform: turn.llm_platform,
+        excerpt: this.excerpt(this.matchedText(turn)),
+        similarity: turn.similarity,
+        timestamp: turn.timestamp
+      })),
+      // Everything retrieved, including memories left out of the prompt
+      retrieved: memories.map(m => ({
+        id: m.id,
+        similarity: m.similarity,
+        in_prompt: memoriesToUse.includes(m)
+      })),
       graphContext: graphSummary
     };
   }
+
+  /**
+   * Turns of past conversations closest to the question. They only add
+   * context, so a failed lookup answers from memories alone.
+   */
+  private static async findRelevantTurns(userId: string, question: string): Promise<TurnHit[]> {
+    try {
+      const embedding = await EmbeddingService.generateEmbedding(question);
+      return await SearchService.searchTurns(userId, embedding, CITED_TURNS_LIMIT);
+    } catch (error) {
+      console.error('Error searching conversation turns:', error);
+      return [];
+    }
+  }
+
+  private static matchedText(turn: TurnHit): string {
+    return turn.matched_role === 'assistant' ? turn.assistant_message : turn.user_message;
+  }
+
+  private static excerpt(text: string): string {
+    return text.length <= TURN_EXCERPT_LENGTH ? text : `${text.substring(0, TURN_EXCERPT_LENGTH)}...`;
+  }
+
+  /**
+   * Format memories as context
+   */
+  private static formatContext(memories: SimilarMemory[]): string {
+    return memories
+      .map((m, i) => `[Memory ${i + 1}, relevance: ${(m.similarity * 100).toFixed(0)}%]\n${this.memoryText(m)}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Text of a memory to put in a prompt: for long documents, the passage
+   * that matched rather than the whole text
+   */
+  private static memoryText(memory: { content: string; matched_passage?: string }): string {
+    return memory.matched_passage || memory.content;
+  }
 }
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+const MAX_LIST_ITEMS = 20;
+
+// Lists are arrays in JSON bodies and comma-separated in query strings
+const list = (item: z.ZodString) => z.preprocess(
+  value => typeof value === 'string'
+    ? value.split(',').map(part => part.trim()).filter(Boolean)
+    : value,
+  z.array(item).min(1).max(MAX_LIST_ITEMS)
+);
+
+const filterFields = z.object({
+  content_type: list(z.string().min(1).max(50)).optional(),
+  tags: list(z.string().min(1).max(50)).optional(), // memory must carry every tag
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+  min_importance: z.coerce.number().min(0).max(1).optional(),
+  entity: z.string().trim().min(1).max(200).optional(),
+  source_domain: z.string().trim().toLowerCase().max(253)
+    .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)*$/, 'Expected a host name such as example.com')
+    .optional(), // matches subdomains too
+  status: z.enum(['active', 'archived', 'all']).optional(),
+});
+
+export const MEMORY_FILTER_KEYS = Object.keys(filterFields.shape);
+
+/**
+ * Filters shared by POST /api/search and GET /api/memories
+ */
+export const memoryFiltersSchema = filterFields.strict().refine(
+  filters => !filters.created_after || !filters.created_before || filters.created_after <= filters.created_before,
+  { message: 'created_after must not be later than created_before', path: ['created_after'] }
+);
+
+export type MemoryFilters = z.infer<typeof memoryFiltersSchema>;
+export type MemoryStatus = NonNullable<MemoryFilters['status']>;
+
+// Host of an http(s) URL, lowercased
+const sourceHost = (alias: string) =>
+  `substring(lower(${alias}.source_url) from '^[a-z][a-z0-9+.-]*://([^/:?#]+)')`;
+
+/**
+ * SQL conditions (each prefixed with AND) applying the filters to the
+ * memories row aliased `alias`. Values are appended to params and
+ * referenced by position. Without a status filter, defaultStatus applies.
+ */
+export function memoryFilterConditions(
+  filters: MemoryFilters,
+  params: unknown[],
+  alias: string,
+  defaultStatus: MemoryStatus
+): string {
+  const conditions: string[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.content_type) {
+    conditions.push(`${alias}.content_type = ANY(${param(filters.content_type)}::text[])`);
+  }
+  if (filters.tags) {
+    conditions.push(`(${alias}.metadata->'tags') ?& ${param(filters.tags)}::text[]`);
+  }
+  if (filters.created_after) {
+    conditions.push(`${alias}.created_at >= ${param(filters.created_after)}`);
+  }
+  if (filters.created_before) {
+    conditions.push(`${alias}.created_at < ${param(filters.created_before)}`);
+  }
+  if (filters.min_importance !== undefined) {
+    conditions.push(`${alias}.importance_score >= ${param(filters.min_importance)}`);
+  }
+  if (filters.entity) {
+    // Entities are stored with a lowercased, trimmed normalized_value;
+    // other names of an entity are in entity_aliases
+    const entity = param(filters.entity.toLowerCase());
+    conditions.push(
+      `EXISTS (SELECT 1 FROM entity_mentions em
+               JOIN entities e ON e.id = em.entity_id
+               WHERE em.memory_id = ${alias}.id
+                 AND (e.normalized_value = ${entity}
+                      OR e.id IN (SELECT a.entity_id FROM entity_aliases a WHERE a.normalized_alias = ${entity})))`
+    );
+  }
+  if (filters.source_domain) {
+    const domain = param(filters.source_domain);
+    conditions.push(`(${sourceHost(alias)} = ${domain} OR ${sourceHost(alias)} LIKE '%.' || ${domain})`);
+  }
+
+  const status = filters.status || defaultStatus;
+  if (status === 'active') {
+    conditions.push(`(${alias}.is_archived = FALSE OR ${alias}.is_archived IS NULL)`);
+  } else if (status === 'archived') {
+    conditions.push(`${alias}.is_archived = TRUE`);
+  }
+
+  return conditions.map(condition => `AND ${condition}`).join('\n         ');
+}
@@ -1,9 +1,4 @@
-import OpenAI from 'openai';
-import { config } from '../config/env';
-
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+import { getProvider } from '../providers';
 
 export interface ExtractedEntity {
   type: string; // person, place, organization, concept, date, preference
@@ -17,6 +12,24 @@ export interface ConflictDetection {
   explanation?: string;
 }
 
+export type RelationshipKind = 'temporal' | 'causal' | 'none';
+
+/**
+ * How two memories relate in time or cause. "forward" means the first
+ * happened before the second (temporal) or led to it (causal).
+ */
+export interface RelationshipClassification {
+  type: RelationshipKind;
+  direction: 'forward' | 'backward';
+  confidence: number; // 0-1
+  explanation?: string;
+}
+
+export interface RelationshipCandidate {
+  content: string;
+  created_at?: Date | string;
+}
+
 export interface MemoryCategory {
   type: string; // fact, event, preference, concept, entity
   importance: number; // 0-1
@@ -32,8 +45,9 @@ export class NLPService {
    */
   static async extractEntities(text: string): Promise<ExtractedEntity[]> {
     try {
-      const response = await openai.chat.completions.create({
-        model: config.llm.model,
+      const parsed = await getProvider().jsonCompletion({
+        task: 'extract_entities',
+        input: { text },
         messages: [
           {
             role: 'system',
@@ -50,15 +64,10 @@ Return ONLY a valid JSON object with format: {"entities": [...]}`
             content: `Extract entities from this text:\n\n${text}`
           }
         ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
+        temperature: 0.3
       });
 
-      const content = response.choices[0].message.content;
-      if (!content) return [];
-
-      const parsed = JSON.parse(content);
-      return parsed.entities || [];
+      return parsed?.entities || [];
     } catch (error) {
       console.error('Error extracting entities:', error);
       return [];
@@ -73,8 +82,9 @@ Return ONLY a valid JSON object with format: {"entities": [...]}`
     newMemory: string
   ): Promise<ConflictDetection> {
     try {
-      const response = await openai.chat.completions.create({
-        model: config.llm.model,
+      const result = await getProvider().jsonCompletion({
+        task: 'detect_conflict',
+        input: { existing: existingMemory, incoming: newMemory },
         messages: [
           {
             role: 'system',
@@ -91,16 +101,13 @@ Return format: {"hasConflict": boolean, "confidence": number, "explanation": str
             content: `Existing information: ${existingMemory}\n\nNew information: ${newMemory}\n\nDo these conflict?`
           }
         ],
-        temperature: 0.2,
-        response_format: { type: 'json_object' }
+        temperature: 0.2
       });
 
-      const content = response.choices[0].message.content;
-      if (!content) {
+      if (!result) {
         return { hasConflict: false, confidence: 0 };
       }
 
-      const result = JSON.parse(content);
       return {
         hasConflict: result.hasConflict || false,
         confidence: result.confidence || 0,
@@ -112,13 +119,68 @@ Return format: {"hasConflict": boolean, "confidence": number, "explanation": str
     }
   }
 
+  /**
+   * Classify whether two memories about the same subject are ordered in
+   * time (temporal) or one led to the other (causal), and which way
+   */
+  static async classifyRelationship(
+    first: RelationshipCandidate,
+    second: RelationshipCandidate
+  ): Promise<RelationshipClassification> {
+    const none: RelationshipClassification = { type: 'none', direction: 'forward', confidence: 0 };
+
+    try {
+      const result = await getProvider().jsonCompletion({
+        task: 'classify_relationship',
+        input: { first, second },
+        messages: [
+          {
+            role: 'system',
+            content: `You are a relationship classification system. Given two memories, decide how they relate:
+- temporal: both describe events about the same subject, one before the other
+- causal: one led to or caused the other
+- none: neither (merely similar topics are "none")
+Return JSON with:
+- type: "temporal" | "causal" | "none"
+- direction: "forward" if the first happened before or caused the second, "backward" if the reverse
+- confidence: number 0-1
+- explanation: string (one sentence)
+
+Return format: {"type": string, "direction": string, "confidence": number, "explanation": string}`
+          },
+          {
+            role: 'user',
+            content: `First memory${first.created_at ? ` (saved ${new Date(first.created_at).toISOString()})` : ''}: ${first.content}\n\n`
+              + `Second memory${second.created_at ? ` (saved ${new Date(second.created_at).toISOString()})` : ''}: ${second.content}`
+          }
+        ],
+        temperature: 0.2
+      });
+
+      if (!result || (result.type !== 'temporal' && result.type !== 'causal')) {
+        return none;
+      }
+
+      return {
+        type: result.type,
+        direction: result.direction === 'backward' ? 'backward' : 'forward',
+        confidence: Math.min(Math.max(Number(result.confidence) || 0, 0), 1),
+        explanation: result.explanation
+      };
+    } catch (error) {
+      console.error('Error classifying relationship:', error);
+      return none;
+    }
+  }
+
   /**
    * Categorize a memory and determine its importance
    */
   static async categorizeMemory(text: string): Promise<MemoryCategory> {
     try {
-      const response = await openai.chat.completions.create({
-        model: config.llm.model,
+      const result = await getProvider().jsonCompletion({
+        task: 'categorize',
+        input: { text },
         messages: [
           {
             role: 'system',
@@ -134,16 +196,13 @@ Return format: {"type": string, "importance": number, "tags": [string]}`
             content: `Categorize this memory:\n\n${text}`
           }
         ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
+        temperature: 0.3
       });
 
-      const content = response.choices[0].message.content;
-      if (!content) {
+      if (!result) {
         return { type: 'fact', importance: 0.5, tags: [] };
       }
 
-      const result = JSON.parse(content);
       return {
         type: result.type || 'fact',
         importance: Math.min(Math.max(result.importance || 0.5, 0), 1),
@@ -160,8 +219,9 @@ Return format: {"type": string, "importance": number, "tags": [string]}`
    */
   static async summarize(text: string, maxLength: number = 200): Promise<string> {
     try {
-      const response = await openai.chat.completions.create({
-        model: config.llm.model,
+      const summary = await getProvider().chatCompletion({
+        task: 'summarize',
+        input: { text, maxLength },
         messages: [
           {
             role: 'system',
@@ -173,10 +233,10 @@ Return format: {"type": string, "importance": number, "tags": [string]}`
           }
         ],
         temperature: 0.3,
-        max_tokens: Math.ceil(maxLength / 2)
+        maxTokens: Math.ceil(maxLength / 2)
       });
 
-      return response.choices[0].message.content?.trim() || text;
+      return summary.trim() || text;
     } catch (error) {
       console.error('Error summarizing text:', error);
       return text.substring(0, maxLength);
@@ -188,8 +248,9 @@ Return format: {"type": string, "importance": number, "tags": [string]}`
    */
   static async extractTopics(text: string): Promise<string[]> {
     try {
-      const response = await openai.chat.completions.create({
-        model: config.llm.model,
+      const result = await getProvider().jsonCompletion({
+        task: 'extract_topics',
+        input: { text },
         messages: [
           {
             role: 'system',
@@ -200,15 +261,10 @@ Return format: {"type": string, "importance": number, "tags": [string]}`
             content: text
           }
         ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
+        temperature: 0.3
       });
 
-      const content = response.choices[0].message.content;
-      if (!content) return [];
-
-      const result = JSON.parse(content);
-      return result.topics || [];
+      return result?.topics || [];
     } catch (error) {
       console.error('Error extracting topics:', error);
       return [];
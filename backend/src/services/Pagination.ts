@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Totals are counted up to this many rows; past it they read as the cap
+export const TOTAL_ESTIMATE_CAP = 10000;
+
+/**
+ * Listing position: the (created_at, id) of the last memory returned.
+ * created_at is kept as Postgres text so microseconds survive the trip.
+ */
+export const listCursorSchema = z.object({
+  created_at: z.string().min(1).max(40),
+  id: z.string().uuid(),
+});
+
+/**
+ * Search position: the score and id of the last result, and how many
+ * results came before it (search re-ranks that deep to continue). Hybrid
+ * cursors also keep how deep the fused lists go.
+ */
+export const searchCursorSchema = z.object({
+  score: z.number(),
+  id: z.string().uuid(),
+  depth: z.number().int().min(1),
+  fusion_depth: z.number().int().min(1).optional(),
+});
+
+export type ListCursor = z.infer<typeof listCursorSchema>;
+export type SearchCursor = z.infer<typeof searchCursorSchema>;
+
+/**
+ * Cursors are opaque to clients: base64url-encoded JSON
+ */
+export function encodeCursor(position: ListCursor | SearchCursor): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a cursor against the shape it should have; null when it was
+ * tampered with or belongs to another endpoint
+ */
+export function decodeCursor<T>(cursor: string, schema: z.ZodType<T>): T | null {
+  try {
+    const result = schema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { query } from '../config/database';
+import { ConversationService, Conversation, ConversationTurn } from './ConversationService';
+
+// Answers given outside a chat session (/api/chat/ask, stateless /api/chat)
+// are logged as turns of one conversation per user
+export const LOG_PLATFORM = 'dory-log';
+const LOG_TITLE = 'Questions to Dory';
+
+/**
+ * A memory retrieval returned for an answer, and whether the answer was
+ * generated with it in the prompt
+ */
+export interface RetrievedMemory {
+  id: string;
+  similarity: number;
+  in_prompt: boolean;
+}
+
+export interface MemoryUsage {
+  conversation_id: string;
+  conversation_title: string | null;
+  llm_platform: string;
+  turn_id: string;
+  turn_number: number;
+  question: string;
+  answer: string;
+  relevance_score: number;
+  was_retrieved: boolean;
+  was_mentioned: boolean;
+  answered_at: Date;
+}
+
+export interface UsageListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Which memories informed which answer. Each answer is a conversation turn;
+ * every memory retrieved for it is linked to the turn in
+ * memory_conversation_links with its similarity (relevance_score) and
+ * whether it went into the prompt (was_mentioned).
+ */
+export class ProvenanceService {
+  /**
+   * Link the memories retrieved for the answer in a turn. Provenance is a
+   * record, not part of the answer: failures are logged, not thrown.
+   */
+  static async recordRetrieval(
+    conversationId: string,
+    turnId: string,
+    memories: RetrievedMemory[]
+  ): Promise<void> {
+    if (memories.length === 0) return;
+
+    try {
+      await query(
+        `INSERT INTO memory_conversation_links
+           (memory_id, conversation_id, turn_id, relevance_score, was_retrieved, was_mentioned)
+         SELECT m.memory_id, $1, $2, m.score, true, m.in_prompt
+         FROM unnest($3::uuid[], $4::float8[], $5::boolean[]) AS m(memory_id, score, in_prompt)
+         ON CONFLICT (memory_id, turn_id) DO UPDATE
+         SET relevance_score = EXCLUDED.relevance_score,
+             was_mentioned = EXCLUDED.was_mentioned`,
+        [
+          conversationId,
+          turnId,
+          memories.map(memory => memory.id),
+          memories.map(memory => memory.similarity),
+          memories.map(memory => memory.in_prompt),
+        ]
+      );
+    } catch (error) {
+      console.error('Error recording retrieved memories:', error);
+    }
+  }
+
+  /**
+   * Log an answer given outside a chat session as a turn of the user's log
+   * conversation, with the memories retrieved for it. Embeds both messages,
+   * so callers run it after responding rather than awaiting it.
+   */
+  static async recordAnswer(
+    userId: string,
+    question: string,
+    answer: string,
+    memories: RetrievedMemory[]
+  ): Promise<ConversationTurn | null> {
+    try {
+      const log = await this.getLogConversation(userId);
+      const [turn] = await ConversationService.addTurns(log, [{ userMessage: question, assistantMessage: answer }]);
+
+      await this.recordRetrieval(log.id, turn.id, memories);
+      return turn;
+    } catch (error) {
+      console.error('Error logging answer:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Every answer a memory was retrieved for, newest first
+   */
+  static async getMemoryUsages(
+    userId: string,
+    memoryId: string,
+    options: UsageListOptions = {}
+  ): Promise<MemoryUsage[]> {
+    const result = await query(
+      `SELECT l.conversation_id, c.title AS conversation_title, c.llm_platform,
+              t.id AS turn_id, t.turn_number,
+              t.user_message AS question, t.assistant_message AS answer,
+              l.relevance_score, l.was_retrieved, l.was_mentioned,
+              t.timestamp AS answered_at
+       FROM memory_conversation_links l
+       JOIN conversation_turns t ON t.id = l.turn_id
+       JOIN conversations c ON c.id = l.conversation_id
+       WHERE l.memory_id = $1 AND c.user_id = $2
+       ORDER BY t.timestamp DESC, t.turn_number DESC
+       LIMIT $3 OFFSET $4`,
+      [memoryId, userId, options.limit || 50, options.offset || 0]
+    );
+
+    return result.rows;
+  }
+
+  private static async getLogConversation(userId: string): Promise<Conversation> {
+    const [existing] = await ConversationService.listConversations(userId, {
+      platform: LOG_PLATFORM,
+      limit: 1,
+    });
+
+    // Only the first answers take the lock that keeps them to one log
+    return existing || ConversationService.getOrCreateConversation(userId, {
+      platform: LOG_PLATFORM,
+      title: LOG_TITLE,
+    });
+  }
+}
@@ -0,0 +1,271 @@
+import { QueryRunner, query, transaction } from '../config/database';
+import { Relationship } from './GraphService';
+
+// Types users can give an edge; part_of links chunks and is not editable
+export const USER_RELATIONSHIP_TYPES = [
+  'extends',
+  'contradicts',
+  'related_to',
+  'inferred',
+  'temporal',
+  'causal',
+  'supersedes',
+];
+
+export const USER_SOURCE = 'user';
+
+// Types automatic building writes from whichever memory was saved last, so
+// a tombstone in either direction keeps them from coming back
+const SYMMETRIC_TYPES = ['extends', 'contradicts', 'related_to', 'inferred'];
+
+export interface RelationshipInput {
+  sourceMemoryId: string;
+  targetMemoryId: string;
+  relationshipType: string;
+  strength?: number;
+  note?: string;
+}
+
+export interface RelationshipChanges {
+  relationshipType?: string;
+  strength?: number;
+  note?: string;
+}
+
+export interface DerivedRelationshipOptions {
+  metadata?: Record<string, unknown>;
+  refresh?: boolean; // update strength and metadata of an existing automatic edge
+}
+
+/**
+ * Edges of the memory graph. Automatic relationship building goes through
+ * insertDerived; users create, relabel, reweight and delete edges here.
+ * User edges carry metadata.source = 'user' and are never overwritten by
+ * rebuilds; a deleted or relabelled edge leaves a tombstone in
+ * memory_relationship_tombstones so rebuilds never bring it back.
+ */
+export class RelationshipService {
+  /**
+   * Insert an automatically derived edge unless the user deleted it (in
+   * either direction, for the symmetric types).
+   * With refresh, an existing automatic edge is updated; user edges are
+   * left as they are. Returns whether an edge was written.
+   */
+  static async insertDerived(
+    userId: string,
+    sourceMemoryId: string,
+    targetMemoryId: string,
+    relationshipType: string,
+    strength: number,
+    options: DerivedRelationshipOptions = {},
+    run: QueryRunner = query
+  ): Promise<boolean> {
+    const reversed = SYMMETRIC_TYPES.includes(relationshipType)
+      ? ' OR (t.source_memory_id = $3 AND t.target_memory_id = $2)'
+      : '';
+
+    const result = await run(
+      `INSERT INTO memory_relationships
+       (user_id, source_memory_id, target_memory_id, relationship_type, strength, metadata)
+       SELECT $1, $2, $3, $4, $5, $6
+       WHERE NOT EXISTS (
+         SELECT 1 FROM memory_relationship_tombstones t
+         WHERE t.relationship_type = $4
+           AND ((t.source_memory_id = $2 AND t.target_memory_id = $3)${reversed})
+       )
+       ON CONFLICT (source_memory_id, target_memory_id, relationship_type)
+       ${options.refresh
+         ? `DO UPDATE SET strength = EXCLUDED.strength, metadata = EXCLUDED.metadata
+            WHERE memory_relationships.metadata->>'source' IS DISTINCT FROM '${USER_SOURCE}'`
+         : 'DO NOTHING'}
+       RETURNING id`,
+      [userId, sourceMemoryId, targetMemoryId, relationshipType, strength, JSON.stringify(options.metadata || {})]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Edges of a memory in either direction, strongest first
+   */
+  static async listForMemory(userId: string, memoryId: string, limit: number = 100): Promise<Relationship[]> {
+    const result = await query(
+      `SELECT * FROM memory_relationships
+       WHERE user_id = $1
+         AND (source_memory_id = $2 OR target_memory_id = $2)
+         AND relationship_type <> 'part_of'
+       ORDER BY strength DESC, created_at DESC
+       LIMIT $3`,
+      [userId, memoryId, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Create a user edge between two of the user's memories. An automatic
+   * edge with the same endpoints and type is taken over. Null when either
+   * memory is not the user's (or is a chunk).
+   */
+  static async createRelationship(userId: string, input: RelationshipInput): Promise<Relationship | null> {
+    const memories = await query(
+      `SELECT id FROM memories
+       WHERE user_id = $1 AND id = ANY($2::uuid[]) AND parent_memory_id IS NULL`,
+      [userId, [input.sourceMemoryId, input.targetMemoryId]]
+    );
+    if (memories.rows.length !== 2) {
+      return null;
+    }
+
+    return transaction(run => this.writeUserEdge(
+      userId,
+      input.sourceMemoryId,
+      input.targetMemoryId,
+      input.relationshipType,
+      input.strength ?? 1.0,
+      input.note,
+      run
+    ));
+  }
+
+  /**
+   * Relabel and/or reweight an edge, which makes it a user edge. A new
+   * type tombstones the old one, in the same transaction as the new edge
+   * is written; if an edge with the new type already exists the two
+   * become one.
+   */
+  static async updateRelationship(
+    userId: string,
+    relationshipId: string,
+    changes: RelationshipChanges
+  ): Promise<Relationship | null> {
+    const existing = await this.getEditable(userId, relationshipId);
+    if (!existing) {
+      return null;
+    }
+
+    const relabelled = changes.relationshipType !== undefined
+      && changes.relationshipType !== existing.relationship_type;
+
+    if (!relabelled) {
+      const result = await query(
+        `UPDATE memory_relationships
+         SET strength = COALESCE($2, strength),
+             metadata = COALESCE(metadata, '{}'::jsonb) || $3::jsonb
+         WHERE id = $1
+         RETURNING *`,
+        [existing.id, changes.strength ?? null, JSON.stringify(this.userMetadata(changes.note))]
+      );
+      return result.rows[0];
+    }
+
+    return transaction(async run => {
+      const updated = await this.writeUserEdge(
+        userId,
+        existing.source_memory_id,
+        existing.target_memory_id,
+        changes.relationshipType!,
+        changes.strength ?? existing.strength,
+        changes.note ?? existing.metadata?.note,
+        run
+      );
+      await this.removeEdge(existing, run);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Delete an edge and tombstone it. False when it is not the user's.
+   */
+  static async deleteRelationship(userId: string, relationshipId: string): Promise<boolean> {
+    const existing = await this.getEditable(userId, relationshipId);
+    if (!existing) {
+      return false;
+    }
+
+    await transaction(run => this.removeEdge(existing, run));
+    return true;
+  }
+
+  private static async getEditable(userId: string, relationshipId: string): Promise<Relationship | null> {
+    const result = await query(
+      `SELECT * FROM memory_relationships
+       WHERE id = $1 AND user_id = $2 AND relationship_type <> 'part_of'`,
+      [relationshipId, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Insert or take over an edge as the user's and lift any tombstone on
+   * it. A contradicts edge flags its target as outdated, as automatic ones do.
+   */
+  private static async writeUserEdge(
+    userId: string,
+    sourceMemoryId: string,
+    targetMemoryId: string,
+    relationshipType: string,
+    strength: number,
+    note?: string,
+    run: QueryRunner = query
+  ): Promise<Relationship> {
+    const result = await run(
+      `INSERT INTO memory_relationships
+       (user_id, source_memory_id, target_memory_id, relationship_type, strength, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (source_memory_id, target_memory_id, relationship_type)
+       DO UPDATE SET strength = EXCLUDED.strength,
+                     metadata = COALESCE(memory_relationships.metadata, '{}'::jsonb) || EXCLUDED.metadata
+       RETURNING *`,
+      [userId, sourceMemoryId, targetMemoryId, relationshipType, strength, JSON.stringify(this.userMetadata(note))]
+    );
+
+    await run(
+      `DELETE FROM memory_relationship_tombstones
+       WHERE source_memory_id = $1 AND target_memory_id = $2 AND relationship_type = $3`,
+      [sourceMemoryId, targetMemoryId, relationshipType]
+    );
+
+    if (relationshipType === 'contradicts') {
+      await run(
+        `UPDATE memories
+         SET metadata = metadata || $2::jsonb
+         WHERE id = $1`,
+        [targetMemoryId, JSON.stringify({ outdated: true, superseded_by: sourceMemoryId })]
+      );
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Delete an edge, tombstone it, and lift the outdated flag a
+   * contradicts edge put on its target
+   */
+  private static async removeEdge(edge: Relationship, run: QueryRunner = query): Promise<void> {
+    await run(`DELETE FROM memory_relationships WHERE id = $1`, [edge.id]);
+
+    await run(
+      `INSERT INTO memory_relationship_tombstones
+       (user_id, source_memory_id, target_memory_id, relationship_type)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (source_memory_id, target_memory_id, relationship_type) DO NOTHING`,
+      [edge.user_id, edge.source_memory_id, edge.target_memory_id, edge.relationship_type]
+    );
+
+    if (edge.relationship_type === 'contradicts') {
+      await run(
+        `UPDATE memories
+         SET metadata = metadata - 'outdated' - 'superseded_by'
+         WHERE id = $1 AND metadata->>'superseded_by' = $2`,
+        [edge.target_memory_id, edge.source_memory_id]
+      );
+    }
+  }
+
+  private static userMetadata(note?: string): Record<string, unknown> {
+    return note !== undefined ? { source: USER_SOURCE, note } : { source: USER_SOURCE };
+  }
+}
@@ -0,0 +1,205 @@
+import { query } from '../config/database';
+import { EmbeddingService } from './EmbeddingService';
+import { GraphService, SimilarMemory } from './GraphService';
+import { LOG_PLATFORM } from './ProvenanceService';
+import { CHAT_PLATFORM } from './ChatSessionService';
+
+export type SearchResultType = 'memory' | 'turn' | 'conversation';
+
+// Conversations holding Dory's own answers: the answer log and chat sessions
+const DORY_PLATFORMS = [LOG_PLATFORM, CHAT_PLATFORM];
+
+/**
+ * Where a result lives: a memory, or a conversation and (for turns) the
+ * position of the matching turn in it
+ */
+export interface SearchLink {
+  memory_id?: string;
+  conversation_id?: string;
+  turn_number?: number;
+}
+
+export interface TurnHit {
+  id: string;
+  conversation_id: string;
+  conversation_title: string | null;
+  llm_platform: string;
+  turn_number: number;
+  user_message: string;
+  assistant_message: string;
+  matched_role: 'user' | 'assistant';
+  timestamp: Date;
+  similarity: number;
+}
+
+export interface ConversationHit {
+  id: string;
+  title: string | null;
+  llm_platform: string;
+  conversation_summary: string;
+  primary_topics: string[] | null;
+  started_at: Date;
+  last_message_at: Date;
+  similarity: number;
+}
+
+export interface UnifiedSearchResult {
+  type: SearchResultType;
+  id: string;
+  score: number; // ranking score: the cosine similarity, shared by all sources
+  similarity: number; // raw cosine similarity
+  content: string; // the text that matched
+  title?: string | null;
+  created_at: Date;
+  link: SearchLink;
+  memory?: SimilarMemory;
+  turn?: TurnHit;
+  conversation?: ConversationHit;
+}
+
+/**
+ * Retrieval across everything a user has stored: memories, the individual
+ * turns of captured conversations and conversation summaries.
+ *
+ * All three sources are embedded with the same model, so their cosine
+ * similarities share one scale and the lists are merged on it directly.
+ * Rescaling each source on its own would score every source's best hit
+ * alike, however weak.
+ */
+export class SearchService {
+  static async unifiedSearch(
+    userId: string,
+    queryText: string,
+    limit: number = 10
+  ): Promise<UnifiedSearchResult[]> {
+    const embedding = await EmbeddingService.generateEmbedding(queryText);
+
+    const [memories, turns, conversations] = await Promise.all([
+      GraphService.searchMemoriesByEmbedding(userId, embedding, limit),
+      this.searchTurns(userId, embedding, limit),
+      this.searchConversations(userId, embedding, limit),
+    ]);
+
+    const results = [
+      ...memories.map(memory => this.fromMemory(memory)),
+      ...turns.map(turn => this.fromTurn(turn)),
+      ...conversations.map(conversation => this.fromConversation(conversation)),
+    ];
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Conversation turns whose user or assistant message is closest to the
+   * embedding; a turn is returned once, scored by its better side. Dory's
+   * own conversations (answer log and chat sessions) are left out, so old
+   * answers aren't retrieved as sources for new ones.
+   */
+  static async searchTurns(
+    userId: string,
+    embedding: number[],
+    limit: number = 10
+  ): Promise<TurnHit[]> {
+    const result = await query(
+      `WITH hits AS (
+         (SELECT id, 'user' AS matched_role,
+                 1 - (user_message_embedding <=> $1::vector) AS similarity
+          FROM conversation_turns
+          WHERE user_id = $2 AND embedding_model = $3 AND user_message_embedding IS NOT NULL
+            AND conversation_id NOT IN (SELECT id FROM conversations WHERE user_id = $2 AND llm_platform = ANY($5))
+          ORDER BY user_message_embedding <=> $1::vector
+          LIMIT $4)
+         UNION ALL
+         (SELECT id, 'assistant' AS matched_role,
+                 1 - (assistant_message_embedding <=> $1::vector) AS similarity
+          FROM conversation_turns
+          WHERE user_id = $2 AND embedding_model = $3 AND assistant_message_embedding IS NOT NULL
+            AND conversation_id NOT IN (SELECT id FROM conversations WHERE user_id = $2 AND llm_platform = ANY($5))
+          ORDER BY assistant_message_embedding <=> $1::vector
+          LIMIT $4)
+       )
+       SELECT DISTINCT ON (t.id)
+         t.id, t.conversation_id, c.title AS conversation_title, c.llm_platform,
+         t.turn_number, t.user_message, t.assistant_message, t.timestamp,
+         h.matched_role, h.similarity
+       FROM hits h
+       JOIN conversation_turns t ON t.id = h.id
+       JOIN conversations c ON c.id = t.conversation_id
+       ORDER BY t.id, h.similarity DESC`,
+      [JSON.stringify(embedding), userId, EmbeddingService.currentModel(), limit, DORY_PLATFORMS]
+    );
+
+    return (result.rows as TurnHit[])
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Closed conversations whose summary is closest to the embedding, other
+   * than Dory's own
+   */
+  static async searchConversations(
+    userId: string,
+    embedding: number[],
+    limit: number = 10
+  ): Promise<ConversationHit[]> {
+    const result = await query(
+      `SELECT id, title, llm_platform, conversation_summary, primary_topics,
+              started_at, last_message_at,
+              1 - (summary_embedding <=> $1::vector) AS similarity
+       FROM conversations
+       WHERE user_id = $2
+         AND embedding_model = $3
+         AND summary_embedding IS NOT NULL
+         AND llm_platform <> ALL($5)
+       ORDER BY summary_embedding <=> $1::vector
+       LIMIT $4`,
+      [JSON.stringify(embedding), userId, EmbeddingService.currentModel(), limit, DORY_PLATFORMS]
+    );
+
+    return result.rows;
+  }
+
+  private static fromMemory(memory: SimilarMemory): UnifiedSearchResult {
+    return {
+      type: 'memory',
+      id: memory.id,
+      score: memory.similarity,
+      similarity: memory.similarity,
+      content: memory.matched_passage || memory.content,
+      created_at: memory.created_at,
+      link: { memory_id: memory.id },
+      memory,
+    };
+  }
+
+  private static fromTurn(turn: TurnHit): UnifiedSearchResult {
+    return {
+      type: 'turn',
+      id: turn.id,
+      score: turn.similarity,
+      similarity: turn.similarity,
+      content: turn.matched_role === 'user' ? turn.user_message : turn.assistant_message,
+      title: turn.conversation_title,
+      created_at: turn.timestamp,
+      link: { conversation_id: turn.conversation_id, turn_number: turn.turn_number },
+      turn,
+    };
+  }
+
+  private static fromConversation(conversation: ConversationHit): UnifiedSearchResult {
+    return {
+      type: 'conversation',
+      id: conversation.id,
+      score: conversation.similarity,
+      similarity: conversation.similarity,
+      content: conversation.conversation_summary,
+      title: conversation.title,
+      created_at: conversation.started_at,
+      link: { conversation_id: conversation.id },
+      conversation,
+    };
+  }
+}
@@ -0,0 +1,486 @@
+import { QueryRunner, query, transaction } from '../config/database';
+import { config } from '../config/env';
+import { EmbeddingService } from './EmbeddingService';
+import { NLPService } from './NLPService';
+
+export interface TopicCluster {
+  id: string;
+  user_id: string;
+  topic_name: string;
+  aliases: string[];
+  conversation_count: number;
+  memory_count: number;
+  first_seen: Date;
+  last_seen: Date;
+}
+
+export interface TopicDetail extends TopicCluster {
+  conversations: Array<{
+    id: string;
+    title: string | null;
+    llm_platform: string;
+    conversation_summary: string | null;
+    started_at: Date;
+    last_message_at: Date;
+    relevance_score: number;
+  }>;
+  memories: Array<{
+    id: string;
+    content: string;
+    content_type: string;
+    created_at: Date;
+    relevance_score: number;
+  }>;
+}
+
+export interface TopicListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+interface ClusterMatch {
+  id: string;
+  topic_name: string;
+  centroid: number[] | null;
+  member_count: number;
+  embedding_model: string | null;
+  similarity: number;
+}
+
+interface TopicAssignment {
+  topicId: string;
+  relevance: number;
+  phrases: Array<{ name: string; embedding: number[] }>; // the item's phrases that resolved to the topic
+}
+
+// Membership tables of the two kinds of clustered items
+const MEMBERSHIPS = {
+  memory: { table: 'memory_topics', column: 'memory_id' },
+  conversation: { table: 'conversation_topics', column: 'conversation_id' },
+} as const;
+
+// Columns returned to clients; the centroid stays in the database
+const TOPIC_COLUMNS = `id, user_id, topic_name, aliases, conversation_count, memory_count, first_seen, last_seen`;
+
+const MAX_TOPIC_LENGTH = 255;
+const DETAIL_LIMIT = 50;
+
+/**
+ * Groups conversations and memories by theme. Topics extracted from each
+ * item are embedded and matched to the user's clusters by name, alias or
+ * centroid similarity; unmatched topics start a cluster. A cluster's
+ * centroid is the mean of its members' topic phrases (topic_phrases), so
+ * clusters drift as members come and go and are merged once two centroids
+ * get too close.
+ */
+export class TopicClusteringService {
+  /**
+   * Assign a closed conversation to clusters from its primary topics.
+   * Replaces earlier assignments, so closing again re-clusters it.
+   */
+  static async assignConversation(conversation: {
+    id: string;
+    user_id: string;
+    primary_topics: string[] | null;
+    started_at: Date;
+    last_message_at: Date;
+  }): Promise<string[]> {
+    const assignments = await this.assignTopics(
+      conversation.user_id,
+      conversation.primary_topics || [],
+      conversation.started_at,
+      conversation.last_message_at
+    );
+
+    return this.replaceAssignments(conversation.user_id, 'conversation', conversation.id, assignments);
+  }
+
+  /**
+   * Extract a memory's topics and assign it to clusters.
+   * Replaces earlier assignments, so an edited memory is re-clustered;
+   * they are only dropped once the new topics are known, so a failure
+   * leaves the memory where it was.
+   */
+  static async assignMemory(memory: {
+    id: string;
+    user_id: string;
+    content: string;
+    created_at: Date;
+  }): Promise<string[]> {
+    // Long memories are chunked; their opening is enough to find the themes
+    const topics = await NLPService.extractTopics(memory.content.slice(0, config.chunking.threshold));
+    const assignments = await this.assignTopics(memory.user_id, topics, memory.created_at, memory.created_at);
+
+    return this.replaceAssignments(memory.user_id, 'memory', memory.id, assignments);
+  }
+
+  /**
+   * A user's topics, most discussed first
+   */
+  static async listTopics(userId: string, options: TopicListOptions = {}): Promise<TopicCluster[]> {
+    const result = await query(
+      `SELECT ${TOPIC_COLUMNS}
+       FROM topic_clusters
+       WHERE user_id = $1
+         AND (conversation_count > 0 OR memory_count > 0)
+       ORDER BY conversation_count DESC, memory_count DESC, last_seen DESC
+       LIMIT $2 OFFSET $3`,
+      [userId, options.limit || 50, options.offset || 0]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * A topic with its most relevant conversations and memories
+   */
+  static async getTopic(userId: string, topicId: string): Promise<TopicDetail | null> {
+    const topicResult = await query(
+      `SELECT ${TOPIC_COLUMNS} FROM topic_clusters WHERE id = $1 AND user_id = $2`,
+      [topicId, userId]
+    );
+
+    const topic = topicResult.rows[0];
+    if (!topic) {
+      return null;
+    }
+
+    const conversations = await query(
+      `SELECT c.id, c.title, c.llm_platform, c.conversation_summary,
+              c.started_at, c.last_message_at, ct.relevance_score
+       FROM conversation_topics ct
+       JOIN conversations c ON c.id = ct.conversation_id
+       WHERE ct.topic_id = $1
+       ORDER BY c.last_message_at DESC
+       LIMIT $2`,
+      [topicId, DETAIL_LIMIT]
+    );
+
+    const memories = await query(
+      `SELECT m.id, m.content, m.content_type, m.created_at, mt.relevance_score
+       FROM memory_topics mt
+       JOIN memories m ON m.id = mt.memory_id
+       WHERE mt.topic_id = $1
+         AND (m.is_archived = FALSE OR m.is_archived IS NULL)
+       ORDER BY m.created_at DESC
+       LIMIT $2`,
+      [topicId, DETAIL_LIMIT]
+    );
+
+    return {
+      ...topic,
+      conversations: conversations.rows,
+      memories: memories.rows,
+    };
+  }
+
+  /**
+   * Swap an item's memberships and topic phrases for new ones in one
+   * transaction, then bring the clusters it left and joined up to date
+   */
+  private static async replaceAssignments(
+    userId: string,
+    item: keyof typeof MEMBERSHIPS,
+    itemId: string,
+    assignments: TopicAssignment[]
+  ): Promise<string[]> {
+    const { table, column } = MEMBERSHIPS[item];
+    const model = EmbeddingService.currentModel();
+
+    const previousTopicIds = await transaction(async run => {
+      const previous = await run(`DELETE FROM ${table} WHERE ${column} = $1 RETURNING topic_id`, [itemId]);
+      await run(`DELETE FROM topic_phrases WHERE ${column} = $1`, [itemId]);
+
+      for (const { topicId, relevance, phrases } of assignments) {
+        await run(
+          `INSERT INTO ${table} (${column}, topic_id, relevance_score)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (${column}, topic_id)
+           DO UPDATE SET relevance_score = GREATEST(${table}.relevance_score, EXCLUDED.relevance_score)`,
+          [itemId, topicId, relevance]
+        );
+
+        for (const phrase of phrases) {
+          await run(
+            `INSERT INTO topic_phrases (topic_id, ${column}, phrase, embedding, embedding_model)
+             VALUES ($1, $2, $3, $4::vector, $5)`,
+            [topicId, itemId, phrase.name, JSON.stringify(phrase.embedding), model]
+          );
+        }
+      }
+
+      return previous.rows.map((row: { topic_id: string }) => row.topic_id);
+    });
+
+    return this.finishAssignment(userId, previousTopicIds, assignments);
+  }
+
+  /**
+   * Merge the source cluster into the target in one transaction:
+   * memberships and topic phrases move over, the centroid is recomputed
+   * from them and the source name becomes an alias
+   */
+  private static async mergeTopics(target: ClusterMatch, source: ClusterMatch): Promise<void> {
+    await transaction(async run => {
+      await run(
+        `INSERT INTO conversation_topics (conversation_id, topic_id, relevance_score)
+         SELECT conversation_id, $1, relevance_score FROM conversation_topics WHERE topic_id = $2
+         ON CONFLICT (conversation_id, topic_id)
+         DO UPDATE SET relevance_score = GREATEST(conversation_topics.relevance_score, EXCLUDED.relevance_score)`,
+        [target.id, source.id]
+      );
+
+      await run(
+        `INSERT INTO memory_topics (memory_id, topic_id, relevance_score)
+         SELECT memory_id, $1, relevance_score FROM memory_topics WHERE topic_id = $2
+         ON CONFLICT (memory_id, topic_id)
+         DO UPDATE SET relevance_score = GREATEST(memory_topics.relevance_score, EXCLUDED.relevance_score)`,
+        [target.id, source.id]
+      );
+
+      await run(`UPDATE topic_phrases SET topic_id = $1 WHERE topic_id = $2`, [target.id, source.id]);
+
+      await run(
+        `UPDATE topic_clusters t
+         SET first_seen = LEAST(t.first_seen, s.first_seen),
+             last_seen = GREATEST(t.last_seen, s.last_seen),
+             aliases = ARRAY(
+               SELECT DISTINCT alias
+               FROM unnest(t.aliases || s.aliases || s.topic_name::text) AS alias
+               WHERE alias <> t.topic_name
+             )
+         FROM topic_clusters s
+         WHERE t.id = $1 AND s.id = $2`,
+        [target.id, source.id]
+      );
+
+      await run(`DELETE FROM topic_clusters WHERE id = $1`, [source.id]);
+      await this.recomputeCentroids([target.id], run);
+      await this.refreshCounts([target.id], run);
+    });
+
+    console.log(`Merged topic "${source.topic_name}" into "${target.topic_name}"`);
+  }
+
+  /**
+   * Resolve each topic phrase to a cluster, creating clusters as needed
+   */
+  private static async assignTopics(
+    userId: string,
+    topics: string[],
+    firstSeen: Date,
+    lastSeen: Date
+  ): Promise<TopicAssignment[]> {
+    const names = [...new Set(topics.map(topic => this.normalizeName(topic)).filter(Boolean))];
+    if (names.length === 0) {
+      return [];
+    }
+
+    const embeddings = await EmbeddingService.generateBatchEmbeddings(names);
+    const assignments = new Map<string, TopicAssignment>();
+
+    for (let i = 0; i < names.length; i++) {
+      const { topicId, relevance } = await this.resolveTopic(userId, names[i], embeddings[i], firstSeen, lastSeen);
+      const assignment = assignments.get(topicId) || { topicId, relevance, phrases: [] };
+      assignment.relevance = Math.max(assignment.relevance, relevance);
+      assignment.phrases.push({ name: names[i], embedding: embeddings[i] });
+      assignments.set(topicId, assignment);
+    }
+
+    return [...assignments.values()];
+  }
+
+  /**
+   * Find the cluster for one topic phrase (same name or alias first, then
+   * the nearest centroid), or start a new cluster. The phrase counts
+   * toward the centroid once the item's memberships are stored.
+   */
+  private static async resolveTopic(
+    userId: string,
+    name: string,
+    embedding: number[],
+    firstSeen: Date,
+    lastSeen: Date
+  ): Promise<{ topicId: string; relevance: number }> {
+    const match = await this.findByName(userId, name) || await this.findNearest(userId, embedding);
+
+    if (!match || match.similarity < config.topics.assignThreshold) {
+      const inserted = await query(
+        `INSERT INTO topic_clusters
+         (user_id, topic_name, topic_embedding, embedding_model, member_count, first_seen, last_seen)
+         VALUES ($1, $2, $3::vector, $4, 1, $5, $6)
+         ON CONFLICT (user_id, topic_name) DO UPDATE SET last_seen = GREATEST(topic_clusters.last_seen, EXCLUDED.last_seen)
+         RETURNING id`,
+        [userId, name, JSON.stringify(embedding), EmbeddingService.currentModel(), firstSeen, lastSeen]
+      );
+      return { topicId: inserted.rows[0].id, relevance: 1 };
+    }
+
+    await query(
+      `UPDATE topic_clusters
+       SET first_seen = LEAST(first_seen, $2),
+           last_seen = GREATEST(last_seen, $3)
+       WHERE id = $1`,
+      [match.id, firstSeen, lastSeen]
+    );
+
+    return { topicId: match.id, relevance: match.similarity };
+  }
+
+  private static async findByName(userId: string, name: string): Promise<ClusterMatch | null> {
+    const result = await query(
+      `SELECT id, topic_name, topic_embedding::text AS centroid, member_count, embedding_model, 1.0 AS similarity
+       FROM topic_clusters
+       WHERE user_id = $1 AND (topic_name = $2 OR $2 = ANY(aliases))
+       LIMIT 1`,
+      [userId, name]
+    );
+
+    return result.rows[0] ? this.parseMatch(result.rows[0]) : null;
+  }
+
+  private static async findNearest(
+    userId: string,
+    embedding: number[],
+    excludeId?: string
+  ): Promise<ClusterMatch | null> {
+    const result = await query(
+      `SELECT id, topic_name, topic_embedding::text AS centroid, member_count, embedding_model,
+              1 - (topic_embedding <=> $2::vector) AS similarity
+       FROM topic_clusters
+       WHERE user_id = $1
+         AND embedding_model = $3
+         AND topic_embedding IS NOT NULL
+         AND ($4::uuid IS NULL OR id <> $4::uuid)
+       ORDER BY topic_embedding <=> $2::vector
+       LIMIT 1`,
+      [userId, JSON.stringify(embedding), EmbeddingService.currentModel(), excludeId || null]
+    );
+
+    return result.rows[0] ? this.parseMatch(result.rows[0]) : null;
+  }
+
+  /**
+   * Update centroids and counts of every touched cluster and merge the
+   * assigned ones into a neighbour whose centroid is now too close.
+   * Returns the topic ids the item ended up in.
+   */
+  private static async finishAssignment(
+    userId: string,
+    previousTopicIds: string[],
+    assignments: TopicAssignment[]
+  ): Promise<string[]> {
+    const topicIds = assignments.map(assignment => assignment.topicId);
+    const touched = [...new Set([...previousTopicIds, ...topicIds])];
+    await this.recomputeCentroids(touched);
+    await this.refreshCounts(touched);
+
+    // A cluster merged away earlier in the loop lives on in the one it merged into
+    const mergedInto = new Map<string, string>();
+    const survivor = (topicId: string): string =>
+      mergedInto.has(topicId) ? survivor(mergedInto.get(topicId)!) : topicId;
+
+    for (const topicId of topicIds) {
+      const merge = await this.mergeIfClose(userId, survivor(topicId));
+      if (merge) {
+        mergedInto.set(merge.sourceId, merge.targetId);
+      }
+    }
+
+    return [...new Set(topicIds.map(survivor))];
+  }
+
+  /**
+   * Merge a cluster with its nearest neighbour when their centroids are
+   * within the merge threshold; the larger cluster survives. Returns the
+   * merged pair, or null when nothing was merged.
+   */
+  private static async mergeIfClose(
+    userId: string,
+    topicId: string
+  ): Promise<{ targetId: string; sourceId: string } | null> {
+    const current = await query(
+      `SELECT id, topic_name, topic_embedding::text AS centroid, member_count, embedding_model, 1.0 AS similarity
+       FROM topic_clusters WHERE id = $1`,
+      [topicId]
+    );
+    const cluster = current.rows[0] ? this.parseMatch(current.rows[0]) : null;
+    if (!cluster?.centroid || cluster.embedding_model !== EmbeddingService.currentModel()) {
+      return null;
+    }
+
+    const neighbour = await this.findNearest(userId, cluster.centroid, cluster.id);
+    if (!neighbour || neighbour.similarity < config.topics.mergeThreshold) {
+      return null;
+    }
+
+    const [target, source] = neighbour.member_count >= cluster.member_count
+      ? [neighbour, cluster]
+      : [cluster, neighbour];
+    await this.mergeTopics(target, source);
+
+    return { targetId: target.id, sourceId: source.id };
+  }
+
+  /**
+   * Recompute centroids as the mean of the clusters' topic phrases from
+   * the current embedding model
+   */
+  private static async recomputeCentroids(topicIds: string[], run: QueryRunner = query): Promise<void> {
+    if (topicIds.length === 0) return;
+
+    await run(
+      `UPDATE topic_clusters t
+       SET topic_embedding = p.centroid,
+           embedding_model = $2,
+           member_count = p.phrase_count
+       FROM (
+         SELECT topic_id, AVG(embedding) AS centroid, COUNT(*)::int AS phrase_count
+         FROM topic_phrases
+         WHERE topic_id = ANY($1::uuid[]) AND embedding_model = $2
+         GROUP BY topic_id
+       ) p
+       WHERE t.id = p.topic_id`,
+      [topicIds, EmbeddingService.currentModel()]
+    );
+  }
+
+  /**
+   * Recount memberships; clusters nothing belongs to any more are removed
+   */
+  private static async refreshCounts(topicIds: string[], run: QueryRunner = query): Promise<void> {
+    if (topicIds.length === 0) return;
+
+    await run(
+      `UPDATE topic_clusters t
+       SET conversation_count = (SELECT COUNT(*) FROM conversation_topics ct WHERE ct.topic_id = t.id),
+           memory_count = (SELECT COUNT(*) FROM memory_topics mt WHERE mt.topic_id = t.id)
+       WHERE t.id = ANY($1::uuid[])`,
+      [topicIds]
+    );
+
+    await run(
+      `DELETE FROM topic_clusters
+       WHERE id = ANY($1::uuid[]) AND conversation_count = 0 AND memory_count = 0`,
+      [topicIds]
+    );
+  }
+
+  private static parseMatch(row: any): ClusterMatch {
+    return {
+      id: row.id,
+      topic_name: row.topic_name,
+      centroid: row.centroid ? JSON.parse(row.centroid) : null,
+      member_count: row.member_count,
+      embedding_model: row.embedding_model,
+      similarity: Number(row.similarity),
+    };
+  }
+
+  /**
+   * Topic names are compared lowercased with collapsed whitespace
+   */
+  private static normalizeName(topic: string): string {
+    return String(topic).toLowerCase().replace(/\s+/g, ' ').trim().slice(0, MAX_TOPIC_LENGTH);
+  }
+}
@@ -83,7 +83,7 @@ describe('Authorization and Access Control Security Tests', () => {
     });
 
     it('should only return memories belonging to the requesting user', async () => {
-      const user1Memories = await GraphService.getRecentMemories(user1Id, 100);
+      const { memories: user1Memories } = await GraphService.listMemories(user1Id, 100);
 
       // Should only contain User 1's memories
       const hasUser2Memory = user1Memories.some(m => m.id === user2Memory.id);
@@ -224,7 +224,7 @@ describe('Authorization and Access Control Security Tests', () => {
 
       // Should not execute injection
       await expect(
-        GraphService.getRecentMemories(maliciousUserId, 10)
+        GraphService.listMemories(maliciousUserId, 10)
       ).resolves.toBeDefined();
 
       // Verify table still exists
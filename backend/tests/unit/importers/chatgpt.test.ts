@@ -0,0 +1,95 @@
+import { parseChatGPTExport } from '../../../src/importers/chatgpt';
+
+const node = (id: string, parent: string | null, role: string | null, text?: string, createTime?: number, extra: any = {}) => ({
+  id,
+  parent,
+  message: role
+    ? {
+      author: { role },
+      create_time: createTime ?? null,
+      content: { content_type: 'text', parts: text !== undefined ? [text] : [] },
+      metadata: extra.metadata || {},
+    }
+    : null,
+});
+
+const exportFile = [
+  {
+    id: 'conv-1',
+    conversation_id: 'conv-1',
+    title: 'Trip planning',
+    create_time: 1700000000,
+    current_node: 'a2',
+    mapping: {
+      root: node('root', null, null),
+      sys: node('sys', 'root', 'system', ''),
+      u1: node('u1', 'sys', 'user', 'Where should I hike in June?', 1700000010),
+      a1: node('a1', 'u1', 'assistant', 'Try the Dolomites.', 1700000020, { metadata: { model_slug: 'gpt-4o' } }),
+      u2: node('u2', 'a1', 'user', 'Any cheaper options?', 1700000100),
+      // Regenerated reply: only the current branch (a2) is kept
+      a2old: node('a2old', 'u2', 'assistant', 'Old answer', 1700000110),
+      a2: node('a2', 'u2', 'assistant', 'The Tatras are cheaper.', 1700000120, { metadata: { model_slug: 'gpt-4o' } }),
+    },
+  },
+];
+
+describe('parseChatGPTExport', () => {
+  it('should follow the current branch and pair user and assistant messages', () => {
+    const [conversation] = parseChatGPTExport(exportFile);
+
+    expect(conversation.platform).toBe('chatgpt');
+    expect(conversation.sessionId).toBe('conv-1');
+    expect(conversation.title).toBe('Trip planning');
+    expect(conversation.model).toBe('gpt-4o');
+    expect(conversation.url).toBe('https://chatgpt.com/c/conv-1');
+    expect(conversation.turns).toEqual([
+      expect.objectContaining({ userMessage: 'Where should I hike in June?', assistantMessage: 'Try the Dolomites.' }),
+      expect.objectContaining({ userMessage: 'Any cheaper options?', assistantMessage: 'The Tatras are cheaper.' }),
+    ]);
+  });
+
+  it('should keep the original timestamps', () => {
+    const [conversation] = parseChatGPTExport(exportFile);
+
+    expect(conversation.startedAt).toEqual(new Date(1700000000 * 1000));
+    expect(conversation.turns[1].timestamp).toEqual(new Date(1700000100 * 1000));
+  });
+
+  it('should merge consecutive assistant messages and flag images', () => {
+    const [conversation] = parseChatGPTExport([{
+      id: 'conv-2',
+      create_time: 1700000000,
+      current_node: 'a2',
+      mapping: {
+        u1: {
+          id: 'u1',
+          parent: null,
+          message: {
+            author: { role: 'user' },
+            create_time: 1700000001,
+            content: { content_type: 'multimodal_text', parts: [{ content_type: 'image_asset_pointer' }, 'What is this?'] },
+          },
+        },
+        a1: node('a1', 'u1', 'assistant', 'A cat.', 1700000002),
+        t1: node('t1', 'a1', 'tool', 'tool output', 1700000003),
+        a2: node('a2', 't1', 'assistant', 'A tabby, specifically.', 1700000004),
+      },
+    }]);
+
+    expect(conversation.turns).toHaveLength(1);
+    expect(conversation.turns[0].assistantMessage).toBe('A cat.\n\nA tabby, specifically.');
+    expect(conversation.turns[0].containsImage).toBe(true);
+  });
+
+  it('should skip conversations without any user message', () => {
+    const result = parseChatGPTExport([
+      { id: 'empty', create_time: 1700000000, current_node: 's', mapping: { s: node('s', null, 'system', 'hi') } },
+    ]);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should reject anything that is not an export array', () => {
+    expect(() => parseChatGPTExport({ conversations: [] })).toThrow('conversations.json');
+  });
+});
@@ -0,0 +1,53 @@
+import { parseClaudeExport } from '../../../src/importers/claude';
+
+describe('parseClaudeExport', () => {
+  const exportFile = [
+    {
+      uuid: 'c-1',
+      name: 'Postgres tuning',
+      created_at: '2024-05-01T09:00:00.000Z',
+      chat_messages: [
+        { sender: 'human', text: 'How do I speed up this query?', created_at: '2024-05-01T09:00:05.000Z' },
+        {
+          sender: 'assistant',
+          text: 'legacy text',
+          content: [{ type: 'text', text: 'Add an index.' }, { type: 'tool_use' }],
+          created_at: '2024-05-01T09:00:10.000Z',
+        },
+        { sender: 'human', text: '', files: [{ file_name: 'plan.png' }], created_at: '2024-05-01T09:05:00.000Z' },
+        { sender: 'assistant', text: 'That plan shows a seq scan.', created_at: '2024-05-01T09:05:10.000Z' },
+      ],
+    },
+  ];
+
+  it('should pair human and assistant messages with original timestamps', () => {
+    const [conversation] = parseClaudeExport(exportFile);
+
+    expect(conversation).toEqual(expect.objectContaining({
+      platform: 'claude',
+      sessionId: 'c-1',
+      title: 'Postgres tuning',
+      url: 'https://claude.ai/chat/c-1',
+      startedAt: new Date('2024-05-01T09:00:00.000Z'),
+    }));
+    expect(conversation.turns[0]).toEqual(expect.objectContaining({
+      userMessage: 'How do I speed up this query?',
+      assistantMessage: 'Add an index.',
+      timestamp: new Date('2024-05-01T09:00:05.000Z'),
+    }));
+  });
+
+  it('should keep file-only messages and flag them', () => {
+    const [conversation] = parseClaudeExport(exportFile);
+
+    expect(conversation.turns[1]).toEqual(expect.objectContaining({
+      userMessage: '',
+      assistantMessage: 'That plan shows a seq scan.',
+      containsImage: true,
+    }));
+  });
+
+  it('should reject anything that is not an export array', () => {
+    expect(() => parseClaudeExport('nope')).toThrow('Claude export');
+  });
+});
@@ -0,0 +1,33 @@
+import { parseJsonlTurns } from '../../../src/importers/jsonl';
+
+describe('parseJsonlTurns', () => {
+  it('should group turns by session and order them by timestamp', () => {
+    const jsonl = [
+      '{"session_id": "s1", "user": "second", "assistant": "b", "timestamp": "2025-01-01T10:05:00Z"}',
+      '',
+      '{"session_id": "s2", "user": "other", "platform": "gemini", "title": "Other chat"}',
+      '{"session_id": "s1", "user": "first", "assistant": "a", "timestamp": 1735725600, "model": "internal-v2"}',
+    ].join('\n');
+
+    const conversations = parseJsonlTurns(jsonl);
+
+    expect(conversations).toHaveLength(2);
+    const [s1, s2] = conversations;
+    expect(s1.turns.map(t => t.userMessage)).toEqual(['first', 'second']);
+    expect(s1.startedAt).toEqual(new Date('2025-01-01T10:00:00Z'));
+    expect(s1.platform).toBe('other');
+    expect(s1.model).toBe('internal-v2');
+    expect(s2).toEqual(expect.objectContaining({ platform: 'gemini', title: 'Other chat', sessionId: 's2' }));
+    expect(s2.turns[0].assistantMessage).toBe('');
+  });
+
+  it('should report the line of invalid input', () => {
+    expect(() => parseJsonlTurns('{"session_id": "s1", "user": "ok"}\n{not json')).toThrow('Line 2: invalid JSON');
+    expect(() => parseJsonlTurns('{"user": "no session"}')).toThrow('Line 1: session_id is required');
+    expect(() => parseJsonlTurns('{"session_id": "s1", "user": "x", "timestamp": "yesterday"}')).toThrow('Line 1: invalid timestamp');
+  });
+
+  it('should require text input', () => {
+    expect(() => parseJsonlTurns([{ session_id: 's1' }])).toThrow('JSONL');
+  });
+});
@@ -0,0 +1,178 @@
+import { LocalProvider, LOCAL_EMBEDDING_MODEL } from '../../../src/providers/LocalProvider';
+import { setProvider } from '../../../src/providers';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import { NLPService } from '../../../src/services/NLPService';
+import * as database from '../../../src/config/database';
+
+jest.mock('../../../src/config/database');
+
+describe('LocalProvider', () => {
+  const provider = new LocalProvider();
+
+  beforeEach(() => {
+    setProvider(provider);
+    (database.query as jest.Mock).mockResolvedValue({ rows: [] });
+  });
+
+  describe('embed', () => {
+    it('should produce 1536-dimension unit vectors', async () => {
+      const [embedding] = await provider.embed(['I love hiking in the mountains']);
+
+      expect(embedding).toHaveLength(1536);
+      const magnitude = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0));
+      expect(magnitude).toBeCloseTo(1, 6);
+    });
+
+    it('should be deterministic', async () => {
+      const [a] = await provider.embed(['Meeting with Bob on Friday']);
+      const [b] = await provider.embed(['Meeting with Bob on Friday']);
+
+      expect(a).toEqual(b);
+    });
+
+    it('should place related texts closer than unrelated ones', async () => {
+      const [base, related, unrelated] = await provider.embed([
+        'I love hiking in the mountains on weekends',
+        'Hiking in the mountains is my favorite weekend activity',
+        'The quarterly tax report is due next month',
+      ]);
+
+      expect(EmbeddingService.cosineSimilarity(base, related))
+        .toBeGreaterThan(EmbeddingService.cosineSimilarity(base, unrelated));
+    });
+
+    it('should handle punctuation-only input', async () => {
+      const [embedding] = await provider.embed(['!!!']);
+
+      expect(embedding).toHaveLength(1536);
+      expect(embedding.some(v => v !== 0)).toBe(true);
+    });
+  });
+
+  describe('rule-based stand-ins through NLPService', () => {
+    it('should categorize preferences', async () => {
+      const result = await NLPService.categorizeMemory('I really love dark chocolate');
+
+      expect(result.type).toBe('preference');
+      expect(result.importance).toBeGreaterThan(0.5);
+      expect(result.tags).toContain('chocolate');
+    });
+
+    it('should extract people, organizations and dates', async () => {
+      const entities = await NLPService.extractEntities(
+        'Yesterday I met Bob Smith from Acme Labs. We will talk again on Friday.'
+      );
+
+      expect(entities).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'person', value: 'Bob Smith' }),
+        expect.objectContaining({ type: 'organization', value: 'Acme Labs' }),
+        expect.objectContaining({ type: 'date', value: 'Friday' }),
+      ]));
+    });
+
+    it('should detect opposite preferences as a conflict', async () => {
+      const result = await NLPService.detectConflict('I love coffee', 'I hate coffee');
+
+      expect(result.hasConflict).toBe(true);
+      expect(result.confidence).toBeGreaterThan(0.6);
+    });
+
+    it('should detect negated statements as a conflict', async () => {
+      const result = await NLPService.detectConflict(
+        'The deployment pipeline runs on Kubernetes',
+        'The deployment pipeline does not run on Kubernetes'
+      );
+
+      expect(result.hasConflict).toBe(true);
+    });
+
+    it('should not flag unrelated statements', async () => {
+      const result = await NLPService.detectConflict('I love coffee', 'The sky is blue');
+
+      expect(result.hasConflict).toBe(false);
+    });
+
+    it('should classify a stated cause as causal, pointing from the cause', async () => {
+      const result = await NLPService.classifyRelationship(
+        { content: 'The release of the mobile app slipped a week' },
+        { content: 'Marketing moved the mobile app launch event because the release slipped' }
+      );
+
+      expect(result.type).toBe('causal');
+      expect(result.direction).toBe('forward');
+      expect(result.explanation).toBeDefined();
+    });
+
+    it('should order dated events about the same subject', async () => {
+      const result = await NLPService.classifyRelationship(
+        { content: 'Moved the team offsite in Lisbon to June 10, 2025' },
+        { content: 'Booked the team offsite in Lisbon on March 3, 2025' }
+      );
+
+      expect(result.type).toBe('temporal');
+      expect(result.direction).toBe('backward');
+    });
+
+    it('should order by save time when a date has no year', async () => {
+      const result = await NLPService.classifyRelationship(
+        { content: 'Booked the team offsite in Lisbon on March 5', created_at: '2025-08-01T00:00:00Z' },
+        { content: 'Moved the team offsite in Lisbon to June 10, 2025' }
+      );
+
+      expect(result.type).toBe('temporal');
+      expect(result.direction).toBe('backward');
+    });
+
+    it('should not relate different subjects', async () => {
+      const result = await NLPService.classifyRelationship(
+        { content: 'I love coffee because it is warm' },
+        { content: 'The sky is blue on Monday' }
+      );
+
+      expect(result.type).toBe('none');
+    });
+
+    it('should embed through EmbeddingService without network access', async () => {
+      const embedding = await EmbeddingService.generateEmbedding('offline test');
+
+      expect(embedding).toHaveLength(1536);
+    });
+  });
+
+  describe('answer', () => {
+    it('should answer with the best matching memory, skipping outdated ones', async () => {
+      const answer = await provider.chatCompletion({
+        task: 'answer',
+        messages: [],
+        input: {
+          question: 'What drink do I like?',
+          memories: [
+            { content: 'I like tea as my drink', outdated: true },
+            { content: 'I like sparkling water as my drink' },
+            { content: 'My car is red' },
+          ],
+        },
+      });
+
+      expect(answer).toBe('I like sparkling water as my drink');
+    });
+
+    it('should admit when nothing matches', async () => {
+      const answer = await provider.chatCompletion({
+        task: 'answer',
+        messages: [],
+        input: { question: 'Where do I live?', memories: [{ content: 'My car is red' }] },
+      });
+
+      expect(answer).toBe("I don't have that information.");
+    });
+  });
+
+  it('should describe itself for /health', () => {
+    expect(provider.describe()).toEqual(expect.objectContaining({
+      name: 'local',
+      embeddingModel: LOCAL_EMBEDDING_MODEL,
+      embeddingDimensions: 1536,
+    }));
+  });
+});
@@ -0,0 +1,245 @@
+import request from 'supertest';
+import express from 'express';
+import chatRouter from '../../../src/routes/chat';
+import { LLMService } from '../../../src/services/LLMService';
+import { ChatSessionService } from '../../../src/services/ChatSessionService';
+import { ProvenanceService } from '../../../src/services/ProvenanceService';
+
+jest.mock('../../../src/services/LLMService');
+jest.mock('../../../src/services/ChatSessionService');
+jest.mock('../../../src/services/ProvenanceService');
+const mockLLMService = LLMService as jest.Mocked<typeof LLMService>;
+const mockSessionService = ChatSessionService as jest.Mocked<typeof ChatSessionService>;
+const mockProvenanceService = ProvenanceService as jest.Mocked<typeof ProvenanceService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/chat', chatRouter);
+
+describe('Chat Routes', () => {
+  const session = { id: 'session-1', user_id: 'test-user-id', llm_platform: 'dory', title: null };
+  const history = [{ role: 'system', content: 'Summary of the earlier part of this conversation:\n...' }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLLMService.generateResponseWithMemories = jest.fn().mockResolvedValue({
+      response: 'Hello!',
+      memories: [{ id: 'mem-1', content: 'I live in Lisbon', similarity: 0.8, embedding: [0.1] }],
+    });
+    mockLLMService.extractInsights = jest.fn().mockResolvedValue(0);
+    mockSessionService.buildHistory = jest.fn().mockResolvedValue(history);
+    mockSessionService.recordExchange = jest.fn().mockResolvedValue({ id: 'turn-1', turn_number: 1 });
+    mockProvenanceService.recordRetrieval = jest.fn().mockResolvedValue(undefined);
+    mockProvenanceService.recordAnswer = jest.fn().mockResolvedValue(null);
+  });
+
+  describe('POST /api/chat', () => {
+    it('should start a session when none is given', async () => {
+      mockSessionService.createSession = jest.fn().mockResolvedValue(session);
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({ message: 'Hi' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.session_id).toBe('session-1');
+      expect(response.body.response).toBe('Hello!');
+      expect(response.body.memories).toEqual([
+        { id: 'mem-1', content: 'I live in Lisbon', similarity: 0.8 },
+      ]);
+      expect(mockSessionService.createSession).toHaveBeenCalledWith('test-user-id');
+      expect(mockLLMService.generateResponseWithMemories).toHaveBeenCalledWith('test-user-id', history, 'Hi');
+      expect(mockSessionService.recordExchange).toHaveBeenCalledWith(session, 'Hi', 'Hello!');
+    });
+
+    it('should link the retrieved memories to the stored turn', async () => {
+      mockSessionService.createSession = jest.fn().mockResolvedValue(session);
+
+      await request(app)
+        .post('/api/chat')
+        .send({ message: 'Hi' });
+
+      expect(mockProvenanceService.recordRetrieval).toHaveBeenCalledWith('session-1', 'turn-1', [
+        { id: 'mem-1', similarity: 0.8, in_prompt: true },
+      ]);
+    });
+
+    it('should continue an existing session', async () => {
+      mockSessionService.getSession = jest.fn().mockResolvedValue(session);
+      mockSessionService.createSession = jest.fn();
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({ message: 'And tomorrow?', session_id: 'session-1' });
+
+      expect(response.status).toBe(200);
+      expect(mockSessionService.getSession).toHaveBeenCalledWith('test-user-id', 'session-1');
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      mockSessionService.getSession = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({ message: 'Hi', session_id: 'missing' });
+
+      expect(response.status).toBe(404);
+      expect(mockLLMService.generateResponseWithMemories).not.toHaveBeenCalled();
+    });
+
+    it('should keep the stateless mode for clients sending conversation_history', async () => {
+      mockSessionService.createSession = jest.fn();
+      const conversationHistory = [{ role: 'user', content: 'Earlier' }, { role: 'assistant', content: 'Reply' }];
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({ message: 'Hi', conversation_history: conversationHistory });
+
+      expect(response.status).toBe(200);
+      expect(response.body.session_id).toBeUndefined();
+      expect(mockLLMService.generateResponseWithMemories)
+        .toHaveBeenCalledWith('test-user-id', conversationHistory, 'Hi');
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+      expect(mockSessionService.recordExchange).not.toHaveBeenCalled();
+      expect(mockProvenanceService.recordAnswer).toHaveBeenCalledWith('test-user-id', 'Hi', 'Hello!', [
+        { id: 'mem-1', similarity: 0.8, in_prompt: true },
+      ]);
+    });
+
+    it('should require a message', async () => {
+      const response = await request(app)
+        .post('/api/chat')
+        .send({ message: ' ' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/chat/ask', () => {
+    it('should log the answer with every retrieved memory but not return them', async () => {
+      const retrieved = [
+        { id: 'mem-1', similarity: 0.9, in_prompt: true },
+        { id: 'mem-2', similarity: 0.7, in_prompt: false },
+      ];
+      mockLLMService.answerWithMemories = jest.fn().mockResolvedValue({
+        answer: 'Lisbon',
+        memories: [{ id: 'mem-1', content: 'I live in Lisbon', similarity: 0.9 }],
+        conversations: [],
+        retrieved,
+      });
+
+      const response = await request(app)
+        .post('/api/chat/ask')
+        .send({ question: 'Where do I live?' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.answer).toBe('Lisbon');
+      expect(response.body.memories).toHaveLength(1);
+      expect(response.body).not.toHaveProperty('retrieved');
+      expect(mockProvenanceService.recordAnswer)
+        .toHaveBeenCalledWith('test-user-id', 'Where do I live?', 'Lisbon', retrieved);
+    });
+
+    it('should answer without waiting for the answer to be logged', async () => {
+      mockLLMService.answerWithMemories = jest.fn().mockResolvedValue({
+        answer: 'Lisbon',
+        memories: [],
+        conversations: [],
+        retrieved: [],
+      });
+      mockProvenanceService.recordAnswer = jest.fn().mockReturnValue(new Promise(() => {}));
+
+      const response = await request(app)
+        .post('/api/chat/ask')
+        .send({ question: 'Where do I live?' });
+
+      expect(response.status).toBe(200);
+      expect(mockProvenanceService.recordAnswer).toHaveBeenCalled();
+    });
+
+    it('should require a question', async () => {
+      mockLLMService.answerWithMemories = jest.fn();
+
+      const response = await request(app)
+        .post('/api/chat/ask')
+        .send({ question: '' });
+
+      expect(response.status).toBe(400);
+      expect(mockProvenanceService.recordAnswer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list sessions with clamped paging', async () => {
+      mockSessionService.listSessions = jest.fn().mockResolvedValue([session]);
+
+      const response = await request(app).get('/api/chat/sessions?limit=1000');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(mockSessionService.listSessions).toHaveBeenCalledWith('test-user-id', { limit: 100, offset: 0 });
+    });
+
+    it('should return a session with its messages', async () => {
+      mockSessionService.getSession = jest.fn().mockResolvedValue(session);
+      mockSessionService.getMessages = jest.fn().mockResolvedValue([{ role: 'user', content: 'Hi', turn_number: 1 }]);
+
+      const response = await request(app).get('/api/chat/sessions/session-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.messages).toHaveLength(1);
+    });
+
+    it('should rename a session', async () => {
+      mockSessionService.getSession = jest.fn().mockResolvedValue(session);
+      mockSessionService.renameSession = jest.fn().mockResolvedValue({ ...session, title: 'Weekly plan' });
+
+      const response = await request(app)
+        .patch('/api/chat/sessions/session-1')
+        .send({ title: '  Weekly plan ' });
+
+      expect(response.status).toBe(200);
+      expect(mockSessionService.renameSession).toHaveBeenCalledWith(session, 'Weekly plan');
+    });
+
+    it('should reject an empty title', async () => {
+      mockSessionService.renameSession = jest.fn();
+
+      const response = await request(app)
+        .patch('/api/chat/sessions/session-1')
+        .send({ title: '' });
+
+      expect(response.status).toBe(400);
+      expect(mockSessionService.renameSession).not.toHaveBeenCalled();
+    });
+
+    it('should delete a session', async () => {
+      mockSessionService.getSession = jest.fn().mockResolvedValue(session);
+      mockSessionService.deleteSession = jest.fn().mockResolvedValue(true);
+
+      const response = await request(app).delete('/api/chat/sessions/session-1');
+
+      expect(response.status).toBe(200);
+      expect(mockSessionService.deleteSession).toHaveBeenCalledWith(session);
+    });
+
+    it('should return 404 when deleting an unknown session', async () => {
+      mockSessionService.getSession = jest.fn().mockResolvedValue(null);
+      mockSessionService.deleteSession = jest.fn();
+
+      const response = await request(app).delete('/api/chat/sessions/missing');
+
+      expect(response.status).toBe(404);
+      expect(mockSessionService.deleteSession).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import express from 'express';
+import conversationsRouter from '../../../src/routes/conversations';
+import { ConversationService } from '../../../src/services/ConversationService';
+
+jest.mock('../../../src/services/ConversationService');
+const mockConversationService = ConversationService as jest.Mocked<typeof ConversationService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/conversations', conversationsRouter);
+
+describe('Conversation Routes', () => {
+  const openConversation = { id: 'conv-1', user_id: 'test-user-id', is_complete: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/conversations', () => {
+    it('should create a conversation', async () => {
+      mockConversationService.createConversation = jest.fn().mockResolvedValue(openConversation);
+
+      const response = await request(app)
+        .post('/api/conversations')
+        .send({ platform: 'chatgpt', model: 'gpt-4o', session_id: 'abc' });
+
+      expect(response.status).toBe(201);
+      expect(mockConversationService.createConversation).toHaveBeenCalledWith('test-user-id', {
+        platform: 'chatgpt',
+        model: 'gpt-4o',
+        title: undefined,
+        url: undefined,
+        sessionId: 'abc',
+      });
+    });
+
+    it('should reject unknown platforms', async () => {
+      mockConversationService.createConversation = jest.fn();
+
+      const response = await request(app)
+        .post('/api/conversations')
+        .send({ platform: 'myspace' });
+
+      expect(response.status).toBe(400);
+      expect(mockConversationService.createConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/conversations', () => {
+    it('should clamp the limit and parse filters', async () => {
+      mockConversationService.listConversations = jest.fn().mockResolvedValue([]);
+
+      const response = await request(app).get('/api/conversations?limit=5000&active=true&platform=claude');
+
+      expect(response.status).toBe(200);
+      expect(mockConversationService.listConversations).toHaveBeenCalledWith('test-user-id', {
+        limit: 100,
+        offset: 0,
+        platform: 'claude',
+        active: true,
+      });
+    });
+  });
+
+  describe('GET /api/conversations/:id', () => {
+    it('should return the conversation with its turns', async () => {
+      mockConversationService.getConversation = jest.fn().mockResolvedValue(openConversation);
+      mockConversationService.getTurns = jest.fn().mockResolvedValue([{ turn_number: 1 }]);
+
+      const response = await request(app).get('/api/conversations/conv-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.turns).toEqual([{ turn_number: 1 }]);
+      expect(mockConversationService.getConversation).toHaveBeenCalledWith('test-user-id', 'conv-1');
+    });
+
+    it('should return 404 for a conversation of another user', async () => {
+      mockConversationService.getConversation = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).get('/api/conversations/other');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/conversations/:id/turns', () => {
+    it('should append a single turn', async () => {
+      mockConversationService.getConversation = jest.fn().mockResolvedValue(openConversation);
+      mockConversationService.addTurns = jest.fn().mockResolvedValue([{ turn_number: 1 }]);
+
+      const response = await request(app)
+        .post('/api/conversations/conv-1/turns')
+        .send({ user_message: 'Hi', assistant_message: 'Hello!' });
+
+      expect(response.status).toBe(201);
+      expect(mockConversationService.addTurns).toHaveBeenCalledWith(openConversation, [
+        { userMessage: 'Hi', assistantMessage: 'Hello!', timestamp: undefined },
+      ]);
+    });
+
+    it('should validate every turn of a batch', async () => {
+      mockConversationService.addTurns = jest.fn();
+
+      const response = await request(app)
+        .post('/api/conversations/conv-1/turns')
+        .send({ turns: [{ user_message: 'Hi' }, { user_message: '' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Turn 1');
+      expect(mockConversationService.addTurns).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to append to a closed conversation', async () => {
+      mockConversationService.getConversation = jest.fn().mockResolvedValue({ ...openConversation, is_complete: true });
+      mockConversationService.addTurns = jest.fn();
+
+      const response = await request(app)
+        .post('/api/conversations/conv-1/turns')
+        .send({ user_message: 'Hi' });
+
+      expect(response.status).toBe(409);
+      expect(mockConversationService.addTurns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/conversations/:id/close', () => {
+    it('should close the conversation', async () => {
+      mockConversationService.getConversation = jest.fn().mockResolvedValue(openConversation);
+      mockConversationService.closeConversation = jest.fn().mockResolvedValue({
+        ...openConversation,
+        is_complete: true,
+        conversation_summary: 'A greeting.',
+      });
+
+      const response = await request(app).post('/api/conversations/conv-1/close');
+
+      expect(response.status).toBe(200);
+      expect(response.body.conversation.conversation_summary).toBe('A greeting.');
+    });
+  });
+});
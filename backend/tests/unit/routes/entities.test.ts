@@ -0,0 +1,190 @@
+import request from 'supertest';
+import express from 'express';
+import entitiesRouter from '../../../src/routes/entities';
+import { EntityService } from '../../../src/services/EntityService';
+
+jest.mock('../../../src/services/EntityService', () => ({
+  ...jest.requireActual('../../../src/services/EntityService'),
+  EntityService: {
+    listEntities: jest.fn(),
+    getEntityDetail: jest.fn(),
+    getCoOccurrences: jest.fn(),
+    mergeEntities: jest.fn(),
+    resolveEntities: jest.fn(),
+  },
+}));
+const mockEntityService = EntityService as jest.Mocked<typeof EntityService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/entities', entitiesRouter);
+
+describe('Entity Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/entities', () => {
+    it('should list entities by mention count by default', async () => {
+      mockEntityService.listEntities = jest.fn().mockResolvedValue([
+        { id: 'entity-1', entity_type: 'person', entity_value: 'Alice', mention_count: 4 },
+      ]);
+
+      const response = await request(app).get('/api/entities');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(mockEntityService.listEntities).toHaveBeenCalledWith('test-user-id', {
+        entityType: undefined,
+        sort: 'mention_count',
+        limit: 50,
+        offset: 0,
+      });
+    });
+
+    it('should pass the type filter, sort and clamped paging', async () => {
+      mockEntityService.listEntities = jest.fn().mockResolvedValue([]);
+
+      const response = await request(app).get('/api/entities?entity_type=place&sort=last_seen&limit=500&offset=-1');
+
+      expect(response.status).toBe(200);
+      expect(mockEntityService.listEntities).toHaveBeenCalledWith('test-user-id', {
+        entityType: 'place',
+        sort: 'last_seen',
+        limit: 100,
+        offset: 0,
+      });
+    });
+
+    it('should reject an unknown sort', async () => {
+      const response = await request(app).get('/api/entities?sort=entity_value');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('mention_count, last_seen');
+      expect(mockEntityService.listEntities).not.toHaveBeenCalled();
+    });
+
+    it('should reject a repeated entity_type', async () => {
+      const response = await request(app).get('/api/entities?entity_type=person&entity_type=place');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/entities/:id', () => {
+    it('should return the entity with its mentions', async () => {
+      mockEntityService.getEntityDetail = jest.fn().mockResolvedValue({
+        id: 'entity-1',
+        entity_value: 'Alice',
+        mentions: [{ memory_id: 'mem-1', context: 'met Alice in Lisbon' }],
+      });
+
+      const response = await request(app).get('/api/entities/entity-1?limit=10');
+
+      expect(response.status).toBe(200);
+      expect(response.body.entity.mentions).toEqual([{ memory_id: 'mem-1', context: 'met Alice in Lisbon' }]);
+      expect(mockEntityService.getEntityDetail).toHaveBeenCalledWith('test-user-id', 'entity-1', { limit: 10, offset: 0 });
+    });
+
+    it('should return 404 for an unknown entity', async () => {
+      mockEntityService.getEntityDetail = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).get('/api/entities/missing');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/entities/:id/co-occurrences', () => {
+    it('should return the co-occurring entities', async () => {
+      mockEntityService.getCoOccurrences = jest.fn().mockResolvedValue([
+        { id: 'entity-2', entity_value: 'Lisbon', shared_memories: 3 },
+      ]);
+
+      const response = await request(app).get('/api/entities/entity-1/co-occurrences?limit=5');
+
+      expect(response.status).toBe(200);
+      expect(response.body.entity_id).toBe('entity-1');
+      expect(response.body.count).toBe(1);
+      expect(mockEntityService.getCoOccurrences).toHaveBeenCalledWith('test-user-id', 'entity-1', 5);
+    });
+
+    it('should return 404 for an unknown entity', async () => {
+      mockEntityService.getCoOccurrences = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).get('/api/entities/missing/co-occurrences');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/entities/merge', () => {
+    const target = '11111111-1111-4111-8111-111111111111';
+    const source = '22222222-2222-4222-8222-222222222222';
+
+    it('should merge the sources into the target', async () => {
+      mockEntityService.mergeEntities = jest.fn().mockResolvedValue({
+        entity: { id: target, entity_value: 'Bob Smith', mention_count: 5 },
+        merged_ids: [source],
+        mentions_moved: 2,
+      });
+
+      const response = await request(app)
+        .post('/api/entities/merge')
+        .send({ target_id: target, source_ids: [source] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.entity.mention_count).toBe(5);
+      expect(response.body.mentions_moved).toBe(2);
+      expect(mockEntityService.mergeEntities).toHaveBeenCalledWith('test-user-id', target, [source]);
+    });
+
+    it('should reject merging an entity into itself', async () => {
+      const response = await request(app)
+        .post('/api/entities/merge')
+        .send({ target_id: target, source_ids: [target] });
+
+      expect(response.status).toBe(400);
+      expect(mockEntityService.mergeEntities).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed ids', async () => {
+      const response = await request(app)
+        .post('/api/entities/merge')
+        .send({ target_id: 'bob', source_ids: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toBeDefined();
+    });
+
+    it('should return 404 when an entity is not the user\'s', async () => {
+      mockEntityService.mergeEntities = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/entities/merge')
+        .send({ target_id: target, source_ids: [source] });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/entities/resolve', () => {
+    it('should run a resolution pass with a clamped limit', async () => {
+      mockEntityService.resolveEntities = jest.fn().mockResolvedValue({ processed: 12, merged: 3 });
+
+      const response = await request(app).post('/api/entities/resolve').send({ limit: 5000 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, processed: 12, merged: 3 });
+      expect(mockEntityService.resolveEntities).toHaveBeenCalledWith('test-user-id', 500);
+    });
+  });
+});
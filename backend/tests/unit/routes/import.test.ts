@@ -0,0 +1,104 @@
+import request from 'supertest';
+import express from 'express';
+import importRouter from '../../../src/routes/import';
+import { ConversationImportService } from '../../../src/services/ConversationImportService';
+
+jest.mock('../../../src/services/ConversationImportService');
+const mockImportService = ConversationImportService as jest.Mocked<typeof ConversationImportService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use(express.text({ type: ['text/plain', 'application/x-ndjson'] }));
+app.use('/api/import', importRouter);
+
+describe('Import Routes', () => {
+  const importJob = { id: 'job-1', format: 'chatgpt', status: 'pending', total: 1, processed: 0 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockImportService.submitImport = jest.fn().mockResolvedValue(importJob);
+  });
+
+  it('should queue a ChatGPT export sent as the raw array', async () => {
+    const response = await request(app)
+      .post('/api/import/chatgpt')
+      .send([{
+        id: 'conv-1',
+        create_time: 1700000000,
+        current_node: 'u1',
+        mapping: {
+          u1: { id: 'u1', parent: null, message: { author: { role: 'user' }, content: { parts: ['hello'] } } },
+        },
+      }]);
+
+    expect(response.status).toBe(202);
+    expect(response.body.import).toEqual(importJob);
+    expect(response.body.status_url).toBe('/api/import/jobs/job-1');
+    expect(mockImportService.submitImport).toHaveBeenCalledWith(
+      'test-user-id',
+      'chatgpt',
+      [expect.objectContaining({ platform: 'chatgpt', sessionId: 'conv-1' })],
+      { extractInsights: false }
+    );
+  });
+
+  it('should accept a wrapped body with extract_insights', async () => {
+    await request(app)
+      .post('/api/import/claude')
+      .send({ conversations: [], extract_insights: true });
+
+    expect(mockImportService.submitImport).toHaveBeenCalledWith('test-user-id', 'claude', [], { extractInsights: true });
+  });
+
+  it('should queue JSONL sent as text', async () => {
+    const response = await request(app)
+      .post('/api/import/jsonl?extract_insights=true')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('{"session_id": "s1", "user": "hi", "assistant": "hello"}\n');
+
+    expect(response.status).toBe(202);
+    expect(mockImportService.submitImport).toHaveBeenCalledWith(
+      'test-user-id',
+      'jsonl',
+      [expect.objectContaining({ sessionId: 's1', platform: 'other' })],
+      { extractInsights: true }
+    );
+  });
+
+  it('should reject files in the wrong format', async () => {
+    const response = await request(app)
+      .post('/api/import/jsonl')
+      .set('Content-Type', 'text/plain')
+      .send('not json');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Line 1: invalid JSON');
+    expect(mockImportService.submitImport).not.toHaveBeenCalled();
+  });
+
+  it('should report the progress of an import of the user', async () => {
+    mockImportService.getImportJob = jest.fn().mockResolvedValue({ ...importJob, status: 'completed', processed: 1 });
+
+    const response = await request(app).get('/api/import/jobs/job-1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.import.status).toBe('completed');
+    expect(mockImportService.getImportJob).toHaveBeenCalledWith('test-user-id', 'job-1');
+  });
+
+  it('should return 404 for an unknown import', async () => {
+    mockImportService.getImportJob = jest.fn().mockResolvedValue(null);
+
+    const response = await request(app).get('/api/import/jobs/other');
+
+    expect(response.status).toBe(404);
+  });
+});
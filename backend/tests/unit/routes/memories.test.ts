@@ -2,11 +2,20 @@ import request from 'supertest';
 import express from 'express';
 import memoriesRouter from '../../../src/routes/memories';
 import { GraphService } from '../../../src/services/GraphService';
+import { IngestionService } from '../../../src/services/IngestionService';
+import { ProvenanceService } from '../../../src/services/ProvenanceService';
 
 // Mock GraphService
 jest.mock('../../../src/services/GraphService');
 const mockGraphService = GraphService as jest.Mocked<typeof GraphService>;
 
+// Mock IngestionService
+jest.mock('../../../src/services/IngestionService');
+const mockIngestionService = IngestionService as jest.Mocked<typeof IngestionService>;
+
+jest.mock('../../../src/services/ProvenanceService');
+const mockProvenanceService = ProvenanceService as jest.Mocked<typeof ProvenanceService>;
+
 // Mock auth middleware
 jest.mock('../../../src/middleware/auth', () => ({
   authenticateApiKey: (req: any, _res: any, next: any) => {
@@ -25,95 +34,48 @@ describe('Memory Routes - Security Tests', () => {
     jest.clearAllMocks();
   });
 
-  describe('POST /api/memories - XSS Protection', () => {
-    it('should sanitize HTML tags in memory content', async () => {
-      const xssContent = '<script>alert("XSS")</script>';
-      const sanitizedContent = '&lt;script&gt;alert(&quot;XSS&quot;)&lt;&#x2F;script&gt;';
+  describe('POST /api/memories - Raw Content Storage', () => {
+    // Content is stored as written; clients escape it when rendering
+    it('should store markup verbatim instead of HTML-encoding it', async () => {
+      const markup = '<script>alert("XSS")</script>';
 
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({
         id: '123',
-        content: sanitizedContent,
+        content: markup,
         user_id: 'test-user-id'
       });
 
       const response = await request(app)
         .post('/api/memories')
-        .send({ content: xssContent });
+        .send({ content: markup });
 
-      expect(response.status).toBe(201);
-      expect(mockGraphService.createMemory).toHaveBeenCalledWith(
+      expect(response.status).toBe(202);
+      expect(mockIngestionService.submitMemory).toHaveBeenCalledWith(
         'test-user-id',
-        sanitizedContent,
+        markup,
         undefined,
         undefined
       );
     });
 
-    it('should sanitize script tags with attributes', async () => {
-      const xssContent = '<script src="evil.js"></script>';
-      const sanitizedContent = '&lt;script src=&quot;evil.js&quot;&gt;&lt;&#x2F;script&gt;';
-
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
-        id: '123',
-        content: sanitizedContent,
-        user_id: 'test-user-id'
-      });
-
-      const response = await request(app)
-        .post('/api/memories')
-        .send({ content: xssContent });
-
-      expect(response.status).toBe(201);
-      expect(mockGraphService.createMemory).toHaveBeenCalledWith(
-        'test-user-id',
-        expect.stringContaining('&lt;script'),
-        undefined,
-        undefined
-      );
-    });
-
-    it('should sanitize img tags with onerror', async () => {
-      const xssContent = '<img src=x onerror="alert(1)">';
-
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
-        id: '123',
-        content: expect.any(String),
-        user_id: 'test-user-id'
-      });
-
-      const response = await request(app)
-        .post('/api/memories')
-        .send({ content: xssContent });
-
-      expect(response.status).toBe(201);
-      const sanitizedArg = mockGraphService.createMemory.mock.calls[0][1];
-      expect(sanitizedArg).not.toContain('<img');
-      expect(sanitizedArg).toContain('&lt;img');
-    });
+    it('should keep URLs and quotes intact', async () => {
+      const content = `Docs at https://example.com/a/b?q="x" and it's useful`;
 
-    it('should sanitize iframe tags', async () => {
-      const xssContent = '<iframe src="evil.com"></iframe>';
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({ id: '123', content });
 
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
-        id: '123',
-        content: expect.any(String),
-        user_id: 'test-user-id'
-      });
-
-      const response = await request(app)
+      await request(app)
         .post('/api/memories')
-        .send({ content: xssContent });
+        .send({ content });
 
-      expect(response.status).toBe(201);
-      const sanitizedArg = mockGraphService.createMemory.mock.calls[0][1];
-      expect(sanitizedArg).not.toContain('<iframe');
-      expect(sanitizedArg).toContain('&lt;iframe');
+      const storedArg = mockIngestionService.submitMemory.mock.calls[0][1];
+      expect(storedArg).toBe(content);
+      expect(storedArg).not.toContain('&#x2F;');
     });
 
     it('should handle normal text without modification', async () => {
       const normalContent = 'This is a normal memory about machine learning';
 
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({
         id: '123',
         content: normalContent,
         user_id: 'test-user-id'
@@ -123,8 +85,8 @@ describe('Memory Routes - Security Tests', () => {
         .post('/api/memories')
         .send({ content: normalContent });
 
-      expect(response.status).toBe(201);
-      expect(mockGraphService.createMemory).toHaveBeenCalledWith(
+      expect(response.status).toBe(202);
+      expect(mockIngestionService.submitMemory).toHaveBeenCalledWith(
         'test-user-id',
         normalContent,
         undefined,
@@ -164,7 +126,7 @@ describe('Memory Routes - Security Tests', () => {
     });
 
     it('should reject invalid content_type', async () => {
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({
         id: '123',
         content: 'test',
         user_id: 'test-user-id'
@@ -182,7 +144,7 @@ describe('Memory Routes - Security Tests', () => {
     });
 
     it('should accept valid content_type', async () => {
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({
         id: '123',
         content: 'test',
         user_id: 'test-user-id',
@@ -196,7 +158,7 @@ describe('Memory Routes - Security Tests', () => {
           content_type: 'fact'
         });
 
-      expect(response.status).toBe(201);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
     });
 
@@ -217,7 +179,7 @@ describe('Memory Routes - Security Tests', () => {
     it('should prevent DOS with max content length', async () => {
       const maxAllowedContent = 'a'.repeat(50000);
 
-      mockGraphService.createMemory = jest.fn().mockResolvedValue({
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({
         id: '123',
         content: maxAllowedContent,
         user_id: 'test-user-id'
@@ -227,7 +189,7 @@ describe('Memory Routes - Security Tests', () => {
         .post('/api/memories')
         .send({ content: maxAllowedContent });
 
-      expect(response.status).toBe(201);
+      expect(response.status).toBe(202);
     });
 
     it('should reject content exceeding max length', async () => {
@@ -242,38 +204,208 @@ describe('Memory Routes - Security Tests', () => {
     });
   });
 
+  describe('POST /api/memories - Deduplication', () => {
+    it('should return the existing memory with 200 when the content is a duplicate', async () => {
+      mockIngestionService.submitMemory = jest.fn().mockResolvedValue({
+        id: 'existing-id',
+        content: 'I love hiking',
+        access_count: 3,
+        deduplicated: { type: 'exact', similarity: 1 },
+      });
+
+      const response = await request(app)
+        .post('/api/memories')
+        .send({ content: 'I love hiking' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.deduplicated).toEqual({ type: 'exact', similarity: 1 });
+      expect(response.body.memory).toEqual({ id: 'existing-id', content: 'I love hiking', access_count: 3 });
+      expect(response.body.status_url).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/memories/batch', () => {
+    it('should validate items individually, queue the valid ones and keep their order', async () => {
+      mockIngestionService.submitMemories = jest.fn().mockResolvedValue([
+        { success: true, memory: { id: 'a', processing_status: 'processing' } },
+        { success: false, error: 'Internal server error' },
+      ]);
+
+      const response = await request(app)
+        .post('/api/memories/batch')
+        .send({ memories: [{ content: '<b>one</b>' }, { content: '' }, { content: 'three' }] });
+
+      expect(response.status).toBe(202);
+      expect(mockIngestionService.submitMemories).toHaveBeenCalledWith('test-user-id', [
+        { content: '<b>one</b>', source_url: undefined, content_type: undefined },
+        { content: 'three', source_url: undefined, content_type: undefined },
+      ]);
+      expect(response.body.results).toEqual([
+        {
+          index: 0,
+          success: true,
+          id: 'a',
+          status: 'processing',
+          memory: { id: 'a', processing_status: 'processing' },
+          status_url: '/api/memories/a/status',
+        },
+        { index: 1, success: false, error: 'Content is required and must be a string' },
+        { index: 2, success: false, error: 'Internal server error' },
+      ]);
+      expect(response.body.created).toBe(1);
+      expect(response.body.failed).toBe(2);
+    });
+
+    it('should count merged duplicates separately from created memories', async () => {
+      mockIngestionService.submitMemories = jest.fn().mockResolvedValue([
+        { success: true, memory: { id: 'a', processing_status: 'processing' } },
+        {
+          success: true,
+          memory: { id: 'a', processing_status: 'processing' },
+          deduplicated: { type: 'exact', similarity: 1 },
+        },
+      ]);
+
+      const response = await request(app)
+        .post('/api/memories/batch')
+        .send({ memories: [{ content: 'same' }, { content: 'same' }] });
+
+      expect(response.body.created).toBe(1);
+      expect(response.body.deduplicated).toBe(1);
+      expect(response.body.failed).toBe(0);
+      expect(response.body.results[1].status_url).toBeUndefined();
+    });
+
+    it('should reject a missing or empty batch', async () => {
+      const response = await request(app)
+        .post('/api/memories/batch')
+        .send({ memories: [] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject batches over the size limit', async () => {
+      mockIngestionService.submitMemories = jest.fn();
+      const memories = Array.from({ length: 101 }, (_, i) => ({ content: `memory ${i}` }));
+
+      const response = await request(app)
+        .post('/api/memories/batch')
+        .send({ memories });
+
+      expect(response.status).toBe(400);
+      expect(mockIngestionService.submitMemories).not.toHaveBeenCalled();
+    });
+
+    it('should not call the service when every item is invalid', async () => {
+      mockIngestionService.submitMemories = jest.fn();
+
+      const response = await request(app)
+        .post('/api/memories/batch')
+        .send({ memories: [{ content: 42 }, { content: 'x', content_type: 'invalid' }] });
+
+      expect(response.status).toBe(202);
+      expect(response.body.failed).toBe(2);
+      expect(mockIngestionService.submitMemories).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/memories - Query Parameter Validation', () => {
     it('should clamp limit parameter to prevent DOS', async () => {
-      mockGraphService.getRecentMemories = jest.fn().mockResolvedValue([]);
+      mockGraphService.listMemories = jest.fn().mockResolvedValue({ memories: [], next_cursor: null, total_estimate: 0 });
 
       await request(app)
         .get('/api/memories')
         .query({ limit: 99999 });
 
       // Should be clamped to max of 1000
-      expect(mockGraphService.getRecentMemories).toHaveBeenCalledWith('test-user-id', 1000);
+      expect(mockGraphService.listMemories).toHaveBeenCalledWith('test-user-id', 1000, {}, undefined);
     });
 
     it('should handle negative limit by using minimum', async () => {
-      mockGraphService.getRecentMemories = jest.fn().mockResolvedValue([]);
+      mockGraphService.listMemories = jest.fn().mockResolvedValue({ memories: [], next_cursor: null, total_estimate: 0 });
 
       await request(app)
         .get('/api/memories')
         .query({ limit: -100 });
 
       // Should be clamped to min of 1
-      expect(mockGraphService.getRecentMemories).toHaveBeenCalledWith('test-user-id', 1);
+      expect(mockGraphService.listMemories).toHaveBeenCalledWith('test-user-id', 1, {}, undefined);
     });
 
     it('should use default limit for invalid values', async () => {
-      mockGraphService.getRecentMemories = jest.fn().mockResolvedValue([]);
+      mockGraphService.listMemories = jest.fn().mockResolvedValue({ memories: [], next_cursor: null, total_estimate: 0 });
 
       await request(app)
         .get('/api/memories')
         .query({ limit: 'invalid' });
 
       // Should use default of 20
-      expect(mockGraphService.getRecentMemories).toHaveBeenCalledWith('test-user-id', 20);
+      expect(mockGraphService.listMemories).toHaveBeenCalledWith('test-user-id', 20, {}, undefined);
+    });
+
+    it('should parse filters from the query string', async () => {
+      mockGraphService.listMemories = jest.fn().mockResolvedValue({ memories: [], next_cursor: null, total_estimate: 0 });
+
+      const response = await request(app)
+        .get('/api/memories')
+        .query({ limit: 5, content_type: 'fact,event', tags: 'work', min_importance: '0.5', status: 'archived' });
+
+      expect(response.status).toBe(200);
+      expect(mockGraphService.listMemories).toHaveBeenCalledWith('test-user-id', 5, {
+        content_type: ['fact', 'event'],
+        tags: ['work'],
+        min_importance: 0.5,
+        status: 'archived',
+      }, undefined);
+    });
+
+    it('should reject invalid filters', async () => {
+      mockGraphService.listMemories = jest.fn();
+
+      const response = await request(app)
+        .get('/api/memories')
+        .query({ created_after: 'yesterday-ish', status: 'deleted' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid filters');
+      expect(response.body.details).toHaveLength(2);
+      expect(mockGraphService.listMemories).not.toHaveBeenCalled();
+    });
+
+    it('should continue from the cursor and return the next one', async () => {
+      const cursor = Buffer.from(JSON.stringify({
+        created_at: '2026-10-01 09:30:00.123456',
+        id: '6f1c2a4e-8b9d-4c3e-a1f2-0d9e8c7b6a5f',
+      })).toString('base64url');
+      mockGraphService.listMemories = jest.fn().mockResolvedValue({
+        memories: [{ id: 'mem-1' }],
+        next_cursor: 'next-page',
+        total_estimate: 1200,
+      });
+
+      const response = await request(app)
+        .get('/api/memories')
+        .query({ limit: 1, cursor });
+
+      expect(response.status).toBe(200);
+      expect(response.body.next_cursor).toBe('next-page');
+      expect(response.body.total_estimate).toBe(1200);
+      expect(mockGraphService.listMemories).toHaveBeenCalledWith('test-user-id', 1, {}, {
+        created_at: '2026-10-01 09:30:00.123456',
+        id: '6f1c2a4e-8b9d-4c3e-a1f2-0d9e8c7b6a5f',
+      });
+    });
+
+    it('should reject a malformed cursor', async () => {
+      mockGraphService.listMemories = jest.fn();
+
+      const response = await request(app)
+        .get('/api/memories')
+        .query({ cursor: 'not-a-cursor' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid cursor');
+      expect(mockGraphService.listMemories).not.toHaveBeenCalled();
     });
   });
 
@@ -289,7 +421,7 @@ describe('Memory Routes - Security Tests', () => {
         .query({ depth: 999 });
 
       // Should be clamped to max of 5
-      expect(mockGraphService.getMemoryGraph).toHaveBeenCalledWith('test-user-id', undefined, 5);
+      expect(mockGraphService.getMemoryGraph).toHaveBeenCalledWith('test-user-id', undefined, 5, {});
     });
 
     it('should handle negative depth by using minimum', async () => {
@@ -303,7 +435,33 @@ describe('Memory Routes - Security Tests', () => {
         .query({ depth: -10 });
 
       // Should be clamped to min of 1
-      expect(mockGraphService.getMemoryGraph).toHaveBeenCalledWith('test-user-id', undefined, 1);
+      expect(mockGraphService.getMemoryGraph).toHaveBeenCalledWith('test-user-id', undefined, 1, {});
+    });
+
+    it('should pass traversal filters on', async () => {
+      mockGraphService.getMemoryGraph = jest.fn().mockResolvedValue({ nodes: [], edges: [] });
+
+      const response = await request(app)
+        .get('/api/memories/graph/view')
+        .query({ memory_id: 'mem-1', depth: 3, min_strength: 0.6, types: 'extends, causal', max_nodes_per_hop: 500 });
+
+      expect(response.status).toBe(200);
+      expect(mockGraphService.getMemoryGraph).toHaveBeenCalledWith('test-user-id', 'mem-1', 3, {
+        minStrength: 0.6,
+        relationshipTypes: ['extends', 'causal'],
+        maxNodesPerHop: 100,
+      });
+    });
+
+    it('should reject malformed relationship types', async () => {
+      mockGraphService.getMemoryGraph = jest.fn();
+
+      const response = await request(app)
+        .get('/api/memories/graph/view')
+        .query({ types: "extends'; DROP TABLE memories;--" });
+
+      expect(response.status).toBe(400);
+      expect(mockGraphService.getMemoryGraph).not.toHaveBeenCalled();
     });
   });
 
@@ -328,4 +486,191 @@ describe('Memory Routes - Security Tests', () => {
       expect(response.body.error).toBe('Memory not found');
     });
   });
+
+  describe('GET /api/memories/:id/status', () => {
+    it('should return stage progress for own memory', async () => {
+      mockIngestionService.getStatus = jest.fn().mockResolvedValue({
+        memory_id: '123',
+        processing_status: 'processing',
+        job: { status: 'pending', attempts: 1 },
+        stages: [{ stage: 'embedding', status: 'failed', error: 'timeout' }]
+      });
+
+      const response = await request(app)
+        .get('/api/memories/123/status');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status.stages[0].error).toBe('timeout');
+      expect(mockIngestionService.getStatus).toHaveBeenCalledWith('test-user-id', '123');
+    });
+
+    it('should return 404 for non-existent memory', async () => {
+      mockIngestionService.getStatus = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/memories/nonexistent/status');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/memories/:id', () => {
+    const existing = { id: '123', content: 'old', version: 1, processing_status: 'ready' };
+
+    it('should accept new content for background processing', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(existing);
+      mockIngestionService.updateMemory = jest.fn()
+        .mockResolvedValue({ ...existing, content: 'new', version: 2, processing_status: 'processing' });
+
+      const response = await request(app)
+        .patch('/api/memories/123')
+        .send({ content: 'new', tags: [' hiking ', 'hiking'] });
+
+      expect(response.status).toBe(202);
+      expect(response.body.memory.version).toBe(2);
+      expect(response.body.status_url).toBe('/api/memories/123/status');
+      expect(mockGraphService.getMemoryById).toHaveBeenCalledWith('test-user-id', '123');
+      expect(mockIngestionService.updateMemory).toHaveBeenCalledWith(existing, { content: 'new', tags: ['hiking'] });
+    });
+
+    it('should answer 200 for a tags-only edit', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(existing);
+      mockIngestionService.updateMemory = jest.fn().mockResolvedValue({ ...existing, version: 2 });
+
+      const response = await request(app).patch('/api/memories/123').send({ tags: ['hiking'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status_url).toBeUndefined();
+    });
+
+    it('should store edited content verbatim', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(existing);
+      mockIngestionService.updateMemory = jest.fn().mockResolvedValue(existing);
+
+      await request(app)
+        .patch('/api/memories/123')
+        .send({ content: 'See https://example.com/<path>' });
+
+      expect(mockIngestionService.updateMemory.mock.calls[0][1].content).toBe('See https://example.com/<path>');
+    });
+
+    it('should reject an empty or invalid update', async () => {
+      mockIngestionService.updateMemory = jest.fn();
+
+      const empty = await request(app).patch('/api/memories/123').send({});
+      const badType = await request(app).patch('/api/memories/123').send({ content_type: 'invalid' });
+      const badTags = await request(app).patch('/api/memories/123').send({ tags: 'hiking' });
+
+      expect(empty.status).toBe(400);
+      expect(badType.status).toBe(400);
+      expect(badTags.status).toBe(400);
+      expect(mockIngestionService.updateMemory).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a memory of another user', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(null);
+      mockIngestionService.updateMemory = jest.fn();
+
+      const response = await request(app).patch('/api/memories/other').send({ content: 'new' });
+
+      expect(response.status).toBe(404);
+      expect(mockIngestionService.updateMemory).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 while the memory is still being ingested', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue({ ...existing, processing_status: 'processing' });
+
+      const response = await request(app).patch('/api/memories/123').send({ content: 'new' });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('GET /api/memories/:id/history', () => {
+    it('should list prior versions with the current version number', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue({ id: '123', version: 3 });
+      mockGraphService.getMemoryHistory = jest.fn().mockResolvedValue([{ version: 2 }, { version: 1 }]);
+
+      const response = await request(app).get('/api/memories/123/history');
+
+      expect(response.status).toBe(200);
+      expect(response.body.current_version).toBe(3);
+      expect(response.body.versions).toEqual([{ version: 2 }, { version: 1 }]);
+      expect(mockGraphService.getMemoryHistory).toHaveBeenCalledWith('test-user-id', '123');
+    });
+
+    it('should return 404 for non-existent memory', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).get('/api/memories/nonexistent/history');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/memories/:id/usages', () => {
+    it('should list the answers the memory was retrieved for', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue({ id: 'mem-1' });
+      mockProvenanceService.getMemoryUsages = jest.fn().mockResolvedValue([
+        { turn_id: 'turn-1', question: 'Where do I live?', answer: 'Lisbon', relevance_score: 0.9, was_mentioned: true },
+      ]);
+
+      const response = await request(app).get('/api/memories/mem-1/usages?limit=500');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.usages[0].question).toBe('Where do I live?');
+      expect(mockProvenanceService.getMemoryUsages)
+        .toHaveBeenCalledWith('test-user-id', 'mem-1', { limit: 100, offset: 0 });
+    });
+
+    it('should return 404 for a memory of another user', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(null);
+      mockProvenanceService.getMemoryUsages = jest.fn();
+
+      const response = await request(app).get('/api/memories/mem-1/usages');
+
+      expect(response.status).toBe(404);
+      expect(mockProvenanceService.getMemoryUsages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/memories/:id/revert', () => {
+    const existing = { id: '123', content: 'new', version: 2, processing_status: 'ready' };
+
+    it('should revert to an earlier version', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(existing);
+      mockIngestionService.revertMemory = jest.fn()
+        .mockResolvedValue({ ...existing, content: 'old', version: 3, processing_status: 'processing' });
+
+      const response = await request(app).post('/api/memories/123/revert').send({ version: 1 });
+
+      expect(response.status).toBe(202);
+      expect(response.body.status_url).toBe('/api/memories/123/status');
+      expect(response.body.memory.content).toBe('old');
+      expect(response.body.reverted_to).toBe(1);
+      expect(mockIngestionService.revertMemory).toHaveBeenCalledWith(existing, 1);
+    });
+
+    it('should reject invalid or current versions', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(existing);
+      mockIngestionService.revertMemory = jest.fn();
+
+      const invalid = await request(app).post('/api/memories/123/revert').send({ version: '1; DROP TABLE' });
+      const current = await request(app).post('/api/memories/123/revert').send({ version: 2 });
+
+      expect(invalid.status).toBe(400);
+      expect(current.status).toBe(400);
+      expect(mockIngestionService.revertMemory).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown version', async () => {
+      mockGraphService.getMemoryById = jest.fn().mockResolvedValue(existing);
+      mockIngestionService.revertMemory = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).post('/api/memories/123/revert').send({ version: 7 });
+
+      expect(response.status).toBe(404);
+    });
+  });
 });
@@ -0,0 +1,158 @@
+import request from 'supertest';
+import express from 'express';
+import relationshipsRouter from '../../../src/routes/relationships';
+import { RelationshipService } from '../../../src/services/RelationshipService';
+
+jest.mock('../../../src/services/RelationshipService', () => ({
+  ...jest.requireActual('../../../src/services/RelationshipService'),
+  RelationshipService: {
+    listForMemory: jest.fn(),
+    createRelationship: jest.fn(),
+    updateRelationship: jest.fn(),
+    deleteRelationship: jest.fn(),
+  },
+}));
+const mockRelationshipService = RelationshipService as jest.Mocked<typeof RelationshipService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/relationships', relationshipsRouter);
+
+describe('Relationship Routes', () => {
+  const memoryA = '11111111-1111-4111-8111-111111111111';
+  const memoryB = '22222222-2222-4222-8222-222222222222';
+  const edge = {
+    id: 'edge-1',
+    source_memory_id: memoryA,
+    target_memory_id: memoryB,
+    relationship_type: 'causal',
+    strength: 0.9,
+    metadata: { source: 'user' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/relationships', () => {
+    it('should list the edges of a memory', async () => {
+      mockRelationshipService.listForMemory = jest.fn().mockResolvedValue([edge]);
+
+      const response = await request(app).get(`/api/relationships?memory_id=${memoryA}&limit=999`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(mockRelationshipService.listForMemory).toHaveBeenCalledWith('test-user-id', memoryA, 200);
+    });
+
+    it('should require a memory_id', async () => {
+      const response = await request(app).get('/api/relationships?memory_id=abc');
+
+      expect(response.status).toBe(400);
+      expect(mockRelationshipService.listForMemory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/relationships', () => {
+    it('should create a user edge', async () => {
+      mockRelationshipService.createRelationship = jest.fn().mockResolvedValue(edge);
+
+      const response = await request(app)
+        .post('/api/relationships')
+        .send({ source_memory_id: memoryA, target_memory_id: memoryB, relationship_type: 'causal', strength: 0.9 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.relationship).toEqual(edge);
+      expect(mockRelationshipService.createRelationship).toHaveBeenCalledWith('test-user-id', {
+        sourceMemoryId: memoryA,
+        targetMemoryId: memoryB,
+        relationshipType: 'causal',
+        strength: 0.9,
+        note: undefined,
+      });
+    });
+
+    it('should reject part_of, self edges and out-of-range strength', async () => {
+      const bodies = [
+        { source_memory_id: memoryA, target_memory_id: memoryB, relationship_type: 'part_of' },
+        { source_memory_id: memoryA, target_memory_id: memoryA, relationship_type: 'extends' },
+        { source_memory_id: memoryA, target_memory_id: memoryB, relationship_type: 'extends', strength: 2 },
+      ];
+
+      for (const body of bodies) {
+        const response = await request(app).post('/api/relationships').send(body);
+        expect(response.status).toBe(400);
+      }
+      expect(mockRelationshipService.createRelationship).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when a memory is not the user\'s', async () => {
+      mockRelationshipService.createRelationship = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/relationships')
+        .send({ source_memory_id: memoryA, target_memory_id: memoryB, relationship_type: 'extends' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/relationships/:id', () => {
+    it('should relabel and reweight an edge', async () => {
+      mockRelationshipService.updateRelationship = jest.fn().mockResolvedValue({ ...edge, relationship_type: 'related_to' });
+
+      const response = await request(app)
+        .patch('/api/relationships/edge-1')
+        .send({ relationship_type: 'related_to', strength: 0.4 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.relationship.relationship_type).toBe('related_to');
+      expect(mockRelationshipService.updateRelationship).toHaveBeenCalledWith('test-user-id', 'edge-1', {
+        relationshipType: 'related_to',
+        strength: 0.4,
+        note: undefined,
+      });
+    });
+
+    it('should reject an empty or unknown change', async () => {
+      expect((await request(app).patch('/api/relationships/edge-1').send({})).status).toBe(400);
+      expect((await request(app).patch('/api/relationships/edge-1').send({ source_memory_id: memoryB })).status).toBe(400);
+      expect(mockRelationshipService.updateRelationship).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown edge', async () => {
+      mockRelationshipService.updateRelationship = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).patch('/api/relationships/missing').send({ strength: 0.2 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/relationships/:id', () => {
+    it('should delete an edge', async () => {
+      mockRelationshipService.deleteRelationship = jest.fn().mockResolvedValue(true);
+
+      const response = await request(app).delete('/api/relationships/edge-1');
+
+      expect(response.status).toBe(200);
+      expect(mockRelationshipService.deleteRelationship).toHaveBeenCalledWith('test-user-id', 'edge-1');
+    });
+
+    it('should return 404 for an unknown edge', async () => {
+      mockRelationshipService.deleteRelationship = jest.fn().mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/relationships/missing');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import request from 'supertest';
+import express from 'express';
+import searchRouter from '../../../src/routes/search';
+import { GraphService } from '../../../src/services/GraphService';
+import { SearchService } from '../../../src/services/SearchService';
+
+jest.mock('../../../src/services/GraphService');
+jest.mock('../../../src/services/SearchService');
+const mockGraphService = GraphService as jest.Mocked<typeof GraphService>;
+const mockSearchService = SearchService as jest.Mocked<typeof SearchService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/search', searchRouter);
+
+describe('Search Routes', () => {
+  const emptyPage = { results: [], next_cursor: null, total_estimate: 0 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGraphService.trackAccess = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it('should search memories only by default', async () => {
+    mockGraphService.searchMemoriesPage = jest.fn().mockResolvedValue({
+      results: [{ id: 'mem-1', similarity: 0.9 }],
+      next_cursor: null,
+      total_estimate: 1,
+    });
+    mockSearchService.unifiedSearch = jest.fn();
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'lisbon', limit: 5 });
+
+    expect(response.status).toBe(200);
+    expect(mockGraphService.searchMemoriesPage).toHaveBeenCalledWith('test-user-id', 'lisbon', 5, 'vector', {}, undefined);
+    expect(mockSearchService.unifiedSearch).not.toHaveBeenCalled();
+  });
+
+  it('should pass the search mode on', async () => {
+    mockGraphService.searchMemoriesPage = jest.fn().mockResolvedValue(emptyPage);
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'ERR-4012', mode: 'keyword' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.mode).toBe('keyword');
+    expect(mockGraphService.searchMemoriesPage).toHaveBeenCalledWith('test-user-id', 'ERR-4012', 10, 'keyword', {}, undefined);
+  });
+
+  it('should validate filters and pass them on', async () => {
+    mockGraphService.searchMemoriesPage = jest.fn().mockResolvedValue(emptyPage);
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({
+        query: 'deploy',
+        filters: { tags: ['work'], created_after: '2026-01-01', source_domain: 'GitHub.com', entity: 'Kubernetes' },
+      });
+
+    expect(response.status).toBe(200);
+    expect(mockGraphService.searchMemoriesPage).toHaveBeenCalledWith('test-user-id', 'deploy', 10, 'vector', {
+      tags: ['work'],
+      created_after: new Date('2026-01-01'),
+      source_domain: 'github.com',
+      entity: 'Kubernetes',
+    }, undefined);
+  });
+
+  it('should reject unknown or invalid filters', async () => {
+    mockGraphService.searchMemoriesPage = jest.fn();
+
+    for (const filters of [{ tag: 'work' }, { min_importance: 2 }, { source_domain: 'https://github.com/x' }]) {
+      const response = await request(app)
+        .post('/api/search')
+        .send({ query: 'deploy', filters });
+
+      expect(response.status).toBe(400);
+    }
+    expect(mockGraphService.searchMemoriesPage).not.toHaveBeenCalled();
+  });
+
+  it('should reject filters with scope "all"', async () => {
+    mockSearchService.unifiedSearch = jest.fn();
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'deploy', scope: 'all', filters: { tags: ['work'] } });
+
+    expect(response.status).toBe(400);
+    expect(mockSearchService.unifiedSearch).not.toHaveBeenCalled();
+  });
+
+  it('should page with the cursor of the previous response', async () => {
+    const position = { score: 0.031, id: '6f1c2a4e-8b9d-4c3e-a1f2-0d9e8c7b6a5f', depth: 10 };
+    mockGraphService.searchMemoriesPage = jest.fn().mockResolvedValue({
+      results: [{ id: 'mem-11', similarity: 0.5 }],
+      next_cursor: 'next-page',
+      total_estimate: 240,
+    });
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'deploy', cursor: Buffer.from(JSON.stringify(position)).toString('base64url') });
+
+    expect(response.status).toBe(200);
+    expect(response.body.next_cursor).toBe('next-page');
+    expect(response.body.total_estimate).toBe(240);
+    expect(mockGraphService.searchMemoriesPage)
+      .toHaveBeenCalledWith('test-user-id', 'deploy', 10, 'vector', {}, position);
+  });
+
+  it('should reject a listing cursor', async () => {
+    mockGraphService.searchMemoriesPage = jest.fn();
+    const listCursor = Buffer.from(JSON.stringify({
+      created_at: '2026-10-01 09:30:00',
+      id: '6f1c2a4e-8b9d-4c3e-a1f2-0d9e8c7b6a5f',
+    })).toString('base64url');
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'deploy', cursor: listCursor });
+
+    expect(response.status).toBe(400);
+    expect(mockGraphService.searchMemoriesPage).not.toHaveBeenCalled();
+  });
+
+  it('should reject an unknown mode', async () => {
+    mockGraphService.searchMemoriesPage = jest.fn();
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'lisbon', mode: 'fuzzy' });
+
+    expect(response.status).toBe(400);
+    expect(mockGraphService.searchMemoriesPage).not.toHaveBeenCalled();
+  });
+
+  it('should search memories and conversations with scope "all"', async () => {
+    mockSearchService.unifiedSearch = jest.fn().mockResolvedValue([
+      { type: 'turn', id: 'turn-1', score: 1, link: { conversation_id: 'conv-1', turn_number: 3 } },
+      { type: 'memory', id: 'mem-1', score: 0.5, link: { memory_id: 'mem-1' } },
+    ]);
+
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'lisbon', scope: 'all' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.scope).toBe('all');
+    expect(response.body.count).toBe(2);
+    expect(response.body.results[0].link).toEqual({ conversation_id: 'conv-1', turn_number: 3 });
+    expect(mockSearchService.unifiedSearch).toHaveBeenCalledWith('test-user-id', 'lisbon', 10);
+    // Only memories have an access count
+    expect(mockGraphService.trackAccess).toHaveBeenCalledTimes(1);
+    expect(mockGraphService.trackAccess).toHaveBeenCalledWith('mem-1');
+  });
+
+  it('should reject an unknown scope', async () => {
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: 'lisbon', scope: 'everything' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should require a query', async () => {
+    const response = await request(app)
+      .post('/api/search')
+      .send({ query: '  ' });
+
+    expect(response.status).toBe(400);
+  });
+});
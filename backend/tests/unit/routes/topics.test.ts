@@ -0,0 +1,60 @@
+import request from 'supertest';
+import express from 'express';
+import topicsRouter from '../../../src/routes/topics';
+import { TopicClusteringService } from '../../../src/services/TopicClusteringService';
+
+jest.mock('../../../src/services/TopicClusteringService');
+const mockTopicService = TopicClusteringService as jest.Mocked<typeof TopicClusteringService>;
+
+// Mock auth middleware
+jest.mock('../../../src/middleware/auth', () => ({
+  authenticateApiKey: (req: any, _res: any, next: any) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/topics', topicsRouter);
+
+describe('Topic Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list topics with clamped paging', async () => {
+    mockTopicService.listTopics = jest.fn().mockResolvedValue([
+      { id: 'topic-1', topic_name: 'travel', conversation_count: 3, memory_count: 1 },
+    ]);
+
+    const response = await request(app).get('/api/topics?limit=500&offset=-3');
+
+    expect(response.status).toBe(200);
+    expect(response.body.count).toBe(1);
+    expect(mockTopicService.listTopics).toHaveBeenCalledWith('test-user-id', { limit: 100, offset: 0 });
+  });
+
+  it('should return a topic with its conversations and memories', async () => {
+    mockTopicService.getTopic = jest.fn().mockResolvedValue({
+      id: 'topic-1',
+      topic_name: 'travel',
+      conversations: [{ id: 'conv-1' }],
+      memories: [],
+    });
+
+    const response = await request(app).get('/api/topics/topic-1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.topic.conversations).toEqual([{ id: 'conv-1' }]);
+    expect(mockTopicService.getTopic).toHaveBeenCalledWith('test-user-id', 'topic-1');
+  });
+
+  it('should return 404 for an unknown topic', async () => {
+    mockTopicService.getTopic = jest.fn().mockResolvedValue(null);
+
+    const response = await request(app).get('/api/topics/missing');
+
+    expect(response.status).toBe(404);
+  });
+});
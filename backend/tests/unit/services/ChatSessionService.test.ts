@@ -0,0 +1,136 @@
+import { ChatSessionService } from '../../../src/services/ChatSessionService';
+import { Conversation } from '../../../src/services/ConversationService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import { NLPService } from '../../../src/services/NLPService';
+import * as database from '../../../src/config/database';
+import { mockEmbedding } from '../../fixtures/test-data';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+jest.mock('../../../src/services/NLPService');
+jest.mock('../../../src/services/TopicClusteringService');
+
+describe('ChatSessionService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+  const session = (overrides: Partial<Conversation> = {}) => ({
+    id: 'session-1',
+    user_id: 'user-1',
+    llm_platform: 'dory',
+    title: null,
+    conversation_summary: null,
+    summarized_through_turn: 0,
+    ...overrides,
+  }) as Conversation;
+
+  // Turns of 1,000 tokens each (500 per message)
+  const turns = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => ({
+    turn_number: from + i,
+    user_message: `question ${from + i}`,
+    user_message_tokens: 500,
+    assistant_message: `answer ${from + i}`,
+    assistant_message_tokens: 500,
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+    (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+    (NLPService.summarize as jest.Mock).mockResolvedValue('They discussed questions 1 to 4.');
+  });
+
+  describe('getSession', () => {
+    it('should not treat imported conversations as chat sessions', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [session({ llm_platform: 'chatgpt' })] } as any);
+
+      expect(await ChatSessionService.getSession('user-1', 'session-1')).toBeNull();
+    });
+  });
+
+  describe('buildHistory', () => {
+    it('should send every turn while within the token budget', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: turns(1, 2) } as any);
+
+      const history = await ChatSessionService.buildHistory(session());
+
+      expect(history).toEqual([
+        { role: 'user', content: 'question 1' },
+        { role: 'assistant', content: 'answer 1' },
+        { role: 'user', content: 'question 2' },
+        { role: 'assistant', content: 'answer 2' },
+      ]);
+      expect(NLPService.summarize).not.toHaveBeenCalled();
+    });
+
+    it('should fold the oldest turns into a summary once over budget', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: turns(1, 8) } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      const history = await ChatSessionService.buildHistory(session());
+
+      // 8,000 tokens against a 4,000 budget; the 4 most recent turns stay verbatim
+      expect(NLPService.summarize).toHaveBeenCalledWith(expect.stringContaining('User: question 1'), 1000);
+      expect((NLPService.summarize as jest.Mock).mock.calls[0][0]).not.toContain('question 5');
+      expect(history[0]).toEqual({
+        role: 'system',
+        content: 'Summary of the earlier part of this conversation:\nThey discussed questions 1 to 4.',
+      });
+      expect(history.slice(1).map(m => m.content)).toEqual([
+        'question 5', 'answer 5', 'question 6', 'answer 6',
+        'question 7', 'answer 7', 'question 8', 'answer 8',
+      ]);
+
+      const update = mockQuery.mock.calls.find(call => call[0].includes('summarized_through_turn = $3'));
+      expect(update![1]).toEqual([
+        'session-1', 'They discussed questions 1 to 4.', 4, JSON.stringify(mockEmbedding), 'test-model',
+      ]);
+    });
+
+    it('should reuse the stored summary for turns it already covers', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: turns(1, 6) } as any);
+
+      const history = await ChatSessionService.buildHistory(
+        session({ conversation_summary: 'Earlier summary.', summarized_through_turn: 4 })
+      );
+
+      expect(NLPService.summarize).not.toHaveBeenCalled();
+      expect(history.map(m => m.content)).toEqual([
+        'Summary of the earlier part of this conversation:\nEarlier summary.',
+        'question 5', 'answer 5', 'question 6', 'answer 6',
+      ]);
+    });
+
+    it('should extend the previous summary when folding more turns', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: turns(1, 12) } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await ChatSessionService.buildHistory(
+        session({ conversation_summary: 'Earlier summary.', summarized_through_turn: 4 })
+      );
+
+      const text = (NLPService.summarize as jest.Mock).mock.calls[0][0];
+      expect(text).toContain('Summary of the conversation so far:\nEarlier summary.');
+      expect(text).toContain('User: question 5');
+      expect(text).not.toContain('question 4');
+    });
+  });
+
+  describe('recordExchange', () => {
+    it('should store the turn and title an untitled session', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        ({ rows: sql.includes('MAX(turn_number)') ? [{ last_turn: 0 }] : [] }) as any);
+      (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockImplementation(async (texts: string[]) =>
+        texts.map(() => mockEmbedding));
+
+      await ChatSessionService.recordExchange(session(), 'Plan my   week', 'Sure!');
+
+      expect(mockQuery.mock.calls.some(call => call[0].includes('INSERT INTO conversation_turns'))).toBe(true);
+      const title = mockQuery.mock.calls.find(call => call[0].includes('COALESCE(title, $2)'));
+      expect(title![1]).toEqual(['session-1', 'Plan my week']);
+    });
+  });
+});
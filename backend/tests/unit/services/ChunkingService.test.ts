@@ -0,0 +1,55 @@
+import { ChunkingService } from '../../../src/services/ChunkingService';
+
+describe('ChunkingService', () => {
+  const sentences = (count: number, prefix: string) =>
+    Array.from({ length: count }, (_, i) => `${prefix} sentence ${i} is here.`).join(' ');
+
+  describe('needsChunking', () => {
+    it('should only chunk content above the threshold', () => {
+      expect(ChunkingService.needsChunking('short')).toBe(false);
+      expect(ChunkingService.needsChunking('a'.repeat(8001))).toBe(true);
+    });
+  });
+
+  describe('split', () => {
+    it('should keep every chunk within the size limit', () => {
+      const text = sentences(400, 'Alpha');
+      const chunks = ChunkingService.split(text, 1000, 100);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(1000));
+    });
+
+    it('should overlap neighbouring chunks', () => {
+      const chunks = ChunkingService.split(sentences(200, 'Beta'), 1000, 200);
+
+      const tail = chunks[0].slice(-50);
+      expect(chunks[1]).toContain(tail);
+    });
+
+    it('should break at sentence and paragraph boundaries', () => {
+      const text = `${sentences(30, 'First')}\n\n${sentences(30, 'Second')}`;
+      const chunks = ChunkingService.split(text, 1000, 100);
+
+      chunks.slice(0, -1).forEach(chunk => expect(chunk).toMatch(/[.]$/));
+    });
+
+    it('should cover the whole text', () => {
+      const text = sentences(300, 'Gamma');
+      const chunks = ChunkingService.split(text, 800, 100);
+
+      expect(chunks[0].startsWith('Gamma sentence 0')).toBe(true);
+      expect(chunks[chunks.length - 1].endsWith('Gamma sentence 299 is here.')).toBe(true);
+    });
+
+    it('should return short text as a single chunk', () => {
+      expect(ChunkingService.split('Just one line.', 1000, 100)).toEqual(['Just one line.']);
+    });
+
+    it('should still split text without any whitespace', () => {
+      const chunks = ChunkingService.split('x'.repeat(2500), 1000, 100);
+
+      expect(chunks.join('').length).toBeGreaterThanOrEqual(2500);
+    });
+  });
+});
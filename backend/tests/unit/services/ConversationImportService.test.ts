@@ -0,0 +1,241 @@
+import { ConversationImportService } from '../../../src/services/ConversationImportService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import { LLMService } from '../../../src/services/LLMService';
+import { ImportedConversation } from '../../../src/importers';
+import * as database from '../../../src/config/database';
+import { mockEmbedding } from '../../fixtures/test-data';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+jest.mock('../../../src/services/LLMService');
+
+describe('ConversationImportService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+  const conversation: ImportedConversation = {
+    platform: 'chatgpt',
+    sessionId: 'conv-1',
+    title: 'Trip planning',
+    model: 'gpt-4o',
+    startedAt: new Date('2023-11-14T22:13:20Z'),
+    turns: [
+      { userMessage: 'Where should I hike?', assistantMessage: 'Try the Dolomites.', timestamp: new Date('2023-11-14T22:13:30Z') },
+      { userMessage: 'Show me a script', assistantMessage: '```python\nprint(1)\n```', timestamp: new Date('2023-11-14T22:15:00Z') },
+      { userMessage: 'Thanks', assistantMessage: '', timestamp: new Date('2023-11-14T22:16:00Z') },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+    (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+    (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockImplementation(async (texts: string[]) =>
+      texts.map(() => mockEmbedding));
+  });
+
+  it('should create the conversation and its turns with original timestamps', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] } as any) // not imported before
+      .mockResolvedValueOnce({ rows: [{ id: 'db-conv' }] } as any)
+      .mockResolvedValue({ rows: [] } as any);
+
+    const result = await ConversationImportService.importConversations('user-1', [conversation]);
+
+    expect(result).toEqual({ conversations: 1, updated: 0, unchanged: 0, turns: 3, insights: 0, failed: [] });
+
+    const [conversationSql, conversationParams] = mockQuery.mock.calls[1];
+    expect(conversationSql).toContain('INSERT INTO conversations');
+    expect(conversationParams).toEqual(expect.arrayContaining(['chatgpt', 'gpt-4o', 'conv-1', conversation.startedAt]));
+
+    const turnInserts = mockQuery.mock.calls.filter(call => call[0].includes('INSERT INTO conversation_turns'));
+    expect(turnInserts).toHaveLength(3);
+    expect(turnInserts[0][1]![13]).toEqual(conversation.turns[0].timestamp);
+    expect(turnInserts[1][1]![9]).toBe(true); // contains_code
+    expect(turnInserts[1][1]![10]).toEqual(['python']);
+    expect(turnInserts[2][1]![7]).toBeNull(); // empty reply has no embedding
+  });
+
+  it('should embed all messages of a conversation in one batch', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] } as any) // not imported before
+      .mockResolvedValueOnce({ rows: [{ id: 'db-conv' }] } as any)
+      .mockResolvedValue({ rows: [] } as any);
+
+    await ConversationImportService.importConversations('user-1', [conversation]);
+
+    expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledTimes(1);
+    expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith([
+      'Where should I hike?', 'Try the Dolomites.', 'Show me a script', '```python\nprint(1)\n```', 'Thanks',
+    ]);
+  });
+
+  it('should write a conversation in one transaction and continue after a failed one', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 'db-conv' }] } as any)
+      .mockRejectedValueOnce(new Error('value too long'))
+      .mockResolvedValueOnce({ rows: [] } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 'db-conv-2' }] } as any)
+      .mockResolvedValue({ rows: [] } as any);
+
+    const result = await ConversationImportService.importConversations('user-1', [
+      conversation,
+      { ...conversation, sessionId: 'conv-2', turns: [conversation.turns[0]] },
+    ]);
+
+    expect(database.transaction).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls.some(call => call[0].includes('DELETE'))).toBe(false);
+    expect(result.conversations).toBe(1);
+    expect(result.failed).toEqual([{ title: 'Trip planning', sessionId: 'conv-1', error: 'value too long' }]);
+  });
+
+  it('should extract insights only when asked', async () => {
+    (LLMService.extractInsights as jest.Mock).mockResolvedValue(2);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] } as any) // not imported before
+      .mockResolvedValueOnce({ rows: [{ id: 'db-conv' }] } as any)
+      .mockResolvedValue({ rows: [] } as any);
+
+    const result = await ConversationImportService.importConversations('user-1', [conversation], { extractInsights: true });
+
+    expect(result.insights).toBe(2);
+    expect(LLMService.extractInsights).toHaveBeenCalledWith('user-1', [
+      { role: 'user', content: 'Where should I hike?' },
+      { role: 'assistant', content: 'Try the Dolomites.' },
+      { role: 'user', content: 'Show me a script' },
+      { role: 'assistant', content: '```python\nprint(1)\n```' },
+      { role: 'user', content: 'Thanks' },
+    ]);
+  });
+
+  describe('re-imports', () => {
+    const existing = { rows: [{ id: 'db-conv' }] };
+    const storedTurns = {
+      rows: [
+        { user_message: 'Where should I hike?', assistant_message: 'Try the Dolomites.' },
+        { user_message: 'Show me a script', assistant_message: '```python\nprint(1)\n```' },
+      ],
+    };
+
+    it('should append only the turns that are not stored yet', async () => {
+      mockQuery
+        .mockResolvedValueOnce(existing as any)
+        .mockResolvedValueOnce(storedTurns as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // lock
+        .mockResolvedValueOnce({ rows: [{ last_turn: 2 }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      const result = await ConversationImportService.importConversations('user-1', [conversation]);
+
+      expect(result).toEqual(expect.objectContaining({ conversations: 0, updated: 1, turns: 1 }));
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', 'chatgpt', 'conv-1']);
+      expect(mockQuery.mock.calls[2][0]).toContain('FOR UPDATE');
+      expect(mockQuery.mock.calls.some(call => call[0].includes('INSERT INTO conversations'))).toBe(false);
+
+      const turnInserts = mockQuery.mock.calls.filter(call => call[0].includes('INSERT INTO conversation_turns'));
+      expect(turnInserts).toHaveLength(1);
+      expect(turnInserts[0][1]![2]).toBe(3); // numbered after the stored turns
+      expect(turnInserts[0][1]![3]).toBe('Thanks');
+      expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith(['Thanks']);
+    });
+
+    it('should leave an up-to-date conversation alone', async () => {
+      mockQuery
+        .mockResolvedValueOnce(existing as any)
+        .mockResolvedValueOnce({
+          rows: [...storedTurns.rows, { user_message: 'Thanks', assistant_message: '' }],
+        } as any);
+
+      const result = await ConversationImportService.importConversations('user-1', [conversation], { extractInsights: true });
+
+      expect(result).toEqual(expect.objectContaining({ unchanged: 1, turns: 0 }));
+      expect(EmbeddingService.generateBatchEmbeddings).not.toHaveBeenCalled();
+      expect(LLMService.extractInsights).not.toHaveBeenCalled();
+    });
+
+    it('should keep a repeated exchange once per occurrence', async () => {
+      mockQuery
+        .mockResolvedValueOnce(existing as any)
+        .mockResolvedValueOnce({ rows: [{ user_message: 'Thanks', assistant_message: '' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ last_turn: 1 }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      const thanks = conversation.turns[2];
+      const result = await ConversationImportService.importConversations('user-1', [
+        { ...conversation, turns: [thanks, thanks] },
+      ]);
+
+      expect(result.turns).toBe(1);
+    });
+
+    it('should always create conversations without a session id', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'db-conv' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await ConversationImportService.importConversations('user-1', [{ ...conversation, sessionId: undefined }]);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('INSERT INTO conversations');
+    });
+  });
+
+  describe('import jobs', () => {
+    const job = { id: 'job-1', user_id: 'user-1', extract_insights: false, attempts: 1, max_attempts: 5, result: {} };
+
+    it('should queue the parsed conversations', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'job-1', status: 'pending', total: 1, processed: 0 }] } as any);
+
+      const queued = await ConversationImportService.submitImport('user-1', 'chatgpt', [conversation], { extractInsights: true });
+
+      expect(queued.status).toBe('pending');
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO import_jobs');
+      expect(params!.slice(0, 5)).toEqual(['user-1', 'chatgpt', JSON.stringify([conversation]), true, 1]);
+      expect(params!.slice(7)).toEqual(['pending', false]);
+      expect(database.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return false when no import is waiting', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await ConversationImportService.processNextImport()).toBe(false);
+      expect(mockQuery.mock.calls[0][0]).toContain('FOR UPDATE SKIP LOCKED');
+    });
+
+    it('should import the next conversation and record the progress', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...job, conversation: JSON.parse(JSON.stringify(conversation)) }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // not imported before
+        .mockResolvedValueOnce({ rows: [{ id: 'db-conv' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      expect(await ConversationImportService.processNextImport()).toBe(true);
+
+      const turnInserts = mockQuery.mock.calls.filter(call => call[0].includes('INSERT INTO conversation_turns'));
+      expect(turnInserts[0][1]![13]).toEqual(conversation.turns[0].timestamp);
+
+      const progress = mockQuery.mock.calls[mockQuery.mock.calls.length - 1];
+      expect(progress[0]).toContain('processed = processed + 1');
+      expect(JSON.parse(progress[1]![1])).toEqual(
+        { conversations: 1, updated: 0, unchanged: 0, turns: 3, insights: 0, failed: [] }
+      );
+    });
+
+    it('should retry a step that could not be recorded, with backoff', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...job, attempts: 2, conversation: null }] } as any)
+        .mockRejectedValueOnce(new Error('connection lost'))
+        .mockResolvedValue({ rows: [] } as any);
+
+      await ConversationImportService.processNextImport();
+
+      const retry = mockQuery.mock.calls[2];
+      expect(retry[0]).toContain('run_after = NOW()');
+      expect(retry[1]).toEqual(['job-1', false, 'connection lost', 10]);
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { ConversationService, Conversation } from '../../../src/services/ConversationService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import { NLPService } from '../../../src/services/NLPService';
+import { TopicClusteringService } from '../../../src/services/TopicClusteringService';
+import * as database from '../../../src/config/database';
+import { mockEmbedding } from '../../fixtures/test-data';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+jest.mock('../../../src/services/NLPService');
+jest.mock('../../../src/services/TopicClusteringService');
+
+describe('ConversationService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const conversation = { id: 'conv-1', user_id: 'user-1', is_complete: false } as Conversation;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+    (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockImplementation(async (texts: string[]) =>
+      texts.map(() => mockEmbedding));
+  });
+
+  describe('createConversation', () => {
+    it('should insert the conversation without returning vector columns', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'conv-1' }] } as any);
+
+      await ConversationService.createConversation('user-1', { platform: 'claude', title: 'Planning' });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).not.toContain('summary_embedding');
+      expect(params).toEqual(['user-1', 'Planning', 'claude', null, null, null]);
+    });
+  });
+
+  describe('getOrCreateConversation', () => {
+    beforeEach(() => {
+      (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+    });
+
+    it('should return the existing conversation under a per-user lock', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [conversation] } as any);
+
+      const result = await ConversationService.getOrCreateConversation('user-1', { platform: 'dory-log' });
+
+      expect(result).toBe(conversation);
+      expect(mockQuery.mock.calls[0]).toEqual([
+        'SELECT pg_advisory_xact_lock(hashtext($1))',
+        ['conversation:user-1:dory-log'],
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should create the conversation while holding the lock', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [conversation] } as any);
+
+      const result = await ConversationService.getOrCreateConversation('user-1', {
+        platform: 'dory-log',
+        title: 'Questions to Dory',
+      });
+
+      expect(result).toBe(conversation);
+      expect(mockQuery.mock.calls[2][0]).toContain('INSERT INTO conversations');
+      expect(mockQuery.mock.calls[2][1]!.slice(0, 3)).toEqual(['user-1', 'Questions to Dory', 'dory-log']);
+    });
+  });
+
+  describe('addTurns', () => {
+    beforeEach(() => {
+      (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+    });
+
+    it('should number turns after the last one and embed both messages', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'conv-1' }] } as any)
+        .mockResolvedValueOnce({ rows: [{ last_turn: 4 }] } as any)
+        .mockImplementation(async (_sql: string, params?: any[]) => ({ rows: [{ turn_number: params![2] }] }) as any);
+
+      const turns = await ConversationService.addTurns(conversation, [
+        { userMessage: 'How do I sort a list?', assistantMessage: '```python\nsorted(xs)\n```' },
+        { userMessage: 'Thanks', assistantMessage: '' },
+      ]);
+
+      expect(turns.map(t => t.turn_number)).toEqual([5, 6]);
+      expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith([
+        'How do I sort a list?',
+        '```python\nsorted(xs)\n```',
+        'Thanks',
+      ]);
+
+      const inserts = mockQuery.mock.calls.filter(call => call[0].includes('INSERT INTO conversation_turns'));
+      expect(inserts[0][1]![4]).toBe(JSON.stringify(mockEmbedding)); // user_message_embedding
+      expect(inserts[0][1]![7]).toBe(JSON.stringify(mockEmbedding)); // assistant_message_embedding
+      expect(inserts[0][1]![10]).toEqual(['python']);
+      expect(inserts[1][1]![7]).toBeNull(); // no reply, no embedding
+
+      const tokens = mockQuery.mock.calls.find(call => call[0].includes('total_tokens = total_tokens + $2'));
+      expect(tokens![1]).toEqual(['conv-1', expect.any(Number)]);
+    });
+
+    it('should lock the conversation before numbering, after embedding', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ last_turn: 0, turn_number: 1 }] } as any);
+
+      await ConversationService.addTurns(conversation, [{ userMessage: 'Hi', assistantMessage: 'Hello' }]);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('FOR UPDATE');
+      expect(mockQuery.mock.calls[1][0]).toContain('MAX(turn_number)');
+      expect((EmbeddingService.generateBatchEmbeddings as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan((database.transaction as jest.Mock).mock.invocationCallOrder[0]);
+    });
+
+    it('should fail the whole append when a turn cannot be inserted', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ last_turn: 2 }] } as any)
+        .mockRejectedValueOnce(new Error('duplicate key value violates unique constraint'));
+
+      await expect(ConversationService.addTurns(conversation, [
+        { userMessage: 'One', assistantMessage: '' },
+        { userMessage: 'Two', assistantMessage: '' },
+      ])).rejects.toThrow('duplicate key');
+      // Rolled back by the transaction
+      expect(database.transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('closeConversation', () => {
+    it('should store the summary, topics and their embeddings', async () => {
+      (NLPService.summarize as jest.Mock).mockResolvedValue('Discussed sorting in Python.');
+      (NLPService.extractTopics as jest.Mock).mockResolvedValue(['python', 'sorting']);
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ turn_number: 1, user_message: 'How do I sort a list?', assistant_message: 'Use sorted().' }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'conv-1', is_complete: true }] } as any);
+
+      const closed = await ConversationService.closeConversation(conversation);
+
+      expect(closed.is_complete).toBe(true);
+      expect(NLPService.summarize).toHaveBeenCalledWith(
+        'User: How do I sort a list?\nAssistant: Use sorted().',
+        500
+      );
+      expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith(['Discussed sorting in Python.', 'python, sorting']);
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('is_complete = true');
+      expect(params!.slice(1, 4)).toEqual(['Discussed sorting in Python.', ['python', 'sorting'], JSON.stringify(mockEmbedding)]);
+      expect(params![6]).toBe('How do I sort a list?'); // title fallback
+      expect(TopicClusteringService.assignConversation).toHaveBeenCalledWith(closed);
+    });
+
+    it('should still close the conversation when topic clustering fails', async () => {
+      (NLPService.summarize as jest.Mock).mockResolvedValue('Summary.');
+      (NLPService.extractTopics as jest.Mock).mockResolvedValue([]);
+      (TopicClusteringService.assignConversation as jest.Mock).mockRejectedValue(new Error('db down'));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ turn_number: 1, user_message: 'Hi', assistant_message: 'Hello' }] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'conv-1', is_complete: true }] } as any);
+
+      const closed = await ConversationService.closeConversation(conversation);
+
+      expect(closed.is_complete).toBe(true);
+    });
+
+    it('should close an empty conversation without calling the LLM', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'conv-1', is_complete: true }] } as any);
+
+      await ConversationService.closeConversation(conversation);
+
+      expect(NLPService.summarize).not.toHaveBeenCalled();
+      expect(mockQuery.mock.calls[1][1]!.slice(1, 5)).toEqual([null, [], null, null]);
+    });
+  });
+
+  describe('listConversations', () => {
+    it('should scope to the user and pass filters as parameters', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await ConversationService.listConversations('user-1', { platform: 'chatgpt', active: false, limit: 5 });
+
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', 'chatgpt', false, 5, 0]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { EmbeddingMigrationService } from '../../../src/services/EmbeddingMigrationService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import * as database from '../../../src/config/database';
+import { mockEmbedding } from '../../fixtures/test-data';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+
+describe('EmbeddingMigrationService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (EmbeddingService.currentModel as jest.Mock).mockReturnValue('new-model');
+  });
+
+  describe('plan', () => {
+    it('should count memories missing or on another model', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { model: 'text-embedding-3-small', count: 150 },
+          { model: null, count: 10 },
+        ],
+      } as any);
+
+      const plan = await EmbeddingMigrationService.plan(100);
+
+      expect(plan).toEqual({
+        targetModel: 'new-model',
+        pending: 160,
+        byModel: expect.any(Array),
+        batches: 2,
+      });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['new-model']);
+    });
+  });
+
+  describe('run', () => {
+    it('should not write anything in dry-run mode', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ model: 'old-model', count: 3 }] } as any);
+
+      const result = await EmbeddingMigrationService.run({ dryRun: true });
+
+      expect(result).toEqual(expect.objectContaining({ status: 'dry-run', total: 3 }));
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(EmbeddingService.generateBatchEmbeddings).not.toHaveBeenCalled();
+    });
+
+    it('should re-embed in batches and checkpoint progress', async () => {
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock)
+        .mockResolvedValue([mockEmbedding, mockEmbedding]);
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ model: 'old-model', count: 2 }] } as any) // plan
+        .mockResolvedValueOnce({ rows: [] } as any) // no existing job
+        .mockResolvedValueOnce({ rows: [] } as any) // INSERT job
+        .mockResolvedValueOnce({ rows: [{ id: 'a', content: 'one' }, { id: 'b', content: 'two' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // UPDATE memories
+        .mockResolvedValueOnce({ rows: [] } as any) // checkpoint
+        .mockResolvedValueOnce({ rows: [] } as any) // next batch: empty
+        .mockResolvedValueOnce({ rows: [] } as any); // mark completed
+
+      const onProgress = jest.fn();
+      const result = await EmbeddingMigrationService.run({ batchSize: 2, onProgress });
+
+      expect(result).toEqual(expect.objectContaining({ status: 'completed', processed: 2, failed: 0 }));
+      expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith(['one', 'two']);
+      expect(onProgress).toHaveBeenCalledTimes(1);
+
+      const updateCall = mockQuery.mock.calls.find(call => call[0].includes('UPDATE memories m'));
+      expect(updateCall![1]).toEqual([['a', 'b'], expect.any(Array), 'new-model']);
+
+      const checkpoint = mockQuery.mock.calls.find(call => call[0].includes('SET last_memory_id'));
+      expect(checkpoint![1]).toEqual(['new-model', 'b', 2, 0]);
+    });
+
+    it('should resume from the saved cursor of an interrupted run', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ model: 'old-model', count: 1 }] } as any) // plan
+        .mockResolvedValueOnce({
+          rows: [{ status: 'failed', last_memory_id: 'cursor-id', total: 5, processed: 4, failed: 0 }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // mark running
+        .mockResolvedValueOnce({ rows: [] } as any) // next batch: empty
+        .mockResolvedValueOnce({ rows: [] } as any); // mark completed
+
+      const result = await EmbeddingMigrationService.run();
+
+      expect(result).toEqual(expect.objectContaining({ resumedFrom: 'cursor-id', processed: 4, total: 5 }));
+      const batchQuery = mockQuery.mock.calls.find(call => call[0].includes('ORDER BY id'));
+      expect(batchQuery![1]).toEqual(['new-model', 'cursor-id', 100]);
+    });
+
+    it('should count memories that cannot be embedded as failed', async () => {
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockRejectedValue(new Error('bad input'));
+      (EmbeddingService.generateEmbedding as jest.Mock)
+        .mockResolvedValueOnce(mockEmbedding)
+        .mockRejectedValueOnce(new Error('bad input'));
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ model: null, count: 2 }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'a', content: 'ok' }, { id: 'b', content: 'bad' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      const result = await EmbeddingMigrationService.run();
+
+      expect(result).toEqual(expect.objectContaining({ processed: 1, failed: 1 }));
+    });
+  });
+});
@@ -1,21 +1,28 @@
 import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import { createProvider, setProvider } from '../../../src/providers';
+import * as database from '../../../src/config/database';
 import OpenAI from 'openai';
 import { mockEmbedding, mockEmbeddingResponse } from '../../fixtures/test-data';
 
-// Mock OpenAI
+// Mock OpenAI and the embedding cache table
 jest.mock('openai');
+jest.mock('../../../src/config/database');
 
 describe('EmbeddingService', () => {
   let mockCreate: jest.Mock;
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    EmbeddingService.resetCacheStats();
+    mockQuery.mockResolvedValue({ rows: [] } as any); // empty cache by default
     mockCreate = jest.fn();
     (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(() => ({
       embeddings: {
         create: mockCreate,
       },
     } as any));
+    setProvider(createProvider('openai'));
   });
 
   describe('generateEmbedding', () => {
@@ -27,7 +34,7 @@ describe('EmbeddingService', () => {
       expect(result).toEqual(mockEmbedding);
       expect(mockCreate).toHaveBeenCalledWith({
         model: expect.any(String),
-        input: 'Test text',
+        input: ['Test text'],
         encoding_format: 'float',
       });
     });
@@ -40,7 +47,7 @@ describe('EmbeddingService', () => {
 
       expect(mockCreate).toHaveBeenCalledWith(
         expect.objectContaining({
-          input: 'A'.repeat(8000),
+          input: ['A'.repeat(8000)],
         })
       );
     });
@@ -142,6 +149,64 @@ describe('EmbeddingService', () => {
     });
   });
 
+  describe('embedding cache', () => {
+    const cachedRow = (text: string) => ({
+      content_hash: EmbeddingService.hashText(text),
+      embedding: JSON.stringify(mockEmbedding),
+    });
+
+    it('should return a cached embedding without calling the provider', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [cachedRow('Test text')] } as any);
+
+      const result = await EmbeddingService.generateEmbedding('Test text');
+
+      expect(result).toEqual(mockEmbedding);
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(EmbeddingService.getCacheStats()).toEqual(expect.objectContaining({ hits: 1, misses: 0 }));
+    });
+
+    it('should store new embeddings keyed by model and hash', async () => {
+      mockCreate.mockResolvedValue(mockEmbeddingResponse);
+
+      await EmbeddingService.generateEmbedding('Test text');
+
+      const insertCall = mockQuery.mock.calls.find(call => call[0].includes('INSERT INTO embedding_cache'));
+      expect(insertCall).toBeDefined();
+      expect(insertCall![1]).toEqual([
+        EmbeddingService.currentModel(),
+        [EmbeddingService.hashText('Test text')],
+        [JSON.stringify(mockEmbedding)],
+      ]);
+      expect(EmbeddingService.getCacheStats()).toEqual(expect.objectContaining({ hits: 0, misses: 1 }));
+    });
+
+    it('should only send cache misses in a batch, preserving order', async () => {
+      const fresh = mockEmbedding.map(v => v / 2);
+      mockQuery.mockResolvedValueOnce({ rows: [cachedRow('Text 2')] } as any);
+      mockCreate.mockResolvedValue({ data: [{ embedding: fresh }, { embedding: fresh }] });
+
+      const result = await EmbeddingService.generateBatchEmbeddings(['Text 1', 'Text 2', 'Text 3']);
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockCreate.mock.calls[0][0].input).toEqual(['Text 1', 'Text 3']);
+      expect(result).toEqual([fresh, mockEmbedding, fresh]);
+    });
+
+    it('should share entries between whitespace variants', () => {
+      expect(EmbeddingService.hashText('  Hello   world\n')).toBe(EmbeddingService.hashText('Hello world'));
+      expect(EmbeddingService.hashText('Hello world')).not.toBe(EmbeddingService.hashText('Hello there'));
+    });
+
+    it('should fall back to the provider when the cache is unavailable', async () => {
+      mockQuery.mockRejectedValue(new Error('relation "embedding_cache" does not exist'));
+      mockCreate.mockResolvedValue(mockEmbeddingResponse);
+
+      const result = await EmbeddingService.generateEmbedding('Test text');
+
+      expect(result).toEqual(mockEmbedding);
+    });
+  });
+
   describe('cosineSimilarity', () => {
     it('should calculate similarity for identical vectors', () => {
       const vec = [1, 2, 3, 4, 5];
@@ -0,0 +1,272 @@
+import { EntityService } from '../../../src/services/EntityService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import * as database from '../../../src/config/database';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+
+describe('EntityService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const userId = 'user-1';
+  const entity = {
+    id: 'entity-1',
+    user_id: userId,
+    entity_type: 'person',
+    entity_value: 'Alice',
+    normalized_value: 'alice',
+    mention_count: 2,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+  });
+
+  describe('listEntities', () => {
+    it('should list mentioned entities by mention count', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [entity] } as any);
+
+      const entities = await EntityService.listEntities(userId);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(entities).toEqual([entity]);
+      expect(sql).toContain('mention_count > 0');
+      expect(sql).toContain('ORDER BY mention_count DESC');
+      expect(sql).not.toContain('entity_type =');
+      expect(params).toEqual([userId, 50, 0]);
+    });
+
+    it('should filter by type and sort by last seen', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await EntityService.listEntities(userId, { entityType: 'place', sort: 'last_seen', limit: 10, offset: 20 });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('AND entity_type = $4');
+      expect(sql).toContain('ORDER BY last_seen DESC');
+      expect(params).toEqual([userId, 10, 20, 'place']);
+    });
+  });
+
+  describe('getEntityDetail', () => {
+    it('should return the entity with its mentions in active memories', async () => {
+      const mention = { mention_id: 'mention-1', memory_id: 'mem-1', context: 'met Alice in Lisbon' };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [entity] } as any)
+        .mockResolvedValueOnce({ rows: [mention] } as any);
+
+      const detail = await EntityService.getEntityDetail(userId, 'entity-1', { limit: 10 });
+
+      expect(detail).toEqual({ ...entity, mentions: [mention] });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['entity-1', userId]);
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('FROM entity_mentions em');
+      expect(sql).toContain('m.is_archived = FALSE');
+      expect(params).toEqual(['entity-1', userId, 10, 0]);
+    });
+
+    it('should return null for an entity of another user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const detail = await EntityService.getEntityDetail(userId, 'entity-9');
+
+      expect(detail).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getCoOccurrences', () => {
+    it('should rank other entities by the memories they share', async () => {
+      const lisbon = { id: 'entity-2', entity_value: 'Lisbon', shared_memories: 2 };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [entity] } as any)
+        .mockResolvedValueOnce({ rows: [lisbon] } as any);
+
+      const entities = await EntityService.getCoOccurrences(userId, 'entity-1', 5);
+
+      expect(entities).toEqual([lisbon]);
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('other.entity_id <> own.entity_id');
+      expect(sql).toContain('COUNT(DISTINCT m.id)::int AS shared_memories');
+      expect(sql).toContain('ORDER BY shared_memories DESC');
+      expect(params).toEqual(['entity-1', userId, 5]);
+    });
+
+    it('should return null for an unknown entity', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await EntityService.getCoOccurrences(userId, 'missing')).toBeNull();
+    });
+  });
+
+  describe('resolveEntity', () => {
+    const calls = (fragment: string) => mockQuery.mock.calls.filter(call => call[0].includes(fragment));
+    let known: any[];
+    let candidates: any[];
+
+    beforeEach(() => {
+      known = [];
+      candidates = [];
+      (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue([0.1, 0.2]);
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('UNION ALL')) return { rows: known } as any;
+        if (sql.includes('ORDER BY name_embedding <=>')) return { rows: candidates } as any;
+        if (sql.includes('INSERT INTO entities')) return { rows: [{ id: 'entity-new' }] } as any;
+        return { rows: [] } as any;
+      });
+    });
+
+    it('should count a mention of a known name or alias without embedding it', async () => {
+      known = [{ id: 'entity-1' }];
+
+      const id = await EntityService.resolveEntity(userId, { type: 'person', value: ' Bob ', context: 'my manager' });
+
+      expect(id).toBe('entity-1');
+      expect(calls('UNION ALL')[0][1]).toEqual([userId, 'person', 'bob']);
+      expect(calls('mention_count = mention_count + 1')[0][1]).toEqual(['entity-1']);
+      expect(EmbeddingService.generateEmbedding).not.toHaveBeenCalled();
+      expect(calls('INSERT INTO entities')).toHaveLength(0);
+    });
+
+    it('should resolve a longer name of the same entity to it as an alias', async () => {
+      candidates = [{ id: 'entity-1', entity_type: 'person', normalized_value: 'bob', similarity: 0.8 }];
+
+      const id = await EntityService.resolveEntity(userId, {
+        type: 'person',
+        value: 'Bob Smith (manager)',
+        context: 'approved the budget',
+      });
+
+      expect(id).toBe('entity-1');
+      expect(EmbeddingService.generateEmbedding).toHaveBeenCalledWith('Bob Smith (manager): approved the budget');
+      const [, params] = calls('INSERT INTO entity_aliases')[0];
+      expect(params).toEqual([userId, 'entity-1', 'person', 'Bob Smith (manager)', 'bob smith (manager)', 0.8]);
+      expect(calls('INSERT INTO entities')).toHaveLength(0);
+    });
+
+    it('should resolve the same name across types', async () => {
+      candidates = [{ id: 'entity-org', entity_type: 'organization', normalized_value: 'openai', similarity: 0.78 }];
+
+      const id = await EntityService.resolveEntity(userId, { type: 'concept', value: 'OpenAI', context: 'AI lab' });
+
+      expect(id).toBe('entity-org');
+    });
+
+    it('should keep unrelated names apart unless nearly identical', async () => {
+      candidates = [
+        { id: 'entity-org', entity_type: 'organization', normalized_value: 'anthropic', similarity: 0.99 },
+        { id: 'entity-2', entity_type: 'person', normalized_value: 'alice', similarity: 0.9 },
+      ];
+
+      const id = await EntityService.resolveEntity(userId, { type: 'person', value: 'Bob', context: 'colleague' });
+
+      expect(id).toBe('entity-new');
+      expect(calls('INSERT INTO entity_aliases')).toHaveLength(0);
+      const [, params] = calls('INSERT INTO entities')[0];
+      expect(params).toEqual([userId, 'person', 'Bob', 'bob', JSON.stringify([0.1, 0.2]), 'test-model']);
+    });
+
+    it('should store the entity unresolved when embedding fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (EmbeddingService.generateEmbedding as jest.Mock).mockRejectedValue(new Error('provider down'));
+
+      const id = await EntityService.resolveEntity(userId, { type: 'person', value: 'Bob', context: '' });
+
+      expect(id).toBe('entity-new');
+      expect(calls('ORDER BY name_embedding <=>')).toHaveLength(0);
+      expect(calls('INSERT INTO entities')[0][1]!.slice(4)).toEqual([null, null]);
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe('mergeEntities', () => {
+    const calls = (fragment: string) => mockQuery.mock.calls.filter(call => call[0].includes(fragment));
+
+    it('should repoint mentions, sum counts, record aliases and relink memories', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT id FROM entities')) return { rows: [{ id: 'entity-1' }, { id: 'entity-2' }] } as any;
+        if (sql.includes('UPDATE entity_mentions')) {
+          return { rows: [{ memory_id: 'mem-1' }, { memory_id: 'mem-1' }, { memory_id: 'mem-2' }] } as any;
+        }
+        if (sql.includes('UPDATE entities t')) return { rows: [{ ...entity, mention_count: 5 }] } as any;
+        return { rows: [] } as any;
+      });
+
+      const merge = await EntityService.mergeEntities(userId, 'entity-1', ['entity-2', 'entity-1']);
+
+      expect(merge).toEqual({ entity: { ...entity, mention_count: 5 }, merged_ids: ['entity-2'], mentions_moved: 3 });
+      expect(calls('UPDATE entity_aliases SET entity_id = $1')[0][1]).toEqual(['entity-1', ['entity-2']]);
+      expect(calls('INSERT INTO entity_aliases')[0][1]).toEqual(['entity-1', ['entity-2'], null]);
+      expect(calls('UPDATE entities t')[0][0]).toContain('mention_count = t.mention_count + s.mention_count');
+      expect(calls('DELETE FROM entities')[0][1]).toEqual([['entity-2']]);
+      // Each moved memory is relinked once
+      expect(calls('JOIN entity_mentions em1').map(call => call[1])).toEqual([
+        ['mem-1', userId],
+        ['mem-2', userId],
+      ]);
+    });
+
+    it('should merge and relink on the transaction\'s client', async () => {
+      const run = jest.fn(async (sql: string) => {
+        if (sql.includes('SELECT id FROM entities')) return { rows: [{ id: 'entity-1' }, { id: 'entity-2' }] } as any;
+        if (sql.includes('UPDATE entity_mentions')) return { rows: [{ memory_id: 'mem-1' }] } as any;
+        if (sql.includes('JOIN entity_mentions em1')) return { rows: [{ id: 'mem-2' }] } as any;
+        return { rows: [] } as any;
+      });
+      (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(run));
+
+      await EntityService.mergeEntities(userId, 'entity-1', ['entity-2']);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      const sqls = run.mock.calls.map(call => call[0]);
+      expect(sqls[0]).toContain('FOR UPDATE');
+      expect(sqls.some(sql => sql.includes('DELETE FROM entities'))).toBe(true);
+      expect(sqls.some(sql => sql.includes('INSERT INTO memory_relationships'))).toBe(true);
+    });
+
+    it('should return null when an entity is not the user\'s', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'entity-1' }] } as any);
+
+      const merge = await EntityService.mergeEntities(userId, 'entity-1', ['entity-9']);
+
+      expect(merge).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resolveEntities', () => {
+    it('should merge pending entities that match and embed the rest', async () => {
+      (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue([0.3]);
+      mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+        if (sql.includes('e.name_embedding IS NULL')) {
+          return {
+            rows: [
+              { id: 'entity-2', entity_type: 'person', entity_value: 'Bob Smith', normalized_value: 'bob smith', context: 'manager' },
+              { id: 'entity-3', entity_type: 'place', entity_value: 'Lisbon', normalized_value: 'lisbon', context: null },
+            ],
+          } as any;
+        }
+        if (sql.includes('ORDER BY name_embedding <=>')) {
+          return {
+            rows: params![3] === 'entity-2'
+              ? [{ id: 'entity-1', entity_type: 'person', normalized_value: 'bob', similarity: 0.85 }]
+              : [],
+          } as any;
+        }
+        if (sql.includes('SELECT id FROM entities')) return { rows: [{ id: 'entity-1' }, { id: 'entity-2' }] } as any;
+        if (sql.includes('UPDATE entities t')) return { rows: [entity] } as any;
+        return { rows: [] } as any;
+      });
+
+      const result = await EntityService.resolveEntities(userId, 10);
+
+      expect(result).toEqual({ processed: 2, merged: 1 });
+      const embedded = mockQuery.mock.calls.filter(call => call[0].includes('SET name_embedding = $2::vector'));
+      expect(embedded.map(call => call[1])).toEqual([['entity-3', JSON.stringify([0.3]), 'test-model']]);
+      expect(EmbeddingService.generateEmbedding).toHaveBeenCalledWith('Lisbon');
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { GraphService } from '../../../src/services/GraphService';
 import { EmbeddingService } from '../../../src/services/EmbeddingService';
 import { NLPService } from '../../../src/services/NLPService';
 import * as database from '../../../src/config/database';
+import { SearchCursor } from '../../../src/services/Pagination';
 import {
   mockUserId,
   mockMemoryId,
@@ -19,6 +20,7 @@ import {
 jest.mock('../../../src/config/database');
 jest.mock('../../../src/services/EmbeddingService');
 jest.mock('../../../src/services/NLPService');
+jest.mock('../../../src/services/TopicClusteringService');
 
 describe('GraphService', () => {
   const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
@@ -145,6 +147,7 @@ describe('GraphService', () => {
 
   describe('findSimilarMemories', () => {
     it('should find similar memories above threshold', async () => {
+      (EmbeddingService.currentModel as jest.Mock).mockReturnValue('text-embedding-3-small');
       mockQuery.mockResolvedValue({ rows: [mockSimilarMemory] } as any);
 
       const results = await GraphService.findSimilarMemories(
@@ -157,10 +160,20 @@ describe('GraphService', () => {
       expect(results).toEqual([mockSimilarMemory]);
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('1 - (embedding <=> $1::vector) as similarity'),
-        [JSON.stringify(mockEmbedding), mockUserId, 0.7, 10]
+        [JSON.stringify(mockEmbedding), mockUserId, 0.7, 10, 'text-embedding-3-small']
       );
     });
 
+    it('should only compare memories embedded by the same model', async () => {
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+
+      await GraphService.findSimilarMemories(mockUserId, mockEmbedding, 0.5, 5, 'new-model');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('embedding_model = $5');
+      expect(params![4]).toBe('new-model');
+    });
+
     it('should respect limit parameter', async () => {
       const memories = Array(5).fill(mockSimilarMemory);
       mockQuery.mockResolvedValue({ rows: memories } as any);
@@ -200,6 +213,377 @@ describe('GraphService', () => {
       expect(EmbeddingService.generateEmbedding).toHaveBeenCalledWith('hiking mountains');
       expect(results).toEqual([mockSimilarMemory]);
     });
+
+    it('should search full text without embedding the query in keyword mode', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...mockSimilarMemory, keyword_rank: 0.4, similarity: 0.4 }],
+      } as any);
+
+      const results = await GraphService.searchMemories(mockUserId, 'ERR-4012', 10, 'keyword');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("websearch_to_tsquery('english', $2)");
+      expect(sql).toContain('content_tsv @@ q');
+      expect(params).toEqual([mockUserId, 'ERR-4012', 30]);
+      expect(EmbeddingService.generateEmbedding).not.toHaveBeenCalled();
+      expect(results[0].keyword_rank).toBe(0.4);
+    });
+
+    it('should fuse vector and keyword results by reciprocal rank in hybrid mode', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery.mockImplementation(async (sql: string) => ({
+        rows: sql.includes('content_tsv @@ q')
+          ? [
+            { ...mockSimilarMemory, id: 'exact', keyword_rank: 0.8, similarity: 0.3 },
+            { ...mockSimilarMemory, id: 'both', keyword_rank: 0.5, similarity: 0.7 },
+          ]
+          : [
+            { ...mockSimilarMemory, id: 'loose', similarity: 0.8 },
+            { ...mockSimilarMemory, id: 'both', similarity: 0.7 },
+          ],
+      }) as any);
+
+      const results = await GraphService.searchMemories(mockUserId, 'ERR-4012', 10, 'hybrid');
+
+      // Found by both lists beats the top of either list alone
+      expect(results.map(r => r.id)).toEqual(['both', 'loose', 'exact']);
+      expect(results[0]).toEqual(expect.objectContaining({ similarity: 0.7, keyword_rank: 0.5 }));
+      expect(results[0].score).toBeCloseTo(2 / 62);
+      const keywordCall = mockQuery.mock.calls.find(call => call[0].includes('content_tsv @@ q'));
+      expect(keywordCall![0]).toContain('1 - (m.embedding <=> $5::vector)');
+      mockQuery.mockReset();
+    });
+  });
+
+  describe('long memories', () => {
+    const parent = { ...mockMemory, id: 'parent-id', content: 'Long article. '.repeat(1000) };
+
+    afterEach(() => {
+      mockQuery.mockReset();
+    });
+
+    it('should collapse chunk hits into their parent with the matching passage', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            { ...mockSimilarMemory, id: 'chunk-2', content: 'best passage', parent_memory_id: 'parent-id', chunk_index: 2, similarity: 0.9 },
+            { ...mockSimilarMemory, id: 'other', parent_memory_id: null, similarity: 0.8 },
+            { ...mockSimilarMemory, id: 'chunk-0', content: 'weaker passage', parent_memory_id: 'parent-id', chunk_index: 0, similarity: 0.7 },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [parent] } as any);
+
+      const results = await GraphService.searchMemories(mockUserId, 'query', 10);
+
+      expect(results.map(r => r.id)).toEqual(['parent-id', 'other']);
+      expect(results[0]).toEqual(expect.objectContaining({
+        content: parent.content,
+        similarity: 0.9,
+        matched_passage: 'best passage',
+        matched_chunk_index: 2,
+      }));
+      expect(mockQuery.mock.calls[0][1]![3]).toBe(30); // over-fetched
+      expect(mockQuery.mock.calls[1][1]).toEqual([['parent-id'], mockUserId]);
+    });
+
+    it('should drop chunks whose parent is archived', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ ...mockSimilarMemory, id: 'chunk-0', parent_memory_id: 'archived-parent', similarity: 0.9 }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await GraphService.searchMemories(mockUserId, 'query', 10)).toEqual([]);
+    });
+
+    it('should filter chunk hits on their parent memory', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await GraphService.findSimilarMemories(mockUserId, mockEmbedding, 0, 10, 'model', true);
+
+      const [sql] = mockQuery.mock.calls[0];
+      expect(sql).toContain('WHERE f.id = COALESCE(memories.parent_memory_id, memories.id)');
+      expect(sql).toContain('(f.is_archived = FALSE OR f.is_archived IS NULL)');
+    });
+
+    it('should exclude chunks from similarity lookups by default', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await GraphService.findSimilarMemories(mockUserId, mockEmbedding);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('parent_memory_id IS NULL');
+    });
+
+    it('should summarize and chunk long content during ingestion', async () => {
+      (NLPService.summarize as jest.Mock).mockResolvedValue('A summary.');
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockImplementation(async (texts: string[]) =>
+        texts.map(() => mockEmbedding));
+      (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+      mockQuery.mockImplementation(async (text: string) =>
+        ({ rows: text.includes('<=>') ? [] : [{ id: 'chunk-id' }] }) as any);
+
+      await GraphService.embedPendingMemory(parent as any);
+
+      expect(EmbeddingService.generateEmbedding).toHaveBeenCalledWith('A summary.');
+      const parentUpdate = mockQuery.mock.calls.find(call => call[0].includes('SET embedding = $2::vector'));
+      expect(JSON.parse(parentUpdate![1]![3])).toEqual({ summary: 'A summary.' });
+
+      // Retries replace earlier chunks
+      expect(mockQuery.mock.calls.some(call => call[0].includes('DELETE FROM memories WHERE parent_memory_id'))).toBe(true);
+
+      const chunkInserts = mockQuery.mock.calls.filter(call => call[0].includes('INSERT INTO memories'));
+      const partOf = mockQuery.mock.calls.filter(call => call[0].includes("'part_of'"));
+      expect(chunkInserts.length).toBeGreaterThan(1);
+      expect(partOf).toHaveLength(chunkInserts.length);
+      expect(partOf[0][1]).toEqual([mockUserId, 'chunk-id', 'parent-id']);
+    });
+  });
+
+  describe('duplicates', () => {
+    afterEach(() => {
+      mockQuery.mockReset();
+    });
+
+    it('should merge an exact duplicate into the existing memory', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      (EmbeddingService.hashText as jest.Mock).mockReturnValue('content-hash');
+      mockQuery
+        .mockResolvedValueOnce({ rows: [mockMemory] } as any) // content_hash lookup
+        .mockResolvedValueOnce({ rows: [{ ...mockMemory, access_count: 1 }] } as any); // merge
+
+      const result = await GraphService.createMemory(mockUserId, mockMemoryContent, 'https://other.example.com');
+
+      expect(result.deduplicated).toEqual({ type: 'exact', similarity: 1 });
+      expect(mockQuery.mock.calls[0][1]).toEqual([mockUserId, 'content-hash']);
+
+      const [mergeSql, mergeParams] = mockQuery.mock.calls[1];
+      expect(mergeSql).toContain('access_count = access_count + 1');
+      expect(mergeSql).toContain('source_urls');
+      expect(mergeParams).toEqual([mockMemory.id, 0.05, 'https://other.example.com']);
+      expect(mockQuery.mock.calls.some(call => call[0].includes('INSERT INTO memories'))).toBe(false);
+    });
+
+    it('should merge a near duplicate above the configured threshold', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any) // no exact match
+        .mockResolvedValueOnce({ rows: [{ ...mockSimilarMemory, similarity: 0.98 }] } as any)
+        .mockResolvedValueOnce({ rows: [mockSimilarMemory] } as any); // merge
+
+      const result = await GraphService.createMemory(mockUserId, mockMemoryContent);
+
+      expect(result.id).toBe(mockSimilarMemory.id);
+      expect(result.deduplicated).toEqual({ type: 'near', similarity: 0.98 });
+      expect(mockQuery.mock.calls[1][1]![2]).toBe(0.97);
+    });
+
+    it('should ignore the pending memory itself when checking for near duplicates', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...mockSimilarMemory, id: mockMemoryId, similarity: 1 }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      const duplicate = await GraphService.embedPendingMemory({ ...mockMemory, id: mockMemoryId });
+
+      expect(duplicate).toBeNull();
+      expect(mockQuery.mock.calls.some(call => call[0].includes('SET embedding = $2::vector'))).toBe(true);
+    });
+
+    it('should never fold an edited memory into a near duplicate', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery.mockResolvedValue({ rows: [{ ...mockSimilarMemory, similarity: 0.99 }] } as any);
+
+      const duplicate = await GraphService.embedPendingMemory({ ...mockMemory, version: 2 } as any);
+
+      expect(duplicate).toBeNull();
+      expect(mockQuery.mock.calls.some(call => call[0].includes('ORDER BY embedding <=>'))).toBe(false);
+    });
+
+    it('should reuse an embedding stored at submission', async () => {
+      (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+      mockQuery.mockImplementation(async (sql: string) =>
+        ({ rows: sql.includes('embedding::text') ? [{ embedding: JSON.stringify(mockEmbedding) }] : [] }) as any);
+
+      const duplicate = await GraphService.embedPendingMemory({ ...mockMemory, embedding_model: 'test-model' });
+
+      expect(duplicate).toBeNull();
+      expect(EmbeddingService.generateEmbedding).not.toHaveBeenCalled();
+      const nearCheck = mockQuery.mock.calls.find(call => call[0].includes('ORDER BY embedding <=>'));
+      expect(nearCheck![1]![0]).toBe(JSON.stringify(mockEmbedding));
+    });
+
+    it('should archive a pending duplicate and point it at the existing memory', async () => {
+      mockQuery.mockResolvedValue({ rows: [mockSimilarMemory] } as any);
+
+      await GraphService.resolvePendingDuplicate(
+        { ...mockMemory, id: 'pending-id' },
+        { ...mockSimilarMemory, similarity: 0.99 }
+      );
+
+      const archive = mockQuery.mock.calls.find(call => call[0].includes('is_archived = TRUE'));
+      expect(archive![1]).toEqual(['pending-id', mockSimilarMemory.id, JSON.stringify({ archive_reason: 'duplicate' })]);
+      const status = mockQuery.mock.calls.find(call => call[0].includes('processing_status = $2'));
+      expect(status![1]).toEqual(['pending-id', 'duplicate']);
+    });
+  });
+
+  describe('editing', () => {
+    const current = { ...mockMemory, version: 1 } as any;
+
+    afterEach(() => {
+      mockQuery.mockReset();
+    });
+
+    it('should save the current revision before updating tags only', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ ...current, version: 2 }] } as any);
+
+      const updated = await GraphService.updateMemory(current, { tags: ['outdoors'] });
+
+      expect(updated.version).toBe(2);
+      expect(mockQuery.mock.calls[0][0]).toContain('INSERT INTO memory_versions');
+      expect(mockQuery.mock.calls[1][1]).toEqual([current.id, null, JSON.stringify(['outdoors'])]);
+      expect(EmbeddingService.generateEmbedding).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should queue new content for processing and drop what the old content derived', async () => {
+      mockQuery.mockImplementation(async (text: string) =>
+        ({ rows: text.includes('RETURNING *') ? [{ ...current, content: 'I love climbing', version: 2 }] : [] }) as any);
+
+      await GraphService.updateMemory(current, { content: 'I love climbing', content_type: 'preference' });
+
+      expect(EmbeddingService.generateEmbedding).not.toHaveBeenCalled();
+      expect(NLPService.categorizeMemory).not.toHaveBeenCalled();
+
+      const update = mockQuery.mock.calls.find(call => call[0].includes('version = version + 1'));
+      expect(update![1]!.slice(0, 3)).toEqual([current.id, 'I love climbing', 'preference']);
+      expect(update![0]).toContain(`processing_status = 'processing'`);
+      expect(update![0]).toContain('embedding = NULL');
+      // A user's contradicts edge onto the memory keeps its outdated flag
+      expect(update![0]).toContain(`r.target_memory_id = $1 AND r.relationship_type = 'contradicts'`);
+
+      const sqls = mockQuery.mock.calls.map(call => call[0]);
+      expect(sqls.some(sql => sql.includes('DELETE FROM entity_mentions'))).toBe(true);
+      expect(sqls.some(sql => sql.includes('DELETE FROM memory_relationships'))).toBe(true);
+      expect(sqls.some(sql => sql.includes('DELETE FROM memories WHERE parent_memory_id'))).toBe(true);
+    });
+
+    it('should run every statement of an edit through the given runner', async () => {
+      const run = jest.fn().mockImplementation(async (text: string) =>
+        ({ rows: text.includes('RETURNING *') ? [{ ...current, version: 2 }] : [] }));
+
+      await GraphService.updateMemory(current, { content: 'I love climbing' }, run);
+
+      expect(run).toHaveBeenCalledTimes(6);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should return null when reverting to an unknown version', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await GraphService.getRevertChanges(current, 5)).toBeNull();
+    });
+
+    it('should revert by restoring the old content, type and tags', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ content: 'I love hiking', content_type: 'fact', metadata: { tags: ['old'] } }]
+      } as any);
+
+      const changes = await GraphService.getRevertChanges(current, 1);
+
+      expect(changes).toEqual({ content: 'I love hiking', content_type: 'fact', tags: ['old'] });
+      expect(mockQuery.mock.calls[0][1]).toEqual([current.id, 1]);
+    });
+  });
+
+  describe('extractPendingMemoryEntities', () => {
+    it('should take back the mention counts of a retried run', async () => {
+      (NLPService.extractEntities as jest.Mock).mockResolvedValue([]);
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+
+      await GraphService.extractPendingMemoryEntities(mockMemory as any);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('DELETE FROM entity_mentions');
+      expect(mockQuery.mock.calls[0][0]).toContain('mention_count = GREATEST(e.mention_count - r.count, 0)');
+      expect(mockQuery.mock.calls[0][1]).toEqual([mockMemory.id]);
+    });
+  });
+
+  describe('temporal and causal relationships', () => {
+    const existing = { ...mockMemory, id: 'mem-old', content: 'The release slipped a week', similarity: 0.8 };
+    const incoming = { ...mockMemory, id: 'mem-new', content: 'We cut the search feature because the release slipped' };
+    const inserts = () => mockQuery.mock.calls.filter(call =>
+      call[0].includes('INSERT INTO memory_relationships') && ['temporal', 'causal'].includes(call[1]![3]));
+
+    beforeEach(() => {
+      (NLPService.detectConflict as jest.Mock).mockResolvedValue({ hasConflict: false, confidence: 0 });
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('embedding::text AS embedding')) return { rows: [{ embedding: '[0.1,0.2]' }] } as any;
+        if (sql.includes('as similarity')) return { rows: [existing] } as any;
+        return { rows: [] } as any;
+      });
+    });
+
+    it('should link the cause to its effect with the explanation', async () => {
+      (NLPService.classifyRelationship as jest.Mock).mockResolvedValue({
+        type: 'causal',
+        direction: 'forward',
+        confidence: 0.8,
+        explanation: 'The slip led to cutting the feature',
+      });
+
+      await GraphService.buildPendingMemoryRelationships(incoming as any);
+
+      expect(NLPService.classifyRelationship).toHaveBeenCalledWith(
+        { content: existing.content, created_at: existing.created_at },
+        { content: incoming.content, created_at: incoming.created_at }
+      );
+      expect(inserts()).toHaveLength(1);
+      expect(inserts()[0][1]).toEqual([
+        mockUserId, 'mem-old', 'mem-new', 'causal', 0.8,
+        JSON.stringify({ explanation: 'The slip led to cutting the feature' }),
+      ]);
+    });
+
+    it('should point a backward temporal link from the new memory', async () => {
+      (NLPService.classifyRelationship as jest.Mock).mockResolvedValue({
+        type: 'temporal',
+        direction: 'backward',
+        confidence: 0.7,
+      });
+
+      await GraphService.buildPendingMemoryRelationships(incoming as any);
+
+      expect(inserts()[0][1]!.slice(1, 4)).toEqual(['mem-new', 'mem-old', 'temporal']);
+    });
+
+    it('should skip unclassified or low-confidence pairs', async () => {
+      (NLPService.classifyRelationship as jest.Mock).mockResolvedValue({
+        type: 'causal',
+        direction: 'forward',
+        confidence: 0.4,
+      });
+
+      await GraphService.buildPendingMemoryRelationships(incoming as any);
+
+      expect(inserts()).toHaveLength(0);
+    });
+
+    it('should not classify loosely similar neighbours', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('embedding::text AS embedding')) return { rows: [{ embedding: '[0.1,0.2]' }] } as any;
+        if (sql.includes('as similarity')) return { rows: [{ ...existing, similarity: 0.6 }] } as any;
+        return { rows: [] } as any;
+      });
+
+      await GraphService.buildPendingMemoryRelationships(incoming as any);
+
+      expect(NLPService.classifyRelationship).not.toHaveBeenCalled();
+      expect(inserts()).toHaveLength(0);
+    });
   });
 
   describe('getMemoryGraph', () => {
@@ -222,15 +606,71 @@ describe('GraphService', () => {
     });
 
     it('should get subgraph for specific memory', async () => {
+      const neighbor = { ...mockSimilarMemory, id: mockRelationship.target_memory_id };
       mockQuery
-        .mockResolvedValueOnce({ rows: [mockMemory] } as any) // Get specific memory
+        .mockResolvedValueOnce({ rows: [{ memory_retention_days: 30 }] } as any) // Retention setting
+        .mockResolvedValueOnce({
+          rows: [{ memory_id: mockMemoryId, hop: 0 }, { memory_id: neighbor.id, hop: 1 }],
+        } as any) // Walk
         .mockResolvedValueOnce({ rows: [mockRelationship] } as any) // Get relationships
-        .mockResolvedValueOnce({ rows: [mockSimilarMemory] } as any); // Get connected node
+        .mockResolvedValueOnce({ rows: [neighbor, mockMemory] } as any); // All nodes at once
 
       const result = await GraphService.getMemoryGraph(mockUserId, mockMemoryId);
 
       expect(result.nodes).toHaveLength(2);
+      expect(result.nodes.map(node => node.hop)).toEqual([0, 1]);
       expect(result.edges).toHaveLength(1);
+      expect(mockQuery).toHaveBeenCalledTimes(4);
+    });
+
+    it('should walk up to the requested depth with the edge filters', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ memory_id: mockMemoryId, hop: 0 }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [mockMemory] } as any);
+
+      await GraphService.getMemoryGraph(mockUserId, mockMemoryId, 4, {
+        minStrength: 0.5,
+        relationshipTypes: ['extends'],
+      });
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('WITH RECURSIVE');
+      expect(sql).toContain('WHERE w.hop < $3');
+      expect(params).toEqual([mockUserId, mockMemoryId, 4, 0.5, ['extends']]);
+      expect(mockQuery.mock.calls[2][1]).toEqual([mockUserId, [mockMemoryId], 0.5, ['extends']]);
+    });
+
+    it('should keep the memories most strongly tied to the previous hop', async () => {
+      const edge = (source: string, target: string, strength: number) =>
+        ({ ...mockRelationship, source_memory_id: source, target_memory_id: target, strength });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            { memory_id: 'root', hop: 0 },
+            { memory_id: 'strong', hop: 1 },
+            { memory_id: 'weak', hop: 1 },
+            { memory_id: 'via-strong', hop: 2 },
+            { memory_id: 'via-weak', hop: 2 },
+          ],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            edge('root', 'strong', 0.9),
+            edge('weak', 'root', 0.4),
+            edge('strong', 'via-strong', 0.3),
+            edge('weak', 'via-weak', 0.8),
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      const result = await GraphService.getMemoryGraph(mockUserId, 'root', 2, { maxNodesPerHop: 1 });
+
+      // via-weak is only reachable through the dropped 'weak'
+      expect(mockQuery.mock.calls[3][1]![0]).toEqual(['root', 'strong', 'via-strong']);
+      expect(result.edges).toHaveLength(2);
     });
 
     it('should return empty graph when memory not found', async () => {
@@ -243,29 +683,126 @@ describe('GraphService', () => {
     });
   });
 
-  describe('getRecentMemories', () => {
-    it('should get recent memories with default limit', async () => {
-      const memories = Array(20).fill(mockMemory);
-      mockQuery.mockResolvedValue({ rows: memories } as any);
+  describe('listMemories', () => {
+    const row = (id: string, createdAt: string) => ({ ...mockMemory, id, cursor_created_at: createdAt });
 
-      const results = await GraphService.getRecentMemories(mockUserId);
+    afterEach(() => {
+      mockQuery.mockReset();
+    });
 
-      expect(results).toEqual(memories);
-      expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('ORDER BY created_at DESC'),
-        [mockUserId, 20]
-      );
+    it('should return a page with a keyset cursor to the next one', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            row('11111111-1111-4111-8111-111111111111', '2026-10-02 08:00:00.654321'),
+            row('22222222-2222-4222-8222-222222222222', '2026-10-01 09:30:00.123456'),
+            row('33333333-3333-4333-8333-333333333333', '2026-10-01 07:00:00'),
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [{ total: 3 }] } as any);
+
+      const page = await GraphService.listMemories(mockUserId, 2);
+
+      expect(page.memories.map(m => m.id)).toEqual([
+        '11111111-1111-4111-8111-111111111111',
+        '22222222-2222-4222-8222-222222222222',
+      ]);
+      expect(page.memories[0]).not.toHaveProperty('cursor_created_at');
+      expect(page.total_estimate).toBe(3);
+      expect(JSON.parse(Buffer.from(page.next_cursor!, 'base64url').toString())).toEqual({
+        created_at: '2026-10-01 09:30:00.123456',
+        id: '22222222-2222-4222-8222-222222222222',
+      });
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('ORDER BY created_at DESC, id DESC');
+      expect(params).toEqual([mockUserId, 3]); // one extra row tells whether there is a next page
     });
 
-    it('should respect custom limit', async () => {
-      mockQuery.mockResolvedValue({ rows: [] } as any);
+    it('should continue after the cursor and count without it', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [row('33333333-3333-4333-8333-333333333333', '2026-10-01 07:00:00')] } as any)
+        .mockResolvedValueOnce({ rows: [{ total: 3 }] } as any);
+
+      const page = await GraphService.listMemories(mockUserId, 2, { tags: ['work'] }, {
+        created_at: '2026-10-01 09:30:00.123456',
+        id: '22222222-2222-4222-8222-222222222222',
+      });
+
+      expect(page.next_cursor).toBeNull();
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('AND (created_at, id) < ($4::timestamp, $5::uuid)');
+      expect(params).toEqual([
+        mockUserId, 3, ['work'], '2026-10-01 09:30:00.123456', '22222222-2222-4222-8222-222222222222',
+      ]);
+      expect(mockQuery.mock.calls[1][1]).toEqual([mockUserId, 10000, ['work']]);
+    });
+  });
 
-      await GraphService.getRecentMemories(mockUserId, 50);
+  describe('searchMemoriesPage', () => {
+    const hit = (id: string, similarity: number) => ({ ...mockSimilarMemory, id, parent_memory_id: null, similarity });
 
-      expect(mockQuery).toHaveBeenCalledWith(
-        expect.any(String),
-        [mockUserId, 50]
-      );
+    afterEach(() => {
+      mockQuery.mockReset();
+    });
+
+    it('should skip results up to the cursor and point at the next page', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery.mockImplementation(async (sql: string) => ({
+        rows: sql.includes('COUNT(*)')
+          ? [{ total: 4 }]
+          : [hit('a', 0.9), hit('b', 0.8), hit('c', 0.7), hit('d', 0.6)],
+      }) as any);
+
+      const page = await GraphService.searchMemoriesPage(mockUserId, 'query', 2, 'vector', {}, {
+        score: 0.9,
+        id: 'a',
+        depth: 1,
+      });
+
+      expect(page.results.map(r => r.id)).toEqual(['b', 'c']);
+      expect(page.total_estimate).toBe(4);
+      expect(JSON.parse(Buffer.from(page.next_cursor!, 'base64url').toString()))
+        .toEqual({ score: 0.7, id: 'c', depth: 3 });
+    });
+
+    it('should fuse hybrid pages from lists of the same depth', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+      mockQuery.mockImplementation(async (sql: string) => ({
+        rows: sql.includes('COUNT(*)') ? [{ total: 2 }] : [hit('a', 0.9), hit('b', 0.8)],
+      }) as any);
+
+      // [vector LIMIT, keyword LIMIT] of each page's lists, and the page's next cursor
+      const fused = async (limit: number, cursor?: SearchCursor) => {
+        mockQuery.mockClear();
+        const page = await GraphService.searchMemoriesPage(mockUserId, 'query', limit, 'hybrid', {}, cursor);
+        const vector = mockQuery.mock.calls.find(call => call[0].includes('FROM memories\n'));
+        const keyword = mockQuery.mock.calls.find(call => call[0].includes('websearch_to_tsquery'));
+        return {
+          depths: [vector![1]![3], keyword![1]![2]],
+          next: page.next_cursor && JSON.parse(Buffer.from(page.next_cursor, 'base64url').toString()),
+        };
+      };
+
+      const first = await fused(1);
+      expect(first.depths).toEqual([10, 10]);
+      expect(first.next).toEqual({ score: expect.any(Number), id: 'a', depth: 1, fusion_depth: 10 });
+
+      // A larger page size later on keeps the first page's lists
+      expect((await fused(5, first.next)).depths).toEqual([10, 10]);
+      expect((await fused(500)).depths).toEqual([1000, 1000]);
+    });
+
+    it('should end when no results are left', async () => {
+      (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+      mockQuery.mockImplementation(async (sql: string) => ({
+        rows: sql.includes('COUNT(*)') ? [{ total: 1 }] : [hit('a', 0.9)],
+      }) as any);
+
+      const page = await GraphService.searchMemoriesPage(mockUserId, 'query', 2, 'vector');
+
+      expect(page.results.map(r => r.id)).toEqual(['a']);
+      expect(page.next_cursor).toBeNull();
     });
   });
 
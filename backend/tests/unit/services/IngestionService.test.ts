@@ -0,0 +1,321 @@
+import { IngestionService, INGESTION_STAGES } from '../../../src/services/IngestionService';
+import { GraphService } from '../../../src/services/GraphService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import * as database from '../../../src/config/database';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/GraphService');
+jest.mock('../../../src/services/EmbeddingService');
+jest.mock('../../../src/services/TopicClusteringService');
+
+describe('IngestionService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const memory = { id: 'mem-1', user_id: 'user-1', content: 'I love hiking', processing_status: 'processing' };
+  const job = { id: 'job-1', memory_id: 'mem-1', attempts: 1, max_attempts: 5 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  describe('submitMemory', () => {
+    it('should store the memory and queue every stage', async () => {
+      (GraphService.insertPendingMemory as jest.Mock).mockResolvedValue({ ...memory, processing_status: 'processing' });
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const result = await IngestionService.submitMemory('user-1', 'I love hiking');
+
+      expect(result.processing_status).toBe('processing');
+      expect(GraphService.insertPendingMemory).toHaveBeenCalledWith('user-1', 'I love hiking', undefined, undefined);
+      expect(mockQuery.mock.calls[0][0]).toContain('INSERT INTO ingestion_jobs');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['mem-1', 'user-1', 5, INGESTION_STAGES]);
+    });
+
+    it('should merge an exact duplicate without queuing a job', async () => {
+      const existing = { id: 'existing-id', content: 'I love hiking', deduplicated: { type: 'exact', similarity: 1 } };
+      (GraphService.findExactDuplicate as jest.Mock).mockResolvedValue({ id: 'existing-id' });
+      (GraphService.mergeDuplicate as jest.Mock).mockResolvedValue(existing);
+
+      const result = await IngestionService.submitMemory('user-1', 'I love hiking', 'https://example.com');
+
+      expect(result).toBe(existing);
+      expect(GraphService.mergeDuplicate).toHaveBeenCalledWith('existing-id', 'https://example.com', { type: 'exact', similarity: 1 });
+      expect(GraphService.insertPendingMemory).not.toHaveBeenCalled();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should remove the memory if the job cannot be queued', async () => {
+      (GraphService.insertPendingMemory as jest.Mock).mockResolvedValue(memory);
+      mockQuery
+        .mockRejectedValueOnce(new Error('db down'))
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(IngestionService.submitMemory('user-1', 'I love hiking')).rejects.toThrow('db down');
+      expect(mockQuery.mock.calls[1][0]).toContain('DELETE FROM memories');
+    });
+  });
+
+  describe('updateMemory', () => {
+    beforeEach(() => {
+      (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+    });
+
+    it('should replace the job of new content in the edit transaction', async () => {
+      (GraphService.updateMemory as jest.Mock).mockResolvedValue({ ...memory, processing_status: 'processing' });
+
+      const result = await IngestionService.updateMemory(memory as any, { content: 'I love climbing' });
+
+      expect(result.processing_status).toBe('processing');
+      expect(GraphService.updateMemory).toHaveBeenCalledWith(memory, { content: 'I love climbing' }, mockQuery);
+      expect(mockQuery.mock.calls[0]).toEqual(['DELETE FROM ingestion_jobs WHERE memory_id = $1', ['mem-1']]);
+      expect(mockQuery.mock.calls[1][0]).toContain('INSERT INTO ingestion_jobs');
+    });
+
+    it('should not queue a job for a tags-only edit', async () => {
+      (GraphService.updateMemory as jest.Mock).mockResolvedValue({ ...memory, processing_status: 'ready' });
+
+      await IngestionService.updateMemory(memory as any, { tags: ['outdoors'] });
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should apply the changes of an earlier revision', async () => {
+      (GraphService.getRevertChanges as jest.Mock).mockResolvedValue({ content: 'I love hiking' });
+      (GraphService.updateMemory as jest.Mock).mockResolvedValue({ ...memory, processing_status: 'processing' });
+
+      await IngestionService.revertMemory(memory as any, 1);
+
+      expect(GraphService.updateMemory).toHaveBeenCalledWith(memory, { content: 'I love hiking' }, mockQuery);
+    });
+
+    it('should return null when reverting to an unknown version', async () => {
+      (GraphService.getRevertChanges as jest.Mock).mockResolvedValue(null);
+
+      expect(await IngestionService.revertMemory(memory as any, 7)).toBeNull();
+      expect(GraphService.updateMemory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitMemories', () => {
+    beforeEach(() => {
+      (GraphService.insertPendingMemory as jest.Mock).mockImplementation(async (userId: string, content: string) =>
+        ({ id: `mem-${content}`, user_id: userId, content, processing_status: 'processing' }));
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+    });
+
+    it('should store every item with its batch embedding and queue it without enriching it', async () => {
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockResolvedValue([[0.1], [0.2]]);
+
+      const results = await IngestionService.submitMemories('user-1', [
+        { content: 'first' },
+        { content: 'second', content_type: 'fact' },
+      ]);
+
+      expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith(['first', 'second']);
+      expect(GraphService.insertPendingMemory).toHaveBeenNthCalledWith(1, 'user-1', 'first', undefined, undefined, [0.1]);
+      expect(GraphService.insertPendingMemory).toHaveBeenNthCalledWith(2, 'user-1', 'second', undefined, 'fact', [0.2]);
+      expect(results.map(r => r.memory?.processing_status)).toEqual(['processing', 'processing']);
+      expect(mockQuery.mock.calls.filter(call => call[0].includes('INSERT INTO ingestion_jobs'))).toHaveLength(2);
+      expect(GraphService.categorizePendingMemory).not.toHaveBeenCalled();
+    });
+
+    it('should merge an exact duplicate, including a repeat within the batch', async () => {
+      const existing = { id: 'mem-same', content: 'same', deduplicated: { type: 'exact', similarity: 1 } };
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockResolvedValue([[0.1], [0.1]]);
+      (GraphService.findExactDuplicate as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'mem-same' });
+      (GraphService.mergeDuplicate as jest.Mock).mockResolvedValue(existing);
+
+      const results = await IngestionService.submitMemories('user-1', [{ content: 'same' }, { content: 'same' }]);
+
+      expect(results[1]).toEqual({
+        success: true,
+        memory: { id: 'mem-same', content: 'same' },
+        deduplicated: { type: 'exact', similarity: 1 },
+      });
+      expect(GraphService.insertPendingMemory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave embedding to the queue when the batch call fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockRejectedValue(new Error('bad input'));
+
+      const results = await IngestionService.submitMemories('user-1', [{ content: 'first' }]);
+
+      expect(results[0].success).toBe(true);
+      expect(GraphService.insertPendingMemory).toHaveBeenCalledWith('user-1', 'first', undefined, undefined, undefined);
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it('should report a failed item generically without aborting the rest', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockResolvedValue([[0.1], [0.2]]);
+      (GraphService.insertPendingMemory as jest.Mock)
+        .mockRejectedValueOnce(new Error('relation "memories" is locked'));
+
+      const results = await IngestionService.submitMemories('user-1', [{ content: 'broken' }, { content: 'second' }]);
+
+      expect(results[0]).toEqual({ success: false, error: 'Internal server error' });
+      expect(results[1].success).toBe(true);
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe('processNext', () => {
+    it('should return false when nothing is due', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await IngestionService.processNext()).toBe(false);
+      expect(mockQuery.mock.calls[0][0]).toContain('FOR UPDATE SKIP LOCKED');
+    });
+
+    it('should run the remaining stages in order and mark the memory ready', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [job] } as any) // claim
+        .mockResolvedValueOnce({ rows: [memory] } as any) // load memory
+        .mockResolvedValueOnce({ rows: [{ stage: 'contradictions' }, { stage: 'relationships' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      expect(await IngestionService.processNext()).toBe(true);
+
+      expect(GraphService.embedPendingMemory).not.toHaveBeenCalled();
+      expect(GraphService.resolvePendingMemoryContradictions).toHaveBeenCalledWith(memory);
+      expect(GraphService.buildPendingMemoryRelationships).toHaveBeenCalledWith(memory);
+      expect(GraphService.setProcessingStatus).toHaveBeenCalledWith('mem-1', 'ready');
+      const completed = mockQuery.mock.calls.findIndex(call => call[0].includes("SET status = 'completed', locked_at = NULL"));
+      expect((GraphService.setProcessingStatus as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan(mockQuery.mock.invocationCallOrder[completed]);
+    });
+
+    it('should retry instead of completing when the memory cannot be marked ready', async () => {
+      (GraphService.setProcessingStatus as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [job] } as any)
+        .mockResolvedValueOnce({ rows: [memory] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await IngestionService.processNext();
+
+      const retry = mockQuery.mock.calls.find(call => call[0].includes('run_after = NOW()'));
+      expect(retry![1]).toEqual(['job-1', 'connection lost', 5]);
+      expect(mockQuery.mock.calls.some(call => call[0].includes("SET status = 'completed', locked_at = NULL"))).toBe(false);
+    });
+
+    it('should only complete the job of a memory an earlier run finished', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [job] } as any)
+        .mockResolvedValueOnce({ rows: [{ ...memory, processing_status: 'ready' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await IngestionService.processNext();
+
+      expect(mockQuery.mock.calls[2][0]).toContain("SET status = 'completed', locked_at = NULL");
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(GraphService.setProcessingStatus).not.toHaveBeenCalled();
+    });
+
+    it('should record the stage error and schedule a retry with backoff', async () => {
+      (GraphService.embedPendingMemory as jest.Mock).mockRejectedValue(new Error('rate limited'));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...job, attempts: 2 }] } as any)
+        .mockResolvedValueOnce({ rows: [memory] } as any)
+        .mockResolvedValueOnce({ rows: [{ stage: 'embedding' }, { stage: 'categorization' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await IngestionService.processNext();
+
+      const stageUpdate = mockQuery.mock.calls.find(call => call[0].includes("SET status = 'failed', error"));
+      expect(stageUpdate![1]).toEqual(['job-1', 'embedding', 'rate limited']);
+
+      const retry = mockQuery.mock.calls.find(call => call[0].includes('run_after = NOW()'));
+      expect(retry![1]).toEqual(['job-1', 'embedding: rate limited', 10]);
+
+      expect(GraphService.categorizePendingMemory).not.toHaveBeenCalled();
+      expect(GraphService.setProcessingStatus).not.toHaveBeenCalled();
+    });
+
+    it('should skip the remaining stages when the embedding finds a near duplicate', async () => {
+      const existing = { id: 'existing-id', similarity: 0.98 };
+      (GraphService.embedPendingMemory as jest.Mock).mockResolvedValue(existing);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [job] } as any)
+        .mockResolvedValueOnce({ rows: [memory] } as any)
+        .mockResolvedValueOnce({ rows: INGESTION_STAGES.map(stage => ({ stage })) } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await IngestionService.processNext();
+
+      expect(GraphService.categorizePendingMemory).not.toHaveBeenCalled();
+      expect(mockQuery.mock.calls.some(call => call[0].includes("SET status = 'skipped'"))).toBe(true);
+      expect(mockQuery.mock.calls.some(call => call[0].includes("SET status = 'completed', locked_at = NULL"))).toBe(true);
+      expect(GraphService.resolvePendingDuplicate).toHaveBeenCalledWith(memory, existing);
+      expect(GraphService.setProcessingStatus).not.toHaveBeenCalled();
+    });
+
+    it('should retry the embedding stage when the duplicate cannot be folded in', async () => {
+      (GraphService.embedPendingMemory as jest.Mock).mockResolvedValue({ id: 'existing-id', similarity: 0.98 });
+      (GraphService.resolvePendingDuplicate as jest.Mock).mockRejectedValueOnce(new Error('deadlock'));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [job] } as any)
+        .mockResolvedValueOnce({ rows: [memory] } as any)
+        .mockResolvedValueOnce({ rows: INGESTION_STAGES.map(stage => ({ stage })) } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await IngestionService.processNext();
+
+      const stageUpdate = mockQuery.mock.calls.find(call => call[0].includes("SET status = 'failed', error"));
+      expect(stageUpdate![1]).toEqual(['job-1', 'embedding', 'deadlock']);
+      expect(mockQuery.mock.calls.some(call => call[0].includes("SET status = 'completed', locked_at = NULL"))).toBe(false);
+    });
+
+    it('should mark the memory failed after the last attempt', async () => {
+      (GraphService.extractPendingMemoryEntities as jest.Mock).mockRejectedValue(new Error('bad json'));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...job, attempts: 5 }] } as any)
+        .mockResolvedValueOnce({ rows: [memory] } as any)
+        .mockResolvedValueOnce({ rows: [{ stage: 'entities' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+
+      await IngestionService.processNext();
+
+      expect(GraphService.setProcessingStatus).toHaveBeenCalledWith('mem-1', 'failed');
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should return null for a memory the user does not own', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await IngestionService.getStatus('user-1', 'other')).toBeNull();
+    });
+
+    it('should report stages in order', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ memory_id: 'mem-1', processing_status: 'processing', job_id: 'job-1', status: 'pending', attempts: 1, max_attempts: 5, run_after: new Date() }],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            { stage: 'embedding', status: 'completed', attempts: 1, error: null },
+            { stage: 'categorization', status: 'failed', attempts: 1, error: 'timeout' },
+          ],
+        } as any);
+
+      const status = await IngestionService.getStatus('user-1', 'mem-1');
+
+      expect(status!.job!.next_attempt_at).toBeInstanceOf(Date);
+      expect(status!.stages.map(s => s.status)).toEqual(['completed', 'failed']);
+    });
+
+    it('should treat memories without a job as ready', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ memory_id: 'mem-1', processing_status: null, job_id: null }] } as any);
+
+      const status = await IngestionService.getStatus('user-1', 'mem-1');
+
+      expect(status).toEqual({ memory_id: 'mem-1', processing_status: 'ready', job: null, stages: [] });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { memoryFiltersSchema, memoryFilterConditions } from '../../../src/services/MemoryFilters';
+
+describe('MemoryFilters', () => {
+  describe('memoryFiltersSchema', () => {
+    it('should accept comma-separated lists and coerce query string values', () => {
+      const result = memoryFiltersSchema.safeParse({
+        content_type: 'fact, event',
+        min_importance: '0.4',
+        created_before: '2026-06-01',
+      });
+
+      expect(result.success && result.data).toEqual({
+        content_type: ['fact', 'event'],
+        min_importance: 0.4,
+        created_before: new Date('2026-06-01'),
+      });
+    });
+
+    it('should reject a date range that ends before it starts', () => {
+      const result = memoryFiltersSchema.safeParse({
+        created_after: '2026-06-01',
+        created_before: '2026-01-01',
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('memoryFilterConditions', () => {
+    it('should only apply the default status when nothing is filtered', () => {
+      const params: unknown[] = ['user-1'];
+
+      expect(memoryFilterConditions({}, params, 'm', 'active'))
+        .toBe('AND (m.is_archived = FALSE OR m.is_archived IS NULL)');
+      expect(memoryFilterConditions({}, params, 'm', 'all')).toBe('');
+      expect(params).toEqual(['user-1']);
+    });
+
+    it('should number parameters after the existing ones', () => {
+      const params: unknown[] = ['user-1', 20];
+      const createdAfter = new Date('2026-01-01');
+
+      const sql = memoryFilterConditions({
+        content_type: ['fact'],
+        tags: ['work', 'infra'],
+        created_after: createdAfter,
+        min_importance: 0.5,
+        entity: 'Kubernetes',
+        source_domain: 'github.com',
+        status: 'archived',
+      }, params, 'f', 'active');
+
+      expect(sql).toContain('f.content_type = ANY($3::text[])');
+      expect(sql).toContain("(f.metadata->'tags') ?& $4::text[]");
+      expect(sql).toContain('f.created_at >= $5');
+      expect(sql).toContain('f.importance_score >= $6');
+      expect(sql).toContain('e.normalized_value = $7');
+      expect(sql).toContain("LIKE '%.' || $8");
+      expect(sql).toContain('f.is_archived = TRUE');
+      expect(params).toEqual([
+        'user-1', 20, ['fact'], ['work', 'infra'], createdAfter, 0.5, 'kubernetes', 'github.com',
+      ]);
+    });
+  });
+});
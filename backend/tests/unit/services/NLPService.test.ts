@@ -1,4 +1,5 @@
 import { NLPService } from '../../../src/services/NLPService';
+import { createProvider, setProvider } from '../../../src/providers';
 import OpenAI from 'openai';
 import { mockEntities, mockConflict, mockCategorization } from '../../fixtures/test-data';
 
@@ -17,6 +18,7 @@ describe('NLPService', () => {
         },
       },
     } as any));
+    setProvider(createProvider('openai'));
   });
 
   describe('extractEntities', () => {
@@ -0,0 +1,106 @@
+import { ProvenanceService } from '../../../src/services/ProvenanceService';
+import { ConversationService } from '../../../src/services/ConversationService';
+import * as database from '../../../src/config/database';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/ConversationService');
+
+describe('ProvenanceService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const mockConversationService = ConversationService as jest.Mocked<typeof ConversationService>;
+  const userId = 'user-1';
+
+  const retrieved = [
+    { id: 'mem-1', similarity: 0.9, in_prompt: true },
+    { id: 'mem-2', similarity: 0.6, in_prompt: false },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  describe('recordRetrieval', () => {
+    it('should link every retrieved memory to the turn with its score and prompt flag', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await ProvenanceService.recordRetrieval('conv-1', 'turn-1', retrieved);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO memory_conversation_links');
+      expect(sql).toContain('ON CONFLICT (memory_id, turn_id)');
+      expect(params).toEqual(['conv-1', 'turn-1', ['mem-1', 'mem-2'], [0.9, 0.6], [true, false]]);
+    });
+
+    it('should skip the insert when nothing was retrieved', async () => {
+      await ProvenanceService.recordRetrieval('conv-1', 'turn-1', []);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the insert fails', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(ProvenanceService.recordRetrieval('conv-1', 'turn-1', retrieved)).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('recordAnswer', () => {
+    const log = { id: 'log-1', user_id: userId, llm_platform: 'dory-log' } as any;
+
+    it('should append the answer to the existing log conversation', async () => {
+      mockConversationService.listConversations = jest.fn().mockResolvedValue([log]);
+      mockConversationService.createConversation = jest.fn();
+      mockConversationService.addTurns = jest.fn().mockResolvedValue([{ id: 'turn-7', turn_number: 7 }]);
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const turn = await ProvenanceService.recordAnswer(userId, 'Where do I live?', 'Lisbon', retrieved);
+
+      expect(turn).toEqual({ id: 'turn-7', turn_number: 7 });
+      expect(mockConversationService.listConversations)
+        .toHaveBeenCalledWith(userId, { platform: 'dory-log', limit: 1 });
+      expect(mockConversationService.createConversation).not.toHaveBeenCalled();
+      expect(mockConversationService.addTurns)
+        .toHaveBeenCalledWith(log, [{ userMessage: 'Where do I live?', assistantMessage: 'Lisbon' }]);
+      expect(mockQuery.mock.calls[0][1]!.slice(0, 2)).toEqual(['log-1', 'turn-7']);
+    });
+
+    it('should start the log conversation on the first answer', async () => {
+      mockConversationService.listConversations = jest.fn().mockResolvedValue([]);
+      mockConversationService.getOrCreateConversation = jest.fn().mockResolvedValue(log);
+      mockConversationService.addTurns = jest.fn().mockResolvedValue([{ id: 'turn-1', turn_number: 1 }]);
+
+      await ProvenanceService.recordAnswer(userId, 'Where do I live?', "I don't know.", []);
+
+      // Serialized, so two first answers share one log
+      expect(mockConversationService.getOrCreateConversation)
+        .toHaveBeenCalledWith(userId, { platform: 'dory-log', title: 'Questions to Dory' });
+      expect(mockConversationService.addTurns).toHaveBeenCalled();
+    });
+
+    it('should return null when the answer cannot be logged', async () => {
+      mockConversationService.listConversations = jest.fn().mockRejectedValue(new Error('connection lost'));
+
+      await expect(ProvenanceService.recordAnswer(userId, 'q', 'a', retrieved)).resolves.toBeNull();
+    });
+  });
+
+  describe('getMemoryUsages', () => {
+    it('should only return answers from the user\'s conversations', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ turn_id: 'turn-1' }] } as any);
+
+      const usages = await ProvenanceService.getMemoryUsages(userId, 'mem-1', { limit: 10 });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('c.user_id = $2');
+      expect(params).toEqual(['mem-1', userId, 10, 0]);
+      expect(usages).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { RelationshipService } from '../../../src/services/RelationshipService';
+import * as database from '../../../src/config/database';
+
+jest.mock('../../../src/config/database');
+
+describe('RelationshipService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const userId = 'user-1';
+  const calls = (fragment: string) => mockQuery.mock.calls.filter(call => call[0].includes(fragment));
+  const contradicts = {
+    id: 'edge-1',
+    user_id: userId,
+    source_memory_id: 'mem-new',
+    target_memory_id: 'mem-old',
+    relationship_type: 'contradicts',
+    strength: 0.8,
+    metadata: {},
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+  });
+
+  describe('insertDerived', () => {
+    it('should skip tombstoned edges and leave existing ones alone', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const created = await RelationshipService.insertDerived(userId, 'mem-a', 'mem-b', 'related_to', 0.7);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(created).toBe(false);
+      expect(sql).toContain('FROM memory_relationship_tombstones t');
+      expect(sql).toContain('DO NOTHING');
+      expect(params).toEqual([userId, 'mem-a', 'mem-b', 'related_to', 0.7, '{}']);
+    });
+
+    it('should honour a tombstone on the reversed edge for symmetric types', async () => {
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+
+      // The user deleted "A contradicts B"; re-saving B must not write "B contradicts A"
+      await RelationshipService.insertDerived(userId, 'mem-b', 'mem-a', 'contradicts', 0.9);
+      await RelationshipService.insertDerived(userId, 'mem-b', 'mem-a', 'causal', 0.9);
+
+      const [contradictsSql, causalSql] = mockQuery.mock.calls.map(call => call[0]);
+      expect(contradictsSql).toContain('OR (t.source_memory_id = $3 AND t.target_memory_id = $2)');
+      expect(causalSql).not.toContain('t.source_memory_id = $3');
+    });
+
+    it('should refresh automatic edges but never user edges', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'edge-2' }] } as any);
+
+      const created = await RelationshipService.insertDerived(userId, 'mem-a', 'mem-b', 'causal', 0.8, {
+        metadata: { explanation: 'A led to B' },
+        refresh: true,
+      });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(created).toBe(true);
+      expect(sql).toContain('DO UPDATE SET strength = EXCLUDED.strength');
+      expect(sql).toContain(`metadata->>'source' IS DISTINCT FROM 'user'`);
+      expect(params![5]).toBe(JSON.stringify({ explanation: 'A led to B' }));
+    });
+  });
+
+  describe('createRelationship', () => {
+    it('should write a user edge, lift its tombstone and flag a contradicted memory', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT id FROM memories')) return { rows: [{ id: 'mem-new' }, { id: 'mem-old' }] } as any;
+        if (sql.includes('INSERT INTO memory_relationships')) return { rows: [contradicts] } as any;
+        return { rows: [] } as any;
+      });
+
+      const edge = await RelationshipService.createRelationship(userId, {
+        sourceMemoryId: 'mem-new',
+        targetMemoryId: 'mem-old',
+        relationshipType: 'contradicts',
+        note: 'the old plan was cancelled',
+      });
+
+      expect(edge).toEqual(contradicts);
+      expect(calls('INSERT INTO memory_relationships')[0][1]).toEqual([
+        userId, 'mem-new', 'mem-old', 'contradicts', 1.0,
+        JSON.stringify({ source: 'user', note: 'the old plan was cancelled' }),
+      ]);
+      expect(calls('DELETE FROM memory_relationship_tombstones')[0][1]).toEqual(['mem-new', 'mem-old', 'contradicts']);
+      expect(calls('SET metadata = metadata || $2::jsonb')[0][1]).toEqual([
+        'mem-old', JSON.stringify({ outdated: true, superseded_by: 'mem-new' }),
+      ]);
+    });
+
+    it('should return null when a memory is not the user\'s', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'mem-new' }] } as any);
+
+      const edge = await RelationshipService.createRelationship(userId, {
+        sourceMemoryId: 'mem-new',
+        targetMemoryId: 'mem-other',
+        relationshipType: 'extends',
+      });
+
+      expect(edge).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('updateRelationship', () => {
+    it('should reweight in place as a user edge', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [contradicts] } as any)
+        .mockResolvedValueOnce({ rows: [{ ...contradicts, strength: 0.3 }] } as any);
+
+      const edge = await RelationshipService.updateRelationship(userId, 'edge-1', { strength: 0.3 });
+
+      expect(edge!.strength).toBe(0.3);
+      expect(mockQuery.mock.calls[1][1]).toEqual(['edge-1', 0.3, JSON.stringify({ source: 'user' })]);
+      expect(calls('memory_relationship_tombstones')).toHaveLength(0);
+    });
+
+    it('should relabel a wrong contradicts edge, tombstoning it and clearing the outdated flag', async () => {
+      const relabelled = { ...contradicts, id: 'edge-2', relationship_type: 'related_to', metadata: { source: 'user' } };
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT * FROM memory_relationships')) return { rows: [contradicts] } as any;
+        if (sql.includes('INSERT INTO memory_relationships')) return { rows: [relabelled] } as any;
+        return { rows: [] } as any;
+      });
+
+      const edge = await RelationshipService.updateRelationship(userId, 'edge-1', { relationshipType: 'related_to' });
+
+      expect(edge).toEqual(relabelled);
+      expect(calls('INSERT INTO memory_relationships')[0][1]!.slice(1, 5)).toEqual(['mem-new', 'mem-old', 'related_to', 0.8]);
+      expect(calls('DELETE FROM memory_relationships WHERE id = $1')[0][1]).toEqual(['edge-1']);
+      expect(calls('INSERT INTO memory_relationship_tombstones')[0][1]).toEqual([userId, 'mem-new', 'mem-old', 'contradicts']);
+      expect(calls(`metadata - 'outdated' - 'superseded_by'`)[0][1]).toEqual(['mem-old', 'mem-new']);
+      expect(database.transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the old edge when the relabelled one cannot be written', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT * FROM memory_relationships')) return { rows: [contradicts] } as any;
+        if (sql.includes('INSERT INTO memory_relationships')) throw new Error('connection reset');
+        return { rows: [] } as any;
+      });
+
+      await expect(RelationshipService.updateRelationship(userId, 'edge-1', { relationshipType: 'related_to' }))
+        .rejects.toThrow('connection reset');
+      expect(calls('DELETE FROM memory_relationships WHERE id = $1')).toHaveLength(0);
+      expect(calls('INSERT INTO memory_relationship_tombstones')).toHaveLength(0);
+    });
+
+    it('should return null for an unknown edge', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await RelationshipService.updateRelationship(userId, 'missing', { strength: 0.1 })).toBeNull();
+    });
+  });
+
+  describe('deleteRelationship', () => {
+    it('should delete and tombstone an edge', async () => {
+      const edge = { ...contradicts, relationship_type: 'inferred' };
+      mockQuery.mockResolvedValueOnce({ rows: [edge] } as any).mockResolvedValue({ rows: [] } as any);
+
+      const deleted = await RelationshipService.deleteRelationship(userId, 'edge-1');
+
+      expect(deleted).toBe(true);
+      expect(mockQuery.mock.calls[0][0]).toContain(`relationship_type <> 'part_of'`);
+      expect(calls('INSERT INTO memory_relationship_tombstones')[0][1]).toEqual([userId, 'mem-new', 'mem-old', 'inferred']);
+      expect(calls(`metadata - 'outdated'`)).toHaveLength(0);
+    });
+
+    it('should return false for an edge of another user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(await RelationshipService.deleteRelationship(userId, 'edge-9')).toBe(false);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
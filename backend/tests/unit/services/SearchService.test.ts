@@ -0,0 +1,140 @@
+import { SearchService } from '../../../src/services/SearchService';
+import { GraphService } from '../../../src/services/GraphService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import * as database from '../../../src/config/database';
+import { mockEmbedding } from '../../fixtures/test-data';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+
+describe('SearchService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const userId = 'user-1';
+
+  const turnRow = (id: string, similarity: number, extra: object = {}) => ({
+    id,
+    conversation_id: 'conv-1',
+    conversation_title: 'Trip planning',
+    llm_platform: 'chatgpt',
+    turn_number: 3,
+    user_message: 'Where should I stay in Lisbon?',
+    assistant_message: 'Alfama is a good base.',
+    matched_role: 'assistant',
+    timestamp: new Date('2025-01-01'),
+    similarity,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    (EmbeddingService.generateEmbedding as jest.Mock).mockResolvedValue(mockEmbedding);
+    (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+  });
+
+  describe('searchTurns', () => {
+    it('should search both message embeddings of the user with the current model', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await SearchService.searchTurns(userId, mockEmbedding, 5);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('user_message_embedding <=> $1::vector');
+      expect(sql).toContain('assistant_message_embedding <=> $1::vector');
+      expect(sql).toContain('DISTINCT ON (t.id)');
+      expect(params).toEqual([JSON.stringify(mockEmbedding), userId, 'test-model', 5, ['dory-log', 'dory']]);
+    });
+
+    it('should leave out Dory\'s answer log and chat sessions', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await SearchService.searchTurns(userId, mockEmbedding, 5);
+
+      const [sql] = mockQuery.mock.calls[0];
+      expect(sql).toContain('conversation_id NOT IN (SELECT id FROM conversations WHERE user_id = $2 AND llm_platform = ANY($5))');
+    });
+  });
+
+  describe('searchConversations', () => {
+    it('should leave out Dory\'s own conversations', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await SearchService.searchConversations(userId, mockEmbedding, 5);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('llm_platform <> ALL($5)');
+      expect(params![4]).toEqual(['dory-log', 'dory']);
+    });
+
+    it('should order turns by similarity and apply the limit', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [turnRow('a', 0.4), turnRow('b', 0.9), turnRow('c', 0.6)],
+      } as any);
+
+      const turns = await SearchService.searchTurns(userId, mockEmbedding, 2);
+
+      expect(turns.map(turn => turn.id)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('unifiedSearch', () => {
+    beforeEach(() => {
+      jest.spyOn(GraphService, 'searchMemoriesByEmbedding').mockResolvedValue([
+        { id: 'mem-1', content: 'I am going to Lisbon in May', created_at: new Date(), similarity: 0.8 } as any,
+        { id: 'mem-2', content: 'I like hiking', created_at: new Date(), similarity: 0.2 } as any,
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should merge sources by raw similarity with deep links', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM conversation_turns')) {
+          return { rows: [turnRow('turn-1', 0.5), turnRow('turn-2', 0.3, { turn_number: 7 })] } as any;
+        }
+        return {
+          rows: [{
+            id: 'conv-2',
+            title: 'Portugal',
+            llm_platform: 'claude',
+            conversation_summary: 'Planning a week in Portugal.',
+            primary_topics: ['travel'],
+            started_at: new Date(),
+            last_message_at: new Date(),
+            similarity: 0.6,
+          }],
+        } as any;
+      });
+
+      const results = await SearchService.unifiedSearch(userId, 'lisbon hotel', 10);
+
+      expect(EmbeddingService.generateEmbedding).toHaveBeenCalledTimes(1);
+      // A source's best hit does not outrank a stronger hit elsewhere
+      expect(results.map(r => [r.type, r.id, r.score])).toEqual([
+        ['memory', 'mem-1', 0.8],
+        ['conversation', 'conv-2', 0.6],
+        ['turn', 'turn-1', 0.5],
+        ['turn', 'turn-2', 0.3],
+        ['memory', 'mem-2', 0.2],
+      ]);
+
+      const turn = results.find(r => r.id === 'turn-1')!;
+      expect(turn.link).toEqual({ conversation_id: 'conv-1', turn_number: 3 });
+      expect(turn.content).toBe('Alfama is a good base.');
+      expect(turn.title).toBe('Trip planning');
+      expect(results.find(r => r.id === 'mem-1')!.link).toEqual({ memory_id: 'mem-1' });
+      expect(results.find(r => r.id === 'conv-2')!.link).toEqual({ conversation_id: 'conv-2' });
+    });
+
+    it('should apply the limit after merging', async () => {
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+
+      const results = await SearchService.unifiedSearch(userId, 'lisbon', 1);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].id).toBe('mem-1');
+    });
+  });
+});
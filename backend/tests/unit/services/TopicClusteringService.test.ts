@@ -0,0 +1,218 @@
+import { TopicClusteringService } from '../../../src/services/TopicClusteringService';
+import { EmbeddingService } from '../../../src/services/EmbeddingService';
+import { NLPService } from '../../../src/services/NLPService';
+import * as database from '../../../src/config/database';
+
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/services/EmbeddingService');
+jest.mock('../../../src/services/NLPService');
+
+describe('TopicClusteringService', () => {
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+  const userId = 'user-1';
+  let conversation: {
+    id: string;
+    user_id: string;
+    primary_topics: string[];
+    started_at: Date;
+    last_message_at: Date;
+  };
+
+  // Responses by statement; anything else returns no rows
+  let byName: Record<string, any>;
+  let nearest: any;
+  let neighbour: any;
+  let clusters: Record<string, any>;
+
+  const calls = (fragment: string) => mockQuery.mock.calls.filter(call => call[0].includes(fragment));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    byName = {};
+    nearest = null;
+    neighbour = null;
+    clusters = {};
+    conversation = {
+      id: 'conv-1',
+      user_id: userId,
+      primary_topics: ['  Travel ', 'Portugal'],
+      started_at: new Date('2025-01-01'),
+      last_message_at: new Date('2025-01-02'),
+    };
+
+    (database.transaction as jest.Mock).mockImplementation(async (work: any) => work(mockQuery));
+    (EmbeddingService.currentModel as jest.Mock).mockReturnValue('test-model');
+    (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockImplementation(async (texts: string[]) =>
+      texts.map((_, i) => (i === 0 ? [1, 0] : [0, 1])));
+
+    mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.includes('topic_name = $2 OR $2 = ANY(aliases)')) {
+        return { rows: byName[params![1]] ? [byName[params![1]]] : [] } as any;
+      }
+      if (sql.includes('ORDER BY topic_embedding <=> $2::vector')) {
+        if (params![3]) {
+          // A neighbour is close only until merged
+          const close = neighbour;
+          neighbour = null;
+          return { rows: close ? [close] : [] } as any;
+        }
+        return { rows: nearest ? [nearest] : [] } as any;
+      }
+      if (sql.includes('INSERT INTO topic_clusters')) {
+        return { rows: [{ id: `new-${params![1]}` }] } as any;
+      }
+      if (sql.includes('FROM topic_clusters WHERE id = $1')) {
+        return { rows: clusters[params![0]] ? [clusters[params![0]]] : [] } as any;
+      }
+      return { rows: [] } as any;
+    });
+  });
+
+  describe('assignConversation', () => {
+    it('should start a cluster for each unmatched topic', async () => {
+      const topicIds = await TopicClusteringService.assignConversation(conversation);
+
+      expect(EmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith(['travel', 'portugal']);
+      expect(topicIds).toEqual(['new-travel', 'new-portugal']);
+
+      const inserts = calls('INSERT INTO topic_clusters');
+      expect(inserts[0][1]).toEqual([
+        userId, 'travel', JSON.stringify([1, 0]), 'test-model', conversation.started_at, conversation.last_message_at,
+      ]);
+
+      const memberships = calls('INSERT INTO conversation_topics');
+      expect(memberships.map(call => call[1])).toEqual([
+        ['conv-1', 'new-travel', 1],
+        ['conv-1', 'new-portugal', 1],
+      ]);
+      expect(calls('INSERT INTO topic_phrases').map(call => call[1])).toEqual([
+        ['new-travel', 'conv-1', 'travel', JSON.stringify([1, 0]), 'test-model'],
+        ['new-portugal', 'conv-1', 'portugal', JSON.stringify([0, 1]), 'test-model'],
+      ]);
+      expect(calls('conversation_count = (SELECT COUNT(*)')).toHaveLength(1);
+    });
+
+    it('should join the nearest cluster and recompute its centroid', async () => {
+      nearest = {
+        id: 'topic-trips',
+        topic_name: 'trips',
+        centroid: '[0,1]',
+        member_count: 3,
+        embedding_model: 'test-model',
+        similarity: 0.85,
+      };
+      conversation.primary_topics = ['travel'];
+
+      const topicIds = await TopicClusteringService.assignConversation(conversation);
+
+      expect(topicIds).toEqual(['topic-trips']);
+      expect(calls('INSERT INTO topic_clusters')).toHaveLength(0);
+
+      expect(calls('SET first_seen = LEAST(first_seen, $2)')[0][1])
+        .toEqual(['topic-trips', conversation.started_at, conversation.last_message_at]);
+      expect(calls('INSERT INTO conversation_topics')[0][1]).toEqual(['conv-1', 'topic-trips', 0.85]);
+      expect(calls('AVG(embedding) AS centroid')[0][1]).toEqual([['topic-trips'], 'test-model']);
+    });
+
+    it('should start a new cluster when the nearest is below the assign threshold', async () => {
+      nearest = { id: 'topic-food', topic_name: 'food', centroid: '[0,1]', member_count: 1, embedding_model: 'test-model', similarity: 0.4 };
+      conversation.primary_topics = ['travel'];
+
+      expect(await TopicClusteringService.assignConversation(conversation)).toEqual(['new-travel']);
+    });
+
+    it('should resolve a merged topic name through its alias', async () => {
+      byName.travel = { id: 'topic-trips', topic_name: 'trips', centroid: '[1,0]', member_count: 2, embedding_model: 'test-model', similarity: '1.0' };
+      conversation.primary_topics = ['Travel'];
+
+      expect(await TopicClusteringService.assignConversation(conversation)).toEqual(['topic-trips']);
+      expect(calls('ORDER BY topic_embedding <=> $2::vector')).toHaveLength(0);
+    });
+
+    it('should merge a cluster into a neighbour whose centroid is too close', async () => {
+      conversation.primary_topics = ['travel'];
+      clusters['new-travel'] = {
+        id: 'new-travel', topic_name: 'travel', centroid: '[1,0]', member_count: 1, embedding_model: 'test-model', similarity: '1.0',
+      };
+      neighbour = {
+        id: 'topic-trips', topic_name: 'trips', centroid: '[1,0]', member_count: 5, embedding_model: 'test-model', similarity: 0.95,
+      };
+
+      const topicIds = await TopicClusteringService.assignConversation(conversation);
+
+      expect(topicIds).toEqual(['topic-trips']);
+      expect(calls('SELECT conversation_id, $1, relevance_score FROM conversation_topics')[0][1])
+        .toEqual(['topic-trips', 'new-travel']);
+      expect(calls('UPDATE topic_phrases SET topic_id = $1')[0][1]).toEqual(['topic-trips', 'new-travel']);
+      expect(calls('WHERE t.id = $1 AND s.id = $2')[0][1]).toEqual(['topic-trips', 'new-travel']);
+      expect(calls('DELETE FROM topic_clusters WHERE id = $1')[0][1]).toEqual(['new-travel']);
+      expect(calls('AVG(embedding) AS centroid')[1][1]).toEqual([['topic-trips'], 'test-model']);
+      expect(database.transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should follow a cluster merged away earlier in the same assignment', async () => {
+      clusters['new-travel'] = {
+        id: 'new-travel', topic_name: 'travel', centroid: '[1,0]', member_count: 3, embedding_model: 'test-model', similarity: '1.0',
+      };
+      clusters['new-portugal'] = {
+        id: 'new-portugal', topic_name: 'portugal', centroid: '[0,1]', member_count: 1, embedding_model: 'test-model', similarity: '1.0',
+      };
+      neighbour = { ...clusters['new-portugal'], similarity: 0.95 };
+
+      const topicIds = await TopicClusteringService.assignConversation(conversation);
+
+      expect(topicIds).toEqual(['new-travel']);
+      expect(calls('DELETE FROM topic_clusters WHERE id = $1').map(call => call[1])).toEqual([['new-portugal']]);
+      const lookups = calls('FROM topic_clusters WHERE id = $1').filter(call => call[0].startsWith('SELECT'));
+      expect(lookups.map(call => call[1])).toEqual([['new-travel'], ['new-travel']]);
+    });
+  });
+
+  describe('assignMemory', () => {
+    it('should replace earlier assignments and recount the old topics', async () => {
+      (NLPService.extractTopics as jest.Mock).mockResolvedValue(['Cooking']);
+      const respond = mockQuery.getMockImplementation()!;
+      mockQuery.mockImplementation(async (sql: string, params?: any[]) =>
+        sql.includes('DELETE FROM memory_topics') ? { rows: [{ topic_id: 'topic-old' }] } as any : respond(sql, params));
+
+      await TopicClusteringService.assignMemory({
+        id: 'mem-1', user_id: userId, content: 'My pasta recipe', created_at: new Date(),
+      });
+
+      const sqls = mockQuery.mock.calls.map(call => call[0]);
+      expect(sqls.findIndex(sql => sql.includes('DELETE FROM memory_topics')))
+        .toBeGreaterThan(sqls.findIndex(sql => sql.includes('INSERT INTO topic_clusters')));
+      expect(calls('DELETE FROM topic_phrases WHERE memory_id = $1')[0][1]).toEqual(['mem-1']);
+      expect(calls('INSERT INTO memory_topics')[0][1]).toEqual(['mem-1', 'new-cooking', 1]);
+      expect(calls('AVG(embedding) AS centroid')[0][1]).toEqual([['topic-old', 'new-cooking'], 'test-model']);
+      expect(calls('conversation_count = (SELECT COUNT(*)')[0][1]).toEqual([['topic-old', 'new-cooking']]);
+    });
+
+    it('should keep earlier assignments when clustering fails', async () => {
+      (NLPService.extractTopics as jest.Mock).mockResolvedValue(['Cooking']);
+      (EmbeddingService.generateBatchEmbeddings as jest.Mock).mockRejectedValue(new Error('provider down'));
+
+      await expect(TopicClusteringService.assignMemory({
+        id: 'mem-1', user_id: userId, content: 'My pasta recipe', created_at: new Date(),
+      })).rejects.toThrow('provider down');
+      expect(calls('DELETE FROM memory_topics')).toHaveLength(0);
+    });
+
+    it('should store nothing when no topics are found', async () => {
+      (NLPService.extractTopics as jest.Mock).mockResolvedValue([]);
+
+      expect(await TopicClusteringService.assignMemory({
+        id: 'mem-1', user_id: userId, content: 'ok', created_at: new Date(),
+      })).toEqual([]);
+      expect(EmbeddingService.generateBatchEmbeddings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTopic', () => {
+    it('should return null for a topic of another user', async () => {
+      expect(await TopicClusteringService.getTopic(userId, 'topic-1')).toBeNull();
+      expect(mockQuery.mock.calls[0][1]).toEqual(['topic-1', userId]);
+    });
+  });
+});
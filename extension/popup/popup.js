@@ -220,7 +220,7 @@ function displayRecentMemories(memories) {
     const meta = document.createElement('div');
     meta.className = 'memory-meta';
     meta.innerHTML = `
-      <span>${formatDate(memory.created_at)}</span>
+      <span>${escapeHtml(formatDate(memory.created_at))}</span>
       <span class="memory-similarity">${Math.round(memory.importance_score * 100)}%</span>
     `;
 
@@ -276,12 +276,13 @@ function displaySearchResults(results) {
 
     const content = document.createElement('div');
     content.className = 'memory-content';
-    content.textContent = truncate(result.content, 150);
+    // Long documents: show the passage that matched, not the start of the text
+    content.textContent = truncate(result.matched_passage || result.content, 150);
 
     const meta = document.createElement('div');
     meta.className = 'memory-meta';
     meta.innerHTML = `
-      <span>${formatDate(result.created_at)}</span>
+      <span>${escapeHtml(formatDate(result.created_at))}</span>
       <span class="memory-similarity">${Math.round(result.similarity * 100)}%</span>
     `;
 
@@ -344,6 +345,18 @@ function showNotification(message) {
   // Could add a toast notification here
 }
 
+// Utility: Escape HTML
+// Memory content is stored raw: set it with textContent, or escape it
+// before it goes into an innerHTML template
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Utility: Truncate text
 function truncate(text, maxLength) {
   if (!text) return '';
@@ -356,7 +356,7 @@ window.showMemoryDetail = async function(memoryId) {
             </div>
             <div class="detail-row">
                 <div class="detail-label">Type</div>
-                <div class="detail-value">${memory.content_type || 'N/A'}</div>
+                <div class="detail-value">${escapeHtml(memory.content_type || 'N/A')}</div>
             </div>
             <div class="detail-row">
                 <div class="detail-label">Importance Score</div>
@@ -378,7 +378,7 @@ window.showMemoryDetail = async function(memoryId) {
                 <div class="detail-row">
                     <div class="detail-label">Source URL</div>
                     <div class="detail-value">
-                        <a href="${memory.source_url}" target="_blank" style="color: var(--primary-color);">
+                        <a href="${safeUrl(memory.source_url)}" target="_blank" rel="noopener noreferrer" style="color: var(--primary-color);">
                             ${escapeHtml(memory.source_url)}
                         </a>
                     </div>
@@ -388,7 +388,7 @@ window.showMemoryDetail = async function(memoryId) {
                 <div class="detail-row">
                     <div class="detail-label">Metadata</div>
                     <div class="detail-value">
-                        <pre style="background: var(--bg-dark); padding: 10px; border-radius: 4px; overflow-x: auto;">${JSON.stringify(memory.metadata, null, 2)}</pre>
+                        <pre style="background: var(--bg-dark); padding: 10px; border-radius: 4px; overflow-x: auto;">${escapeHtml(JSON.stringify(memory.metadata, null, 2))}</pre>
                     </div>
                 </div>
             ` : ''}
@@ -402,10 +402,25 @@ window.showMemoryDetail = async function(memoryId) {
 };
 
 // Utility: Escape HTML
+// Memory content is stored raw, so anything interpolated into innerHTML
+// (text or attribute values) must go through here
 function escapeHtml(text) {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
+    return String(text ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Utility: Only allow http(s) links, escaped for use in an attribute
+function safeUrl(url) {
+    try {
+        const parsed = new URL(url);
+        return ['http:', 'https:'].includes(parsed.protocol) ? escapeHtml(parsed.href) : '#';
+    } catch {
+        return '#';
+    }
 }
 
 // Export state for debugging
@@ -16,7 +16,7 @@ function initGraph() {
     // Create 3D force graph
     graphInstance = ForceGraph3D()(container)
         .graphData(graphData)
-        .nodeLabel('label')
+        .nodeLabel(node => escapeHtml(node.label)) // rendered as HTML; escapeHtml is in app.js
         .nodeColor(node => getNodeColor(node))
         .nodeVal(node => getNodeSize(node))
         .nodeOpacity(0.9)
@@ -285,7 +285,7 @@ function toggleLabels() {
     showLabels = !showLabels;
 
     if (graphInstance) {
-        graphInstance.nodeLabel(showLabels ? 'label' : '');
+        graphInstance.nodeLabel(showLabels ? node => escapeHtml(node.label) : '');
     }
 
     const btn = document.getElementById('toggleLabelsBtn');
@@ -1,12 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useMutation } from '@tanstack/react-query'
 import { api } from '@/lib/api'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { Send, Bot, User } from 'lucide-react'
+import { Send, Bot, User, Plus } from 'lucide-react'
 import { motion } from 'framer-motion'
 
 interface Message {
@@ -15,24 +15,48 @@ interface Message {
   memories?: any[]
 }
 
+// The open chat session survives reloads; its history lives on the server
+const SESSION_KEY = 'dory_chat_session'
+
 export default function ChatPage() {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
+  const [sessionId, setSessionId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const savedSessionId = localStorage.getItem(SESSION_KEY)
+    if (!savedSessionId) return
+
+    api.getChatSession(savedSessionId)
+      .then((data: any) => {
+        setSessionId(savedSessionId)
+        setMessages(data.messages.map((m: any) => ({ role: m.role, content: m.content })))
+      })
+      .catch(() => localStorage.removeItem(SESSION_KEY))
+  }, [])
 
   const askMutation = useMutation({
-    mutationFn: (question: string) => api.askQuestion(question),
-    onSuccess: (data) => {
+    mutationFn: (message: string) => api.chat(message, sessionId),
+    onSuccess: (data: any) => {
+      setSessionId(data.session_id)
+      localStorage.setItem(SESSION_KEY, data.session_id)
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: data.answer,
+          content: data.response,
           memories: data.memories,
         },
       ])
     },
   })
 
+  const startNewChat = () => {
+    localStorage.removeItem(SESSION_KEY)
+    setSessionId(null)
+    setMessages([])
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (!input.trim() || askMutation.isPending) return
@@ -46,10 +70,21 @@ export default function ChatPage() {
     <div className="max-w-4xl mx-auto">
       <Card className="bg-slate-900/50 border-slate-800">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Bot className="w-6 h-6 text-blue-400" />
-              Chat with Your Memories
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Bot className="w-6 h-6 text-blue-400" />
+                Chat with Your Memories
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={startNewChat}
+                disabled={askMutation.isPending || messages.length === 0}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                New chat
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Messages */}
@@ -3,6 +3,7 @@
 import { useEffect, useRef, memo, useCallback } from 'react'
 import ForceGraph3D from 'react-force-graph-3d'
 import * as THREE from 'three'
+import { escapeHtml } from '@/lib/utils'
 
 interface MemoryGraph3DProps {
   data: {
@@ -225,7 +226,7 @@ const MemoryGraph3D = memo(function MemoryGraph3D({ data }: MemoryGraph3DProps)
               Importance: ${(node.importance * 100).toFixed(0)}% | Freshness: ${freshnessPercent}%
             </div>
             <div style="border-top: 1px solid rgba(255,255,255,0.2); padding-top: 6px; margin-top: 6px;">
-              ${node.fullContent}
+              ${escapeHtml(node.fullContent)}
             </div>
           </div>
         `
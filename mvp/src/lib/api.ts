@@ -1,5 +1,33 @@
 import { API_BASE_URL } from './utils'
 
+// Filters accepted by both memory search and memory listing
+export interface MemoryFilters {
+  content_type?: string[]
+  tags?: string[]
+  created_after?: string
+  created_before?: string
+  min_importance?: number
+  entity?: string
+  source_domain?: string
+  status?: 'active' | 'archived' | 'all'
+}
+
+// Paged responses: next_cursor is null on the last page; total_estimate
+// counts up to 10,000
+export interface MemoryListPage {
+  memories: any[]
+  count: number
+  next_cursor: string | null
+  total_estimate: number
+}
+
+export interface SearchPage {
+  results: any[]
+  count: number
+  next_cursor: string | null
+  total_estimate: number
+}
+
 class ApiClient {
   private baseURL: string
 
@@ -40,8 +68,27 @@ class ApiClient {
   }
 
   // Memory operations
-  async getMemories(limit = 10) {
-    return this.request(`/memories?limit=${limit}`)
+  async getMemories(limit = 10, filters: MemoryFilters = {}, cursor?: string) {
+    const params = new URLSearchParams({ limit: String(limit) })
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) {
+        params.set(key, Array.isArray(value) ? value.join(',') : String(value))
+      }
+    }
+    if (cursor) {
+      params.set('cursor', cursor)
+    }
+    return this.request<MemoryListPage>(`/memories?${params}`)
+  }
+
+  // Every memory matching the filters, newest first, fetched a page at a time
+  async *iterateMemories(filters: MemoryFilters = {}, pageSize = 100) {
+    let cursor: string | undefined
+    do {
+      const page = await this.getMemories(pageSize, filters, cursor)
+      yield* page.memories
+      cursor = page.next_cursor ?? undefined
+    } while (cursor)
   }
 
   async createMemory(content: string, contentType = 'text') {
@@ -51,10 +98,43 @@ class ApiClient {
     })
   }
 
+  async createMemories(memories: Array<{ content: string; content_type?: string; source_url?: string }>) {
+    return this.request('/memories/batch', {
+      method: 'POST',
+      body: JSON.stringify({ memories }),
+    })
+  }
+
   async getMemory(id: string) {
     return this.request(`/memories/${id}`)
   }
 
+  async getMemoryStatus(id: string) {
+    return this.request(`/memories/${id}/status`)
+  }
+
+  async updateMemory(id: string, changes: { content?: string; content_type?: string; tags?: string[] }) {
+    return this.request(`/memories/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+  }
+
+  async getMemoryHistory(id: string) {
+    return this.request(`/memories/${id}/history`)
+  }
+
+  async getMemoryUsages(id: string, limit = 50, offset = 0) {
+    return this.request(`/memories/${id}/usages?limit=${limit}&offset=${offset}`)
+  }
+
+  async revertMemory(id: string, version: number) {
+    return this.request(`/memories/${id}/revert`, {
+      method: 'POST',
+      body: JSON.stringify({ version }),
+    })
+  }
+
   async deleteMemory(id: string) {
     return this.request(`/memories/${id}`, {
       method: 'DELETE',
@@ -62,8 +142,17 @@ class ApiClient {
   }
 
   // Graph operations
-  async getMemoryGraph() {
-    return this.request('/memories/graph/view')
+  async getMemoryGraph(
+    options: { memoryId?: string; depth?: number; minStrength?: number; types?: string[]; maxNodesPerHop?: number } = {}
+  ) {
+    const params = new URLSearchParams()
+    if (options.memoryId) params.set('memory_id', options.memoryId)
+    if (options.depth !== undefined) params.set('depth', String(options.depth))
+    if (options.minStrength !== undefined) params.set('min_strength', String(options.minStrength))
+    if (options.types?.length) params.set('types', options.types.join(','))
+    if (options.maxNodesPerHop !== undefined) params.set('max_nodes_per_hop', String(options.maxNodesPerHop))
+    const search = params.toString()
+    return this.request(`/memories/graph/view${search ? `?${search}` : ''}`)
   }
 
   // Stats
@@ -79,11 +168,144 @@ class ApiClient {
     })
   }
 
+  // Sends one message; the server keeps the history. Omit sessionId to start a session
+  async chat(message: string, sessionId?: string | null) {
+    return this.request('/chat', {
+      method: 'POST',
+      body: JSON.stringify({ message, ...(sessionId ? { session_id: sessionId } : {}) }),
+    })
+  }
+
+  async getChatSessions(limit = 20) {
+    return this.request(`/chat/sessions?limit=${limit}`)
+  }
+
+  async getChatSession(id: string) {
+    return this.request(`/chat/sessions/${id}`)
+  }
+
+  async renameChatSession(id: string, title: string) {
+    return this.request(`/chat/sessions/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    })
+  }
+
+  async deleteChatSession(id: string) {
+    return this.request(`/chat/sessions/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Topics
+  async getTopics(limit = 50) {
+    return this.request(`/topics?limit=${limit}`)
+  }
+
+  async getTopic(id: string) {
+    return this.request(`/topics/${id}`)
+  }
+
+  // Entities
+  async getEntities(
+    options: { entityType?: string; sort?: 'mention_count' | 'last_seen'; limit?: number; offset?: number } = {}
+  ) {
+    const params = new URLSearchParams()
+    if (options.entityType) params.set('entity_type', options.entityType)
+    if (options.sort) params.set('sort', options.sort)
+    if (options.limit !== undefined) params.set('limit', String(options.limit))
+    if (options.offset !== undefined) params.set('offset', String(options.offset))
+    const search = params.toString()
+    return this.request(`/entities${search ? `?${search}` : ''}`)
+  }
+
+  async getEntity(id: string, limit = 50, offset = 0) {
+    return this.request(`/entities/${id}?limit=${limit}&offset=${offset}`)
+  }
+
+  async getEntityCoOccurrences(id: string, limit = 20) {
+    return this.request(`/entities/${id}/co-occurrences?limit=${limit}`)
+  }
+
+  async mergeEntities(targetId: string, sourceIds: string[]) {
+    return this.request('/entities/merge', {
+      method: 'POST',
+      body: JSON.stringify({ target_id: targetId, source_ids: sourceIds }),
+    })
+  }
+
+  async resolveEntities(limit = 100) {
+    return this.request('/entities/resolve', {
+      method: 'POST',
+      body: JSON.stringify({ limit }),
+    })
+  }
+
+  // Relationships
+  async getRelationships(memoryId: string, limit = 100) {
+    return this.request(`/relationships?memory_id=${memoryId}&limit=${limit}`)
+  }
+
+  async createRelationship(relationship: {
+    source_memory_id: string
+    target_memory_id: string
+    relationship_type: string
+    strength?: number
+    note?: string
+  }) {
+    return this.request('/relationships', {
+      method: 'POST',
+      body: JSON.stringify(relationship),
+    })
+  }
+
+  async updateRelationship(id: string, changes: { relationship_type?: string; strength?: number; note?: string }) {
+    return this.request(`/relationships/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+  }
+
+  async deleteRelationship(id: string) {
+    return this.request(`/relationships/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
   // Search
-  async searchMemories(query: string, limit = 10) {
+  async searchMemories(
+    query: string,
+    limit = 10,
+    mode: 'vector' | 'keyword' | 'hybrid' = 'vector',
+    filters?: MemoryFilters,
+    cursor?: string
+  ) {
+    return this.request<SearchPage>('/search', {
+      method: 'POST',
+      body: JSON.stringify({ query, limit, mode, filters, cursor }),
+    })
+  }
+
+  // Search results best first, fetched a page at a time; stop early to stop fetching
+  async *iterateSearch(
+    query: string,
+    mode: 'vector' | 'keyword' | 'hybrid' = 'vector',
+    filters?: MemoryFilters,
+    pageSize = 20
+  ) {
+    let cursor: string | undefined
+    do {
+      const page = await this.searchMemories(query, pageSize, mode, filters, cursor)
+      yield* page.results
+      cursor = page.next_cursor ?? undefined
+    } while (cursor)
+  }
+
+  // Memories, conversation turns and conversation summaries in one list
+  async searchAll(query: string, limit = 10) {
     return this.request('/search', {
       method: 'POST',
-      body: JSON.stringify({ query, limit }),
+      body: JSON.stringify({ query, limit, scope: 'all' }),
     })
   }
 }